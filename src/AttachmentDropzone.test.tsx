@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import AttachmentDropzone from './AttachmentDropzone';
+
+const photo = new File(['jpg'], 'halle.jpg', { type: 'image/jpeg' });
+const step = new File(['step'], 'foerderer.step');
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('AttachmentDropzone', () => {
+  it('adds dropped files', () => {
+    const onAdd = vi.fn();
+    render(<AttachmentDropzone files={[]} onAdd={onAdd} onRemove={vi.fn()} />);
+    fireEvent.drop(screen.getByRole('group'), { dataTransfer: { files: [photo, step] } });
+    expect(onAdd).toHaveBeenCalledWith([photo, step]);
+  });
+
+  it('adds picked files and limits the picker to the accepted types', async () => {
+    const user = userEvent.setup();
+    const onAdd = vi.fn();
+    const { container } = render(
+      <AttachmentDropzone files={[]} onAdd={onAdd} onRemove={vi.fn()} options={{ accept: ['.step', 'image/*'] }} />
+    );
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    expect(input).toHaveAttribute('accept', '.step,image/*');
+    expect(screen.getByRole('group')).toHaveAccessibleDescription(
+      'max. 10 MB pro Datei, 25 MB insgesamt · Erlaubt: .step, image/*'
+    );
+
+    await user.upload(input, step);
+    expect(onAdd).toHaveBeenCalledWith([step]);
+  });
+
+  it('lists files with image thumbnails and removes them', async () => {
+    vi.stubGlobal('URL', { createObjectURL: vi.fn(() => 'blob:halle'), revokeObjectURL: vi.fn() });
+    const user = userEvent.setup();
+    const onRemove = vi.fn();
+    const { container } = render(<AttachmentDropzone files={[photo, step]} onAdd={vi.fn()} onRemove={onRemove} />);
+    expect(container.querySelector('img')).toHaveAttribute('src', 'blob:halle');
+    expect(screen.getByText('STEP')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'foerderer.step entfernen' }));
+    expect(onRemove).toHaveBeenCalledWith(1);
+  });
+
+  it('shows why files were rejected', () => {
+    render(<AttachmentDropzone files={[]} onAdd={vi.fn()} onRemove={vi.fn()} errors={['plan.dwg: Dieser Dateityp ist nicht erlaubt.']} />);
+    expect(screen.getByRole('alert')).toHaveTextContent('plan.dwg: Dieser Dateityp ist nicht erlaubt.');
+  });
+});
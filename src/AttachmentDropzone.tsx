@@ -0,0 +1,235 @@
+/**
+ * Syskomp Attachment Dropzone
+ * Drag & drop area + file picker with the list of attached files
+ * (image thumbnails, size, remove button) and rejection messages.
+ *
+ * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
+ */
+
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { useI18n, formatMessage } from './i18n';
+import { useTheme } from './theme';
+import type { SyskompTheme } from './theme';
+import { formatFileSize, isImageFile, resolveAttachmentOptions } from './attachments';
+import type { AttachmentOptions } from './attachments';
+
+export interface AttachmentDropzoneProps {
+  /** Attached files */
+  files: File[];
+  /** Called with dropped / picked files - checking the limits is up to the caller */
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  /** Limits shown as hint; `accept` also filters the file picker */
+  options?: AttachmentOptions | boolean;
+  /** Messages for rejected files */
+  errors?: string[];
+  /** id of an external label for the drop area */
+  labelledBy?: string;
+}
+
+const createStyles = ({ colors, radii, typography }: SyskompTheme) => ({
+  dropzone: (dragging: boolean) => ({
+    border: `1px dashed ${dragging ? colors.skTurkis : colors.inputBorder}`,
+    borderRadius: radii.sm,
+    backgroundColor: dragging ? colors.skTurkisLight : colors.background,
+    padding: '10px',
+    textAlign: 'center' as const,
+    fontSize: typography.fontSizeSmall,
+    color: colors.muted,
+  }),
+  browseButton: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    color: colors.skTurkis,
+    font: 'inherit',
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
+  hint: {
+    margin: '4px 0 0 0',
+    fontSize: '11px',
+  },
+  list: {
+    listStyle: 'none',
+    margin: '8px 0 0 0',
+    padding: 0,
+  },
+  file: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '3px 0',
+    fontSize: typography.fontSizeSmall,
+  },
+  thumbnail: {
+    width: '32px',
+    height: '32px',
+    flexShrink: 0,
+    objectFit: 'cover' as const,
+    borderRadius: radii.sm,
+    border: `1px solid ${colors.surfaceBorder}`,
+  },
+  extension: {
+    width: '32px',
+    height: '32px',
+    flexShrink: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: radii.sm,
+    backgroundColor: colors.surface,
+    border: `1px solid ${colors.surfaceBorder}`,
+    color: colors.skBlau,
+    fontSize: '9px',
+    fontWeight: '600' as const,
+  },
+  fileName: {
+    flex: 1,
+    minWidth: 0,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  fileSize: {
+    color: colors.muted,
+    whiteSpace: 'nowrap' as const,
+  },
+  removeButton: {
+    background: 'none',
+    border: 'none',
+    padding: '0 2px',
+    color: colors.muted,
+    fontSize: '16px',
+    lineHeight: 1,
+    cursor: 'pointer',
+  },
+  errors: {
+    margin: '6px 0 0 0',
+    padding: 0,
+    listStyle: 'none',
+    fontSize: '11px',
+    color: colors.errorRed,
+  },
+});
+
+type Styles = ReturnType<typeof createStyles>;
+
+/** Image preview via an object URL - extension badge for other files */
+const Thumbnail: React.FC<{ file: File; styles: Styles }> = ({ file, styles }) => {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    setUrl('');
+    // No object URLs outside the browser (SSR, jsdom)
+    if (!isImageFile(file) || typeof URL.createObjectURL !== 'function') return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (url) return <img src={url} alt="" style={styles.thumbnail} />;
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.slice(0, 4).toUpperCase() : '';
+  return <span aria-hidden="true" style={styles.extension}>{extension}</span>;
+};
+
+/**
+ * Attachment area in the Syskomp design.
+ * Texts come from the surrounding SyskompI18nProvider (e.g. ModalShell).
+ *
+ * @example
+ * const quote = useQuoteForm({ onSubmit, attachments: { accept: ['.step', 'image/*'] } });
+ * <AttachmentDropzone files={quote.attachments} onAdd={quote.addAttachments} onRemove={quote.removeAttachment} errors={quote.attachmentErrors} />
+ */
+const AttachmentDropzone: React.FC<AttachmentDropzoneProps> = ({
+  files,
+  onAdd,
+  onRemove,
+  options,
+  errors = [],
+  labelledBy,
+}) => {
+  const { t, locale } = useI18n();
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hintId = `${useId()}-hint`;
+  const [dragging, setDragging] = useState(false);
+  const { accept, maxFileSize, maxTotalSize } = resolveAttachmentOptions(options);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (e.dataTransfer.files.length) onAdd(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) onAdd(Array.from(e.target.files));
+    // Picking the same file again after removing it fires a change event
+    e.target.value = '';
+  };
+
+  return (
+    <div>
+      <div
+        role="group"
+        aria-labelledby={labelledBy}
+        aria-describedby={hintId}
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        style={styles.dropzone(dragging)}
+      >
+        {t.attachmentsDrop}{' '}
+        <button type="button" onClick={() => inputRef.current?.click()} style={styles.browseButton}>
+          {t.attachmentsBrowse}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={accept.length ? accept.join(',') : undefined}
+          onChange={handlePick}
+          tabIndex={-1}
+          aria-hidden="true"
+          style={{ display: 'none' }}
+        />
+        <p id={hintId} style={styles.hint}>
+          {formatMessage(t.attachmentsLimits, {
+            size: formatFileSize(maxFileSize, locale),
+            total: formatFileSize(maxTotalSize, locale),
+          })}
+          {accept.length > 0 && <> · {formatMessage(t.attachmentsTypes, { types: accept.join(', ') })}</>}
+        </p>
+      </div>
+
+      {files.length > 0 && (
+        <ul style={styles.list}>
+          {files.map((file, idx) => (
+            <li key={`${idx}-${file.name}`} style={styles.file}>
+              <Thumbnail file={file} styles={styles} />
+              <span style={styles.fileName} title={file.name}>{file.name}</span>
+              <span style={styles.fileSize}>{formatFileSize(file.size, locale)}</span>
+              <button
+                type="button"
+                aria-label={formatMessage(t.removeAttachment, { name: file.name })}
+                onClick={() => onRemove(idx)}
+                style={styles.removeButton}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul role="alert" style={styles.errors}>
+          {errors.map((error, idx) => <li key={idx}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentDropzone;
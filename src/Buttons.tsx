@@ -0,0 +1,117 @@
+/**
+ * Syskomp Buttons
+ * PrimaryButton (sk-button green) and SecondaryButton (neutral grey or sk-turkis)
+ * with the hover behavior of the Syskomp modals.
+ *
+ * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
+ */
+
+import React, { useState } from 'react';
+import { useTheme } from './theme';
+import type { SyskompTheme } from './theme';
+
+export interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  /** "md" for dialog actions (default), "sm" for popovers */
+  size?: 'md' | 'sm';
+  /** Shows the button as disabled and sets aria-busy (e.g. while sending) */
+  busy?: boolean;
+}
+
+export interface SecondaryButtonProps extends ButtonProps {
+  /** "neutral" = grey (Schließen, Abbrechen), "accent" = sk-turkis (default: "neutral") */
+  tone?: 'neutral' | 'accent';
+  /** Background override, e.g. for a success / failure state */
+  color?: string;
+}
+
+const baseStyle = ({ radii, typography }: SyskompTheme, size: 'md' | 'sm'): React.CSSProperties => ({
+  flex: 1,
+  color: 'white',
+  padding: size === 'sm' ? '6px 10px' : '8px 14px',
+  borderRadius: radii.sm,
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: size === 'sm' ? undefined : 500,
+  transition: 'opacity 0.2s',
+  fontFamily: 'inherit',
+  fontSize: size === 'sm' ? typography.fontSizeSmall : 'inherit',
+});
+
+const disabledStyle: React.CSSProperties = {
+  opacity: 0.6,
+  cursor: 'not-allowed',
+};
+
+/**
+ * Main action of a dialog ("E-Mail öffnen", "Ihr Angebot").
+ * sk-button background, sk-button-hover on hover.
+ */
+export const PrimaryButton: React.FC<ButtonProps> = ({
+  size = 'md',
+  busy = false,
+  disabled,
+  style,
+  onMouseEnter,
+  onMouseLeave,
+  ...rest
+}) => {
+  const theme = useTheme();
+  const [hovered, setHovered] = useState(false);
+  const inactive = disabled || busy;
+
+  return (
+    <button
+      type="button"
+      {...rest}
+      disabled={inactive}
+      aria-busy={busy || undefined}
+      style={{
+        ...baseStyle(theme, size),
+        backgroundColor: hovered && !inactive ? theme.colors.skButtonHover : theme.colors.skButton,
+        ...(inactive ? disabledStyle : {}),
+        ...style,
+      }}
+      onMouseEnter={(e) => { setHovered(true); onMouseEnter?.(e); }}
+      onMouseLeave={(e) => { setHovered(false); onMouseLeave?.(e); }}
+    />
+  );
+};
+
+/**
+ * Secondary action ("Schließen", "Abbrechen", "Text kopieren").
+ * Grey or sk-turkis background, slightly transparent on hover.
+ */
+export const SecondaryButton: React.FC<SecondaryButtonProps> = ({
+  size = 'md',
+  tone = 'neutral',
+  color,
+  busy = false,
+  disabled,
+  style,
+  onMouseEnter,
+  onMouseLeave,
+  ...rest
+}) => {
+  const theme = useTheme();
+  const [hovered, setHovered] = useState(false);
+  const inactive = disabled || busy;
+  const background = color || (tone === 'accent' ? theme.colors.skTurkis : theme.colors.neutralButton);
+
+  return (
+    <button
+      type="button"
+      {...rest}
+      disabled={inactive}
+      aria-busy={busy || undefined}
+      style={{
+        ...baseStyle(theme, size),
+        backgroundColor: background,
+        opacity: hovered && !inactive ? 0.9 : 1,
+        ...(inactive ? disabledStyle : {}),
+        ...style,
+      }}
+      onMouseEnter={(e) => { setHovered(true); onMouseEnter?.(e); }}
+      onMouseLeave={(e) => { setHovered(false); onMouseLeave?.(e); }}
+    />
+  );
+};
@@ -0,0 +1,344 @@
+/**
+ * Syskomp Callback Phone Popover
+ * "Bitte um Rückruf" trigger with a small popover to enter a phone number.
+ *
+ * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
+ */
+
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { DialogScope } from './a11y';
+import { PrimaryButton, SecondaryButton } from './Buttons';
+import { useI18n, formatMessage } from './i18n';
+import { PHONE_COUNTRIES, parsePhoneNumber, phoneCountryFromLocale } from './phone';
+import { useTheme } from './theme';
+import type { SyskompTheme } from './theme';
+
+export interface CallbackPhonePopoverProps {
+  /** Current phone number ('' = no callback requested) */
+  value: string;
+  /** Called with the number in readable international form on "Übernehmen", with '' on remove */
+  onChange: (phone: string) => void;
+  /** Preselected country code for national numbers (default: from the browser locale) */
+  defaultCountry?: string;
+  /**
+   * "field" = full-width trigger next to a form label (EmailModal),
+   * "button" = compact inline button (QuoteModal). Default: "field"
+   */
+  variant?: 'field' | 'button';
+  /** Where the popover opens relative to the trigger (default: "bottom") */
+  placement?: 'bottom' | 'top';
+  /** id of the trigger button, e.g. for <label htmlFor> */
+  id?: string;
+  /** id of an external label - the trigger is then announced as "<label> <value>" */
+  labelledBy?: string;
+  /** Extra styles for the wrapper (e.g. flex: 1 inside a row) */
+  style?: React.CSSProperties;
+}
+
+/** Characters allowed in a phone number */
+export const sanitizePhone = (value: string): string => value.replace(/[^0-9+\-()/\s]/g, '');
+
+const createStyles = ({ colors, radii, typography, zIndex }: SyskompTheme) => ({
+  wrapper: {
+    position: 'relative' as const,
+  },
+  fieldTrigger: {
+    width: '100%',
+    padding: '4px 8px',
+    border: `1px solid ${colors.skTurkis}`,
+    borderRadius: radii.sm,
+    backgroundColor: colors.background,
+    color: colors.skTurkis,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+    textAlign: 'left' as const,
+  },
+  fieldActive: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '4px 8px',
+    border: `1px solid ${colors.skTurkis}`,
+    borderRadius: radii.sm,
+    backgroundColor: colors.skTurkisLight,
+    color: colors.skBlau,
+  },
+  fieldActiveText: {
+    flex: 1,
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+    textAlign: 'left' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  buttonTrigger: {
+    padding: '6px 12px',
+    border: `1px solid ${colors.skTurkis}`,
+    borderRadius: radii.sm,
+    backgroundColor: colors.background,
+    color: colors.skTurkis,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: typography.fontSizeSmall,
+  },
+  buttonActive: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    border: `1px solid ${colors.skTurkis}`,
+    borderRadius: radii.sm,
+    backgroundColor: colors.skTurkisLight,
+    color: colors.skBlau,
+    fontSize: typography.fontSizeSmall,
+  },
+  buttonActiveText: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+  },
+  remove: {
+    padding: 0,
+    border: 'none',
+    background: 'none',
+    fontWeight: 'bold' as const,
+    color: colors.muted,
+    cursor: 'pointer',
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+  },
+  popover: (placement: 'bottom' | 'top') => ({
+    position: 'absolute' as const,
+    ...(placement === 'top'
+      ? { bottom: '100%', marginBottom: '4px' }
+      : { top: '100%', marginTop: '4px' }),
+    left: 0,
+    backgroundColor: colors.background,
+    border: `1px solid ${colors.skTurkisBorder}`,
+    borderRadius: radii.md,
+    padding: '14px',
+    boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+    zIndex: zIndex.popover,
+    width: '280px',
+  }),
+  popoverTitle: {
+    margin: '0 0 6px 0',
+    fontWeight: '600' as const,
+    fontSize: '13px',
+    color: colors.skBlau,
+  },
+  popoverHint: {
+    margin: '0 0 10px 0',
+    fontSize: typography.fontSizeSmall,
+    color: colors.muted,
+  },
+  inputRow: {
+    display: 'flex',
+    gap: '6px',
+    marginBottom: '10px',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+  },
+  inputError: {
+    border: `1px solid ${colors.errorRed}`,
+    backgroundColor: colors.errorBg,
+  },
+  countrySelect: {
+    padding: '4px',
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
+    backgroundColor: colors.background,
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+  },
+  errorText: {
+    margin: '-6px 0 10px 0',
+    fontSize: '11px',
+    color: colors.errorRed,
+  },
+  actions: {
+    display: 'flex',
+    gap: '6px',
+  },
+});
+
+/**
+ * Callback request trigger + phone popover in the Syskomp design.
+ * Texts come from the surrounding SyskompI18nProvider (e.g. ModalShell).
+ *
+ * @example
+ * <label id="phone-label" htmlFor="phone">Telefon:</label>
+ * <CallbackPhonePopover id="phone" labelledBy="phone-label" value={phone} onChange={setPhone} />
+ */
+const CallbackPhonePopover: React.FC<CallbackPhonePopoverProps> = ({
+  value,
+  onChange,
+  defaultCountry,
+  variant = 'field',
+  placement = 'bottom',
+  id,
+  labelledBy,
+  style,
+}) => {
+  const { t } = useI18n();
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [open, setOpen] = useState(false);
+  const [temp, setTemp] = useState('');
+  const [country, setCountry] = useState('');
+  const [error, setError] = useState('');
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const baseId = useId();
+  const textId = `${baseId}-text`;
+  const titleId = `${baseId}-title`;
+  const hintId = `${baseId}-hint`;
+  const errorId = `${baseId}-error`;
+
+  const fallbackCountry = () =>
+    (defaultCountry && PHONE_COUNTRIES[defaultCountry.toUpperCase()] ? defaultCountry.toUpperCase() : '') ||
+    phoneCountryFromLocale(typeof navigator !== 'undefined' ? navigator.language : undefined);
+
+  const openPopover = () => {
+    const fallback = fallbackCountry();
+    setTemp(value);
+    setCountry(parsePhoneNumber(value, fallback)?.country || fallback);
+    setError('');
+    setOpen(true);
+  };
+
+  const apply = () => {
+    const parsed = parsePhoneNumber(temp, country);
+    if (parsed && !parsed.valid) {
+      const { callingCode } = PHONE_COUNTRIES[parsed.country || country] || {};
+      setError(formatMessage(t.phoneInvalid, { code: callingCode ? `+${callingCode}` : '+' }));
+      inputRef.current?.focus();
+      return;
+    }
+    onChange(parsed ? parsed.international : '');
+    setOpen(false);
+  };
+
+  const remove = () => {
+    // Render the "Bitte um Rückruf" trigger first, then move focus onto it
+    flushSync(() => onChange(''));
+    triggerRef.current?.focus();
+  };
+
+  const triggerProps = {
+    ref: triggerRef,
+    id,
+    type: 'button' as const,
+    'aria-labelledby': labelledBy ? `${labelledBy} ${textId}` : undefined,
+    'aria-haspopup': 'dialog' as const,
+    'aria-expanded': open,
+    onClick: openPopover,
+  };
+
+  const removeButton = (
+    <button type="button" aria-label={t.removePhone} onClick={remove} style={styles.remove}>&times;</button>
+  );
+
+  let trigger: React.ReactNode;
+  if (variant === 'field') {
+    trigger = value ? (
+      <div style={styles.fieldActive}>
+        <button {...triggerProps} style={styles.fieldActiveText}>
+          <span id={textId}>{value}</span>
+        </button>
+        <span style={{ marginLeft: '6px', display: 'inline-flex' }}>{removeButton}</span>
+      </div>
+    ) : (
+      <button {...triggerProps} style={styles.fieldTrigger}>
+        <span id={textId}>{t.callbackButton}</span>
+      </button>
+    );
+  } else {
+    trigger = value ? (
+      <span style={styles.buttonActive}>
+        <button {...triggerProps} style={styles.buttonActiveText}>
+          <span id={textId}>{formatMessage(t.callbackActive, { phone: value })}</span>
+        </button>
+        {removeButton}
+      </span>
+    ) : (
+      <button {...triggerProps} style={styles.buttonTrigger}>
+        <span id={textId}>{t.callbackButtonLong}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ ...styles.wrapper, display: variant === 'button' ? 'inline-block' : 'block', ...style }}>
+      {trigger}
+
+      {open && (
+        <DialogScope
+          aria-labelledby={titleId}
+          aria-describedby={hintId}
+          onClose={() => setOpen(false)}
+          initialFocusRef={inputRef}
+          returnFocusRef={triggerRef}
+          style={styles.popover(placement)}
+        >
+          <p id={titleId} style={styles.popoverTitle}>{t.callbackDialogTitle}</p>
+          <p id={hintId} style={styles.popoverHint}>{t.callbackDialogHint}</p>
+          <div style={styles.inputRow}>
+            <select
+              aria-label={t.phoneCountryLabel}
+              value={country}
+              onChange={(e) => { setCountry(e.target.value); setError(''); }}
+              style={styles.countrySelect}
+            >
+              {Object.entries(PHONE_COUNTRIES).map(([code, { callingCode }]) => (
+                <option key={code} value={code}>{code} +{callingCode}</option>
+              ))}
+            </select>
+            <input
+              ref={inputRef}
+              type="tel"
+              autoComplete="tel"
+              aria-labelledby={titleId}
+              aria-invalid={error ? true : undefined}
+              aria-describedby={error ? errorId : undefined}
+              value={temp}
+              onChange={(e) => { setTemp(sanitizePhone(e.target.value)); setError(''); }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') { e.preventDefault(); apply(); }
+              }}
+              placeholder={t.phonePlaceholder}
+              style={{ ...styles.input, ...(error ? styles.inputError : {}) }}
+            />
+          </div>
+          {error && <p id={errorId} role="alert" style={styles.errorText}>{error}</p>}
+          <div style={styles.actions}>
+            <PrimaryButton size="sm" onClick={apply}>{t.apply}</PrimaryButton>
+            <SecondaryButton size="sm" onClick={() => setOpen(false)}>{t.cancel}</SecondaryButton>
+          </div>
+        </DialogScope>
+      )}
+    </div>
+  );
+};
+
+export default CallbackPhonePopover;
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import EmailModal from './EmailModal';
+import { registerEmailTemplate } from './emailTemplate';
+
+const defaultProps = {
+  title: 'CAD Anfrage',
+  emailTo: 'cad-data@syskomp-group.com',
+  subjectText: 'Artnr: 12345',
+  bodyWithoutContact: 'Bitte senden Sie mir die CAD-Daten.',
+  onClose: vi.fn(),
+};
+
+const getBody = () => (screen.getByRole('textbox', { name: 'E-Mail-Vorschau' }) as HTMLTextAreaElement).value;
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('EmailModal', () => {
+  it('renders title, recipient and subject with inquiry number', () => {
+    render(<EmailModal {...defaultProps} />);
+    expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('CAD Anfrage');
+    expect(screen.getByText('cad-data@syskomp-group.com')).toBeInTheDocument();
+    expect(screen.getByText(/CAD Anfrage Artnr: 12345 #\d{8}-\d{6}/)).toBeInTheDocument();
+  });
+
+  it('appends contact data to the body', async () => {
+    const user = userEvent.setup();
+    render(<EmailModal {...defaultProps} />);
+    await user.type(screen.getByLabelText('Name:'), 'Max Mustermann');
+    await user.type(screen.getByLabelText('Firma:'), 'Test GmbH');
+    expect(getBody()).toBe('Bitte senden Sie mir die CAD-Daten.\n\nName: Max Mustermann\nTelefon: \nFirma: Test GmbH');
+  });
+
+  it('renders the UI in English but keeps the body German', async () => {
+    render(<EmailModal {...defaultProps} locale="en" />);
+    expect(screen.getByText('Open email')).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: 'Email preview' })).toHaveValue(
+      'Bitte senden Sie mir die CAD-Daten.\n\nName: \nTelefon: \nFirma: '
+    );
+  });
+
+  it('renders with the default template if the given one is invalid', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<EmailModal {...defaultProps} template={{ subject: '{{#subjectText}}', body: '{{body}}' }} />);
+
+    expect(getBody()).toBe('Bitte senden Sie mir die CAD-Daten.\n\nName: \nTelefon: \nFirma: ');
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('renders subject and body from a registered template', async () => {
+    const user = userEvent.setup();
+    registerEmailTemplate('cad-short', {
+      subject: 'CAD-Daten {{subjectText}} ({{inquiryNumber}})',
+      body: '{{body}}\n-- {{contact.name}}{{#contact.company}}, {{contact.company}}{{/contact.company}}',
+    });
+    render(<EmailModal {...defaultProps} template="cad-short" inquiryNumber="20260101-120000-ABCD" />);
+
+    expect(screen.getByText('CAD-Daten Artnr: 12345 (20260101-120000-ABCD)')).toBeInTheDocument();
+    await user.type(screen.getByLabelText('Name:'), 'Max');
+    expect(getBody()).toBe('Bitte senden Sie mir die CAD-Daten.\n-- Max');
+    await user.type(screen.getByLabelText('Firma:'), 'Test GmbH');
+    expect(getBody()).toBe('Bitte senden Sie mir die CAD-Daten.\n-- Max, Test GmbH');
+  });
+
+  it('lists items with prices in the body', () => {
+    render(
+      <EmailModal
+        {...defaultProps}
+        items={[{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }]}
+        showPrices={false}
+      />
+    );
+    expect(getBody()).toBe(
+      'Bitte senden Sie mir die CAD-Daten.\n\nBezeichnung     Menge\n---------------------\nRollenförderer     2x\n\nName: \nTelefon: \nFirma: '
+    );
+  });
+
+  it('offers the mail as .eml download', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn().mockReturnValue('blob:eml');
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<EmailModal {...defaultProps} />);
+
+    await user.click(screen.getByRole('button', { name: 'E-Mail-Datei (.eml)' }));
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    expect(click).toHaveBeenCalledTimes(1);
+    click.mockRestore();
+    vi.unstubAllGlobals();
+  });
+
+  it('tells the user to paste the text when the mail is too long', async () => {
+    const user = userEvent.setup();
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<EmailModal {...defaultProps} mailtoMaxLength={50} />);
+
+    await user.click(screen.getByRole('button', { name: 'E-Mail öffnen' }));
+    expect(writeText).toHaveBeenCalledWith(getBody());
+    expect(screen.getByRole('status')).toHaveTextContent(/in die Zwischenablage kopiert/);
+    click.mockRestore();
+  });
+
+  it('offers the print view only for item lists', () => {
+    const { rerender } = render(<EmailModal {...defaultProps} />);
+    expect(screen.queryByRole('button', { name: 'Drucken / als PDF speichern' })).not.toBeInTheDocument();
+    rerender(<EmailModal {...defaultProps} items={[{ description: 'Rollenförderer', quantity: 2 }]} />);
+    expect(screen.getByRole('button', { name: 'Drucken / als PDF speichern' })).toBeInTheDocument();
+  });
+
+  describe('accessibility', () => {
+    it('renders a labelled modal dialog and focuses the first field', () => {
+      render(<EmailModal {...defaultProps} />);
+      expect(screen.getByRole('dialog', { name: 'CAD Anfrage' })).toHaveAttribute('aria-modal', 'true');
+      expect(screen.getByLabelText('Name:')).toHaveFocus();
+    });
+
+    it('closes on Escape', async () => {
+      const user = userEvent.setup();
+      const onClose = vi.fn();
+      render(<EmailModal {...defaultProps} onClose={onClose} />);
+      await user.keyboard('{Escape}');
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('wraps Tab focus at both ends of the dialog', async () => {
+      const user = userEvent.setup();
+      render(<EmailModal {...defaultProps} />);
+      await user.tab({ shift: true });
+      expect(screen.getByRole('button', { name: 'Schließen' })).toHaveFocus();
+      await user.tab();
+      expect(screen.getByLabelText('Name:')).toHaveFocus();
+    });
+
+    it('requests a callback with the keyboard only', async () => {
+      const user = userEvent.setup();
+      render(<EmailModal {...defaultProps} />);
+
+      await user.tab();
+      const trigger = screen.getByRole('button', { name: 'Telefon: Bitte um Rückruf' });
+      expect(trigger).toHaveFocus();
+      expect(trigger).toHaveAttribute('aria-expanded', 'false');
+
+      await user.keyboard('{Enter}');
+      expect(screen.getByRole('dialog', { name: 'Telefonischen Rückruf anfordern' })).toHaveAccessibleDescription(
+        'Wir rufen nur zu Ihren Geschäftszeiten an.'
+      );
+      await user.keyboard('0301234567{Enter}');
+
+      expect(screen.getByRole('button', { name: 'Telefon: +49 301234567' })).toHaveFocus();
+      expect(getBody()).toContain('Telefon: +49 301234567 [hat um Rückruf gebeten]');
+    });
+
+    it('announces the copy result', async () => {
+      const user = userEvent.setup();
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      render(<EmailModal {...defaultProps} />);
+      await user.click(screen.getByRole('button', { name: 'Text kopieren' }));
+      expect(screen.getByRole('status')).toHaveTextContent('✓ Text kopiert!');
+    });
+  });
+});
@@ -5,93 +5,28 @@
  * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
-
-// Color constants - Syskomp design system
-const COLORS = {
-  skTurkis: '#17a6b0',
-  skButton: '#00b51a',
-  skButtonHover: '#009914',
-  skPrice: '#17a6b0',
-  skCad: '#17a6b0',
-  skBlau: '#215674',
-  skGrau: '#575d5e',
-  // Derived colors
-  skTurkisLight: 'rgba(23, 166, 176, 0.1)', // sk-turkis with 10% opacity
-  skTurkisBorder: '#17a6b0',
-};
-
-/**
- * Generate inquiry number from timestamp
- * Format: YYYYMMDD-HHMMSS (e.g., 20251026-143052)
- */
-const generateInquiryNumber = (): string => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hours = String(now.getHours()).padStart(2, '0');
-  const minutes = String(now.getMinutes()).padStart(2, '0');
-  const seconds = String(now.getSeconds()).padStart(2, '0');
-  return `${year}${month}${day}-${hours}${minutes}${seconds}`;
-};
-
-// ─── LocalStorage Persistence ────────────────────────────────
-
-const EMAIL_STORAGE_KEY = 'syskomp-email-contact';
-
-interface EmailContactData {
-  name: string;
-  phone: string;
-  company: string;
-}
-
-const loadEmailContactData = (): Partial<EmailContactData> => {
-  try {
-    const stored = localStorage.getItem(EMAIL_STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
-  } catch { /* ignore */ }
-  return {};
-};
-
-const saveEmailContactData = (data: EmailContactData) => {
-  try {
-    localStorage.setItem(EMAIL_STORAGE_KEY, JSON.stringify(data));
-  } catch { /* ignore */ }
-};
-
-interface EmailModalProps {
-  /** Modal title */
+import React, { useMemo, useId } from 'react';
+import { useI18n } from './i18n';
+import { useTheme } from './theme';
+import type { SyskompTheme, SyskompThemeOverrides } from './theme';
+import { visuallyHidden } from './a11y';
+import type { OverlayOptions } from './overlay';
+import ModalShell from './ModalShell';
+import FormField from './FormField';
+import CallbackPhonePopover from './CallbackPhonePopover';
+import { PrimaryButton, SecondaryButton } from './Buttons';
+import { useEmailComposer } from './emailComposer';
+import type { EmailComposerOptions } from './emailComposer';
+import { buildPrintDocument, printDocument } from './printView';
+import { toInternationalPhone } from './phone';
+
+export interface EmailModalProps extends EmailComposerOptions, OverlayOptions {
+  /** Modal title - also the subject title if subjectTitle is omitted */
   title: string;
 
   /** Subtitle text below title (optional) */
   subtitle?: string;
 
-  /** Email recipient */
-  emailTo: string;
-
-  /**
-   * Email subject (legacy - use subjectTitle + subjectText for new format)
-   * If subjectTitle and subjectText are provided, this will be ignored
-   */
-  subject?: string;
-
-  /**
-   * Subject title (e.g., "CAD", "Angebot")
-   * Used with subjectText to build: <title> <text> #<quotenr>
-   * If not provided, uses the modal title (per anfrage.md: "title ist Title von anfrage komponente")
-   */
-  subjectTitle?: string;
-
-  /**
-   * Subject text from module (e.g., "Artnr: 12345", "Rollenförderer")
-   * Used with subjectTitle to build: <title> <text> #<quotenr>
-   */
-  subjectText?: string;
-
-  /** Base email body (without contact info) */
-  bodyWithoutContact: string;
-
   /** Additional description text shown at top of modal (optional) */
   description?: string;
 
@@ -101,46 +36,12 @@ interface EmailModalProps {
   /** Close modal callback */
   onClose: () => void;
 
-  /** Callback after email is sent (optional) */
-  onEmailSent?: () => void;
+  /** Theme overrides (colors, radii, typography, z-index) - defaults to the Syskomp design */
+  theme?: SyskompThemeOverrides;
 }
 
 // Inline styles - no Tailwind dependency
-const styles = {
-  overlay: {
-    position: 'fixed' as const,
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
-    zIndex: 50,
-    display: 'flex',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: '2px',
-  },
-  modal: {
-    backgroundColor: 'white',
-    padding: '20px',
-    borderRadius: '8px',
-    maxWidth: '550px',
-    width: '100%',
-    boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
-    maxHeight: '90vh',
-    overflowY: 'auto' as const,
-    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-    fontSize: '15px',
-    lineHeight: '1.4',
-    color: '#374151',
-  },
-  title: {
-    fontSize: '18px',
-    fontWeight: 'bold' as const,
-    textAlign: 'center' as const,
-    marginBottom: '5px',
-    color: '#000000',
-  },
+const createStyles = ({ colors, radii, typography }: SyskompTheme) => ({
   subtitle: {
     marginBottom: '4px',
   },
@@ -148,18 +49,18 @@ const styles = {
     marginBottom: '4px',
   },
   note: {
-    backgroundColor: COLORS.skTurkisLight,
-    border: `1px solid ${COLORS.skTurkisBorder}`,
-    borderRadius: '4px',
+    backgroundColor: colors.skTurkisLight,
+    border: `1px solid ${colors.skTurkisBorder}`,
+    borderRadius: radii.sm,
     padding: '6px',
     margin: '5px',
   },
   emailHeader: {
-    border: '1px solid #d1d5db',
+    border: `1px solid ${colors.inputBorder}`,
     marginBottom: '8px',
-    backgroundColor: '#f9fafb',
+    backgroundColor: colors.surface,
     padding: '8px 12px',
-    borderRadius: '4px',
+    borderRadius: radii.sm,
   },
   emailHeaderText: {
     marginBottom: '1px',
@@ -168,10 +69,10 @@ const styles = {
   bold: {
   },
   contactSection: {
-    backgroundColor: '#f9fafb',
-    border: '1px solid #e5e7eb',
+    backgroundColor: colors.surface,
+    border: `1px solid ${colors.surfaceBorder}`,
     padding: '8px 12px',
-    borderRadius: '4px',
+    borderRadius: radii.sm,
     marginBottom: '8px',
   },
   contactSectionTitle: {
@@ -191,22 +92,14 @@ const styles = {
   label: {
     minWidth: '110px',
   },
-  input: {
-    flex: 1,
-    padding: '4px 8px',
-    border: '1px solid #d1d5db',
-    borderRadius: '4px',
-    fontFamily: 'inherit',
-    fontSize: 'inherit',
-  },
   textarea: {
     width: '100%',
     minHeight: '200px',
     padding: '8px',
-    border: '1px solid #d1d5db',
-    borderRadius: '4px',
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
     fontFamily: 'monospace',
-    fontSize: '12px',
+    fontSize: typography.fontSizeSmall,
     marginBottom: '12px',
     resize: 'vertical' as const,
   },
@@ -214,23 +107,11 @@ const styles = {
     display: 'flex',
     gap: '6px',
   },
-  button: {
-    flex: 1,
-    color: 'white',
-    padding: '8px 14px',
-    borderRadius: '4px',
-    border: 'none',
-    cursor: 'pointer',
-    fontWeight: '500' as const,
-    transition: 'opacity 0.2s',
-    fontFamily: 'inherit',
-    fontSize: 'inherit',
-  },
   buttonClose: {
     flex: '0 0 auto',
     padding: '6px 10px',
   },
-};
+});
 
 /**
  * Reusable Email Modal - used by AnfrageButton and CAD-Daten
@@ -238,9 +119,12 @@ const styles = {
  * Features:
  * - Contact form (Name, Telefon, Firma)
  * - Email preview with live updates
- * - Copy text / Email öffnen / Close buttons
- * - Browser-specific mailto handling
- * - Automatic inquiry number generation (format: #YYYYMMDD-HHMMSS)
+ * - Optional item table with prices and net total (`items`), printable as A4 summary
+ * - Copy text / Email öffnen / .eml download / Close buttons
+ * - Browser-specific mailto handling (long mails: short body + full text via clipboard)
+ * - Automatic inquiry number generation (default format: #YYYYMMDD-HHMMSS-XXXX)
+ * - UI language via `locale`, email body language via `bodyLocale` (default: German)
+ * - Accessible dialog: focus trap, Escape to close, focus restore, labelled fields
  * - Pure inline styles (no Tailwind dependency)
  */
 const EmailModal: React.FC<EmailModalProps> = (props) => {
@@ -248,382 +132,175 @@ const EmailModal: React.FC<EmailModalProps> = (props) => {
     title,
     subtitle,
     emailTo,
-    subject,
-    subjectTitle,
-    subjectText,
-    bodyWithoutContact,
     description,
     note,
     onClose,
-    onEmailSent
   } = props;
-  const savedContact = useMemo(() => loadEmailContactData(), []);
-  const [contactName, setContactName] = useState(savedContact.name || '');
-  const [contactPhone, setContactPhone] = useState(savedContact.phone || '');
-  const [contactCompany, setContactCompany] = useState(savedContact.company || '');
-  const [copySuccess, setCopySuccess] = useState(false);
-  const [copyFailed, setCopyFailed] = useState(false);
-  const [showPhoneDialog, setShowPhoneDialog] = useState(false);
-  const [phoneTemp, setPhoneTemp] = useState('');
-
-  // Persist contact data on change
-  useEffect(() => {
-    saveEmailContactData({ name: contactName, phone: contactPhone, company: contactCompany });
-  }, [contactName, contactPhone, contactCompany]);
-
-  // Generate inquiry number once when component mounts
-  const inquiryNumber = useMemo(() => generateInquiryNumber(), []);
-
-  // Build subject line: <title> <text> #<quotenr>
-  // Per anfrage.md line 5: "title ist Title von anfrage komponente"
-  // If subjectTitle is not provided, use the modal title
-  // If new props (subjectTitle/subjectText) are provided, use them
-  // Otherwise, fall back to legacy subject prop
-  const emailSubject = useMemo(() => {
-    if (subjectText) {
-      const titleForSubject = subjectTitle || title; // Use modal title if subjectTitle not provided
-      return `${titleForSubject} ${subjectText} #${inquiryNumber}`;
-    }
-    return subject || '';
-  }, [subjectTitle, subjectText, title, subject, inquiryNumber]);
-
-  // Add contact info to email body
-  const callbackNote = contactPhone.trim() ? ' [hat um Rückruf gebeten]' : '';
-  const body = `${bodyWithoutContact}\n\nName: ${contactName}\nTelefon: ${contactPhone}${callbackNote}\nFirma: ${contactCompany}`;
-
-  const handleCopyText = async () => {
-    const fullEmailText = `An: ${emailTo}\nBetreff: ${emailSubject}\n\n${body}`;
-
-    // textarea/execCommand fallback — needed when the Clipboard API is
-    // unavailable OR rejects (e.g. cross-origin iframe without
-    // allow="clipboard-write", as on the syskomp landing page embed).
-    // contentEditable + Range selection is the copy path iOS accepts.
-    // A textarea's DOM range collapses the value to a single line, so use
-    // a div with white-space:pre-wrap — that keeps the line breaks.
-    const legacyCopy = (): boolean => {
-      const el = document.createElement('div');
-      el.contentEditable = 'true';
-      // innerText turns \n into <br>, so even the natural HTML clipboard
-      // flavor keeps the line structure
-      el.innerText = fullEmailText;
-      el.style.position = 'fixed';
-      el.style.top = '0';
-      el.style.left = '0';
-      el.style.opacity = '0';
-      el.style.whiteSpace = 'pre-wrap';
-      document.body.appendChild(el);
-      el.focus();
-      const range = document.createRange();
-      range.selectNodeContents(el);
-      const selection = window.getSelection();
-      if (selection) {
-        selection.removeAllRanges();
-        selection.addRange(range);
-      }
-      // Override what execCommand puts on the clipboard: exact plain text
-      // plus an HTML flavor with real <br> — apps that paste HTML (e.g.
-      // Outlook iOS) would otherwise collapse the newlines.
-      const html = fullEmailText
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/\n/g, '<br>');
-      const setExactData = (e: Event) => {
-        const clip = (e as ClipboardEvent).clipboardData;
-        if (clip) {
-          clip.setData('text/plain', fullEmailText);
-          clip.setData('text/html', html);
-          e.preventDefault();
-        }
-      };
-      document.addEventListener('copy', setExactData, true);
-      let ok = false;
-      try {
-        ok = document.execCommand('copy');
-      } catch {
-        ok = false;
-      }
-      document.removeEventListener('copy', setExactData, true);
-      document.body.removeChild(el);
-      if (selection) {
-        selection.removeAllRanges();
-      }
-      return ok;
-    };
-
-    // In a cross-origin iframe (landing page embed) the async Clipboard API
-    // is usually blocked, and awaiting its rejected promise consumes the
-    // user activation that execCommand('copy') needs afterwards — so run the
-    // synchronous legacy path FIRST when embedded.
-    const embedded = window.self !== window.top;
-
-    let success = false;
-    if (embedded) {
-      success = legacyCopy();
-    }
-    if (!success && navigator.clipboard) {
-      try {
-        await navigator.clipboard.writeText(fullEmailText);
-        success = true;
-      } catch {
-        // blocked (permissions policy / iframe) → legacy path below
-      }
-    }
-    if (!success && !embedded) {
-      success = legacyCopy();
-    }
-
-    setCopySuccess(success);
-    setCopyFailed(!success);
-    if (success) {
-      setTimeout(() => setCopySuccess(false), 2000);
-    } else {
-      console.error('Copy to clipboard failed');
-      setTimeout(() => setCopyFailed(false), 3000);
-    }
+  const { t, locale } = useI18n(props);
+  const theme = useTheme(props.theme);
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  // Contact state, subject/body, clipboard and mailto - shared with headless hosts
+  const mail = useEmailComposer(props);
+  const { contact, updateContact, copyStatus } = mail;
+  const copySuccess = copyStatus === 'success';
+  const copyFailed = copyStatus === 'failed';
+  const mailtoHint =
+    mail.mailtoFallback === 'copied' ? t.mailtoPasteHint : mail.mailtoFallback === 'failed' ? t.mailtoCopyHint : '';
+
+  // A4 summary - only for inquiries with an item list
+  const handlePrint = () => {
+    printDocument(buildPrintDocument({
+      title,
+      inquiryNumber: mail.inquiryNumber,
+      locale,
+      contactLines: [contact.name, contact.company, toInternationalPhone(contact.phone, mail.phoneCountry)]
+        .filter((line) => line.trim()),
+      description: props.bodyWithoutContact,
+      items: props.items,
+      showPrices: props.showPrices,
+      currency: props.currency,
+      priceLocale: props.priceLocale,
+      discountPercent: props.discountPercent,
+      vatRate: props.vatRate,
+      privacyNotice: t.privacyNotice,
+      labels: t,
+    }, theme));
   };
 
-  const handleOpenEmail = () => {
-    const mailtoLink = `mailto:${emailTo}?subject=${encodeURIComponent(emailSubject)}&body=${encodeURIComponent(body)}`;
-
-    // Anchor + native .click() instead of window.location.href:
-    // iOS/WebKit silently blocks mailto: location changes inside a
-    // (cross-origin) iframe, as on the syskomp landing page embed.
-    // target="_top" navigates the top-level browsing context — allowed with
-    // user activation, and mailto never actually leaves the page. Outside an
-    // iframe _top is the window itself, so behavior is unchanged there.
-    const link = document.createElement('a');
-    link.href = mailtoLink;
-    link.target = '_top';
-    link.style.display = 'none';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    onEmailSent?.();
+  // Stable ids for aria-labelledby / htmlFor
+  const id = useId();
+  const ids = {
+    phoneLabel: `${id}-phone-label`,
+    phoneButton: `${id}-phone-button`,
   };
 
   return (
-    <div
-      style={styles.overlay}
-      onClick={onClose}
+    <ModalShell
+      title={title}
+      onClose={onClose}
+      theme={props.theme}
+      maxWidth="550px"
+      fontSize={theme.typography.fontSizeLarge}
+      titleStyle={{ marginBottom: '5px', marginTop: undefined }}
+      locale={props.locale}
+      bodyLocale={props.bodyLocale}
+      messages={props.messages}
+      bodyMessages={props.bodyMessages}
+      container={props.container}
+      disablePortal={props.disablePortal}
+      lockScroll={props.lockScroll}
     >
-      <div
-        style={styles.modal}
-        onClick={(e) => e.stopPropagation()}
-      >
-        {/* Title */}
-        <h2 style={styles.title}>
-          {title}
-        </h2>
-
-        {/* Subtitle (optional) */}
-        {subtitle && (
-          <p style={styles.subtitle}>{subtitle}</p>
-        )}
-
-        {/* Description & Note (optional) */}
-        {(description || (note && note.trim())) && (
-          <div style={styles.descriptionContainer}>
-            {description && <p>{description}</p>}
-            {note && note.trim() && (
-              <p style={styles.note}>
-                {note}
-              </p>
-            )}
-          </div>
-        )}
-
-        {/* Email header info */}
-        <div style={styles.emailHeader}>
-          <p style={styles.emailHeaderText}>
-            <span style={styles.bold}>An:</span> {emailTo}
-          </p>
-          <p style={styles.emailHeaderText}>
-            <span style={styles.bold}>Betreff:</span> {emailSubject}
-          </p>
+      {/* Subtitle (optional) */}
+      {subtitle && (
+        <p style={styles.subtitle}>{subtitle}</p>
+      )}
+
+      {/* Description & Note (optional) */}
+      {(description || (note && note.trim())) && (
+        <div style={styles.descriptionContainer}>
+          {description && <p>{description}</p>}
+          {note && note.trim() && (
+            <p style={styles.note}>
+              {note}
+            </p>
+          )}
         </div>
+      )}
+
+      {/* Email header info */}
+      <div style={styles.emailHeader}>
+        <p style={styles.emailHeaderText}>
+          <span style={styles.bold}>{t.emailTo}</span> {emailTo}
+        </p>
+        <p style={styles.emailHeaderText}>
+          <span style={styles.bold}>{t.emailSubject}</span> {mail.subject}
+        </p>
+      </div>
 
-        {/* Contact Info Inputs */}
-        <div style={styles.contactSection}>
-          <p style={styles.contactSectionTitle}>
-            Mit Ihren Informationen können wir Sie einfacher kontaktieren:
-          </p>
-          <div style={styles.inputsContainer}>
-            <div style={styles.inputRow}>
-              <label style={styles.label}>Name:</label>
-              <input
-                type="text"
-                value={contactName}
-                onChange={(e) => setContactName(e.target.value)}
-                placeholder="(optional)"
-                style={styles.input}
-              />
-            </div>
-            <div style={{ ...styles.inputRow, position: 'relative' as const }}>
-              <label style={styles.label}>Telefon:</label>
-              {contactPhone ? (
-                <button
-                  type="button"
-                  onClick={() => { setPhoneTemp(contactPhone); setShowPhoneDialog(true); }}
-                  style={{
-                    flex: 1,
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between',
-                    padding: '4px 8px',
-                    border: `1px solid ${COLORS.skTurkis}`,
-                    borderRadius: '4px',
-                    backgroundColor: COLORS.skTurkisLight,
-                    color: COLORS.skBlau,
-                    cursor: 'pointer',
-                    fontFamily: 'inherit',
-                    fontSize: 'inherit',
-                  }}
-                >
-                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' as const }}>{contactPhone}</span>
-                  <span
-                    onClick={(e) => { e.stopPropagation(); setContactPhone(''); }}
-                    style={{ marginLeft: '6px', fontWeight: 'bold', color: '#6b7280', cursor: 'pointer' }}
-                  >&times;</span>
-                </button>
-              ) : (
-                <button
-                  type="button"
-                  onClick={() => { setPhoneTemp(''); setShowPhoneDialog(true); }}
-                  style={{
-                    flex: 1,
-                    padding: '4px 8px',
-                    border: `1px solid ${COLORS.skTurkis}`,
-                    borderRadius: '4px',
-                    backgroundColor: 'white',
-                    color: COLORS.skTurkis,
-                    cursor: 'pointer',
-                    fontFamily: 'inherit',
-                    fontSize: 'inherit',
-                    textAlign: 'left' as const,
-                  }}
-                >
-                  Bitte um Rückruf
-                </button>
-              )}
-
-              {showPhoneDialog && (
-                <div style={{
-                  position: 'absolute' as const,
-                  top: '100%',
-                  left: '110px',
-                  marginTop: '4px',
-                  backgroundColor: 'white',
-                  border: `1px solid ${COLORS.skTurkisBorder}`,
-                  borderRadius: '6px',
-                  padding: '14px',
-                  boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
-                  zIndex: 60,
-                  width: '280px',
-                }}>
-                  <p style={{ margin: '0 0 6px 0', fontWeight: '600', fontSize: '13px', color: COLORS.skBlau }}>
-                    Telefonischen Rückruf anfordern
-                  </p>
-                  <p style={{ margin: '0 0 10px 0', fontSize: '12px', color: '#6b7280' }}>
-                    Wir rufen nur zu Ihren Geschäftszeiten an.
-                  </p>
-                  <input
-                    type="tel"
-                    value={phoneTemp}
-                    onChange={(e) => setPhoneTemp(e.target.value.replace(/[^0-9+\-()/\s]/g, ''))}
-                    placeholder="Ihre Telefonnummer"
-                    autoFocus
-                    style={{ ...styles.input, marginBottom: '10px' }}
-                  />
-                  <div style={{ display: 'flex', gap: '6px' }}>
-                    <button
-                      type="button"
-                      onClick={() => { setContactPhone(phoneTemp); setShowPhoneDialog(false); }}
-                      style={{
-                        flex: 1,
-                        padding: '6px 10px',
-                        backgroundColor: COLORS.skButton,
-                        color: 'white',
-                        border: 'none',
-                        borderRadius: '4px',
-                        cursor: 'pointer',
-                        fontFamily: 'inherit',
-                        fontSize: '12px',
-                      }}
-                    >
-                      Übernehmen
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setShowPhoneDialog(false)}
-                      style={{
-                        flex: 1,
-                        padding: '6px 10px',
-                        backgroundColor: '#6b7280',
-                        color: 'white',
-                        border: 'none',
-                        borderRadius: '4px',
-                        cursor: 'pointer',
-                        fontFamily: 'inherit',
-                        fontSize: '12px',
-                      }}
-                    >
-                      Abbrechen
-                    </button>
-                  </div>
-                </div>
-              )}
-            </div>
-            <div style={styles.inputRow}>
-              <label style={styles.label}>Firma:</label>
-              <input
-                type="text"
-                value={contactCompany}
-                onChange={(e) => setContactCompany(e.target.value)}
-                placeholder="(optional)"
-                style={styles.input}
-              />
-            </div>
+      {/* Contact Info Inputs */}
+      <div style={styles.contactSection}>
+        <p style={styles.contactSectionTitle}>
+          {t.contactIntro}
+        </p>
+        <div style={styles.inputsContainer}>
+          <FormField layout="inline" label={t.nameLabel}>
+            <input
+              type="text"
+              autoComplete="name"
+              value={contact.name}
+              onChange={(e) => updateContact('name', e.target.value)}
+              placeholder={t.optional}
+            />
+          </FormField>
+          <div style={styles.inputRow}>
+            <label id={ids.phoneLabel} htmlFor={ids.phoneButton} style={styles.label}>{t.phoneLabel}</label>
+            <CallbackPhonePopover
+              id={ids.phoneButton}
+              labelledBy={ids.phoneLabel}
+              defaultCountry={mail.phoneCountry}
+              value={contact.phone}
+              onChange={(phone) => updateContact('phone', phone)}
+              style={{ flex: 1 }}
+            />
           </div>
+          <FormField layout="inline" label={t.companyLabel}>
+            <input
+              type="text"
+              autoComplete="organization"
+              value={contact.company}
+              onChange={(e) => updateContact('company', e.target.value)}
+              placeholder={t.optional}
+            />
+          </FormField>
         </div>
+      </div>
 
-        {/* Email content textarea */}
-        <textarea
-          readOnly
-          value={body}
-          style={styles.textarea}
-        />
-
-        {/* Buttons */}
-        <div style={styles.buttonContainer}>
-          <button
-            onClick={handleCopyText}
-            style={{ ...styles.button, backgroundColor: copySuccess ? '#10b981' : copyFailed ? '#dc2626' : COLORS.skTurkis }}
-            onMouseOver={(e) => e.currentTarget.style.opacity = '0.9'}
-            onMouseOut={(e) => e.currentTarget.style.opacity = '1'}
-          >
-            {copySuccess ? '✓ Text kopiert!' : copyFailed ? '✗ Kopieren blockiert' : 'Text kopieren'}
-          </button>
-          <button
-            onClick={handleOpenEmail}
-            style={{ ...styles.button, backgroundColor: COLORS.skButton }}
-            onMouseOver={(e) => e.currentTarget.style.backgroundColor = COLORS.skButtonHover}
-            onMouseOut={(e) => e.currentTarget.style.backgroundColor = COLORS.skButton}
-          >
-            E-Mail öffnen
-          </button>
-          <button
-            onClick={onClose}
-            style={{ ...styles.button, ...styles.buttonClose, backgroundColor: '#6b7280' }}
-            onMouseOver={(e) => e.currentTarget.style.opacity = '0.9'}
-            onMouseOut={(e) => e.currentTarget.style.opacity = '1'}
-          >
-            Schließen
-          </button>
-        </div>
+      {/* Email content textarea */}
+      <textarea
+        readOnly
+        aria-label={t.emailPreview}
+        value={mail.body}
+        style={styles.textarea}
+      />
+
+      {/* Mail too long for mailto: - full text goes via the clipboard */}
+      {mailtoHint && (
+        <p style={styles.note}>
+          {mailtoHint}
+        </p>
+      )}
+
+      {/* Buttons */}
+      <div style={styles.buttonContainer}>
+        <SecondaryButton
+          tone="accent"
+          color={copySuccess ? theme.colors.successButton : copyFailed ? theme.colors.errorRed : undefined}
+          onClick={mail.copyText}
+        >
+          {copySuccess ? t.copySuccess : copyFailed ? t.copyFailed : t.copyText}
+        </SecondaryButton>
+        {/* Announce copy result / mailto hint - the button color alone is not accessible */}
+        <span role="status" style={visuallyHidden}>
+          {copySuccess ? t.copySuccess : copyFailed ? t.copyFailed : mailtoHint}
+        </span>
+        <PrimaryButton onClick={mail.openEmail}>
+          {t.openEmail}
+        </PrimaryButton>
+        {/* For PCs without a mail program behind mailto: - Outlook / Thunderbird open the draft */}
+        <SecondaryButton tone="accent" onClick={mail.downloadEml}>
+          {t.downloadEml}
+        </SecondaryButton>
+        {!!props.items?.length && (
+          <SecondaryButton tone="accent" onClick={handlePrint}>
+            {t.print}
+          </SecondaryButton>
+        )}
+        <SecondaryButton onClick={onClose} style={styles.buttonClose}>
+          {t.close}
+        </SecondaryButton>
       </div>
-    </div>
+    </ModalShell>
   );
 };
 
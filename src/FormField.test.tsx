@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import FormField from './FormField';
+
+describe('FormField', () => {
+  it('links label and control', () => {
+    render(<FormField label="Firma"><input /></FormField>);
+    expect(screen.getByLabelText('Firma')).toBeInstanceOf(HTMLInputElement);
+  });
+
+  it('marks required fields and describes errors', () => {
+    render(<FormField label="E-Mail" required error="Ungültige E-Mail"><input type="email" /></FormField>);
+    const input = screen.getByLabelText(/E-Mail/);
+    expect(input).toHaveAttribute('aria-required', 'true');
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(input).toHaveAccessibleDescription('Ungültige E-Mail');
+  });
+
+  it('keeps the id and styles of the child', () => {
+    render(<FormField label="PLZ"><input id="zip" style={{ width: '80px' }} /></FormField>);
+    const input = screen.getByLabelText('PLZ');
+    expect(input.id).toBe('zip');
+    expect(input).toHaveStyle({ width: '80px' });
+  });
+
+  it('puts the checkbox before its label', () => {
+    render(<FormField label="Rückruf erwünscht" layout="checkbox" required><input type="checkbox" /></FormField>);
+    const checkbox = screen.getByLabelText(/Rückruf erwünscht/);
+    expect(checkbox).toHaveAttribute('aria-required', 'true');
+    expect(checkbox.nextElementSibling?.tagName).toBe('LABEL');
+    expect(checkbox).not.toHaveStyle({ width: '100%' });
+  });
+});
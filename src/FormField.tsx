@@ -0,0 +1,178 @@
+/**
+ * Syskomp Form Field
+ * Label + input/select/textarea + error message, wired up for screen readers.
+ *
+ * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
+ */
+
+import React, { useId, useMemo } from 'react';
+import { useTheme } from './theme';
+import type { SyskompTheme } from './theme';
+
+export interface FormFieldProps {
+  /** Visible label, linked to the control via htmlFor / id */
+  label: React.ReactNode;
+  /** Shows a red star and sets aria-required */
+  required?: boolean;
+  /** Error message below the control - also sets aria-invalid / aria-describedby */
+  error?: string;
+  /**
+   * "stacked" = label above the control (default), "inline" = label left of it,
+   * "checkbox" = checkbox left of the label, no input styles
+   */
+  layout?: 'stacked' | 'inline' | 'checkbox';
+  /** Flex grow inside a row of fields (stacked / checkbox layout, default: 1) */
+  flex?: number;
+  /** Id of the control - generated if neither this nor the child has one */
+  id?: string;
+  /** A single <input>, <select> or <textarea> */
+  children: React.ReactElement;
+}
+
+const createStyles = ({ colors, radii, typography }: SyskompTheme) => ({
+  stacked: (flex: number) => ({
+    flex,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '2px',
+  }),
+  inline: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+  },
+  labelStacked: {
+    fontSize: typography.fontSizeSmall,
+    color: colors.muted,
+  },
+  labelInline: {
+    minWidth: '110px',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '8px',
+  },
+  checkbox: {
+    marginTop: '3px',
+    accentColor: colors.skTurkis,
+  },
+  requiredStar: {
+    color: colors.errorRed,
+    marginLeft: '2px',
+  },
+  control: {
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
+    fontFamily: 'inherit',
+    fontSize: 'inherit',
+  },
+  controlStacked: {
+    padding: '5px 8px',
+    width: '100%',
+    boxSizing: 'border-box' as const,
+  },
+  controlInline: {
+    flex: 1,
+    padding: '4px 8px',
+  },
+  select: {
+    backgroundColor: colors.background,
+  },
+  controlError: {
+    border: `1px solid ${colors.errorRed}`,
+    backgroundColor: colors.errorBg,
+  },
+  errorText: {
+    fontSize: '11px',
+    color: colors.errorRed,
+  },
+});
+
+/**
+ * Labelled form control in the Syskomp design.
+ * The child control gets id, aria attributes and the input styles injected;
+ * its own `style` is applied on top.
+ *
+ * @example
+ * <FormField label="Vorname" required error={errors.firstName}>
+ *   <input type="text" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+ * </FormField>
+ */
+const FormField: React.FC<FormFieldProps> = ({
+  label,
+  required = false,
+  error,
+  layout = 'stacked',
+  flex = 1,
+  id,
+  children,
+}) => {
+  const theme = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const generatedId = useId();
+  const child = React.Children.only(children);
+  const controlId: string = id || child.props.id || generatedId;
+  const errorId = `${controlId}-error`;
+  const inline = layout === 'inline';
+  const checkbox = layout === 'checkbox';
+
+  const describedBy = [child.props['aria-describedby'], error ? errorId : undefined].filter(Boolean).join(' ');
+
+  const control = React.cloneElement(child, {
+    id: controlId,
+    'aria-required': required || undefined,
+    'aria-invalid': error ? true : undefined,
+    'aria-describedby': describedBy || undefined,
+    style: checkbox ? { ...styles.checkbox, ...child.props.style } : {
+      ...styles.control,
+      ...(inline ? styles.controlInline : styles.controlStacked),
+      ...(child.type === 'select' ? styles.select : {}),
+      ...child.props.style,
+      ...(error ? styles.controlError : {}),
+    },
+  });
+
+  const labelElement = (
+    <label htmlFor={controlId} style={inline ? styles.labelInline : checkbox ? undefined : styles.labelStacked}>
+      {label}
+      {required && <> <span aria-hidden="true" style={styles.requiredStar}>*</span></>}
+    </label>
+  );
+
+  const errorElement = error ? <span id={errorId} style={styles.errorText}>{error}</span> : null;
+
+  if (checkbox) {
+    return (
+      <div style={styles.stacked(flex)}>
+        <div style={styles.checkboxRow}>
+          {control}
+          {labelElement}
+        </div>
+        {errorElement}
+      </div>
+    );
+  }
+
+  if (inline) {
+    return (
+      <div>
+        <div style={styles.inline}>
+          {labelElement}
+          {control}
+        </div>
+        {errorElement}
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.stacked(flex)}>
+      {labelElement}
+      {control}
+      {errorElement}
+    </div>
+  );
+};
+
+export default FormField;
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React, { useState } from 'react';
+import ModalShell from './ModalShell';
+import CallbackPhonePopover from './CallbackPhonePopover';
+import { PrimaryButton, SecondaryButton } from './Buttons';
+
+const SampleDialog: React.FC<{ onClose: () => void; onSend: (phone: string) => void }> = ({ onClose, onSend }) => {
+  const [phone, setPhone] = useState('');
+  return (
+    <ModalShell title="Muster anfordern" onClose={onClose} locale="en" theme={{ colors: { skButton: '#e30613' } }}>
+      <CallbackPhonePopover variant="button" value={phone} onChange={setPhone} />
+      <PrimaryButton onClick={() => onSend(phone)}>Send</PrimaryButton>
+      <SecondaryButton onClick={onClose}>Close</SecondaryButton>
+    </ModalShell>
+  );
+};
+
+describe('ModalShell', () => {
+  it('renders a labelled modal dialog that closes on Escape and overlay click', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    render(<SampleDialog onClose={onClose} onSend={vi.fn()} />);
+
+    const dialog = screen.getByRole('dialog', { name: 'Muster anfordern' });
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+
+    await user.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    await user.click(dialog.parentElement as HTMLElement);
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes theme and locale on to the primitives inside', () => {
+    render(<SampleDialog onClose={vi.fn()} onSend={vi.fn()} />);
+    expect(screen.getByRole('button', { name: 'Send' })).toHaveStyle({ backgroundColor: '#e30613' });
+    expect(screen.getByRole('button', { name: /please call me back/i })).toBeInTheDocument();
+  });
+
+  it('collects a phone number via the callback popover', async () => {
+    const user = userEvent.setup();
+    const onSend = vi.fn();
+    render(<SampleDialog onClose={vi.fn()} onSend={onSend} />);
+
+    await user.click(screen.getByRole('button', { name: /please call me back/i }));
+    await user.type(screen.getByRole('textbox'), '0711 123abc{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(onSend).toHaveBeenCalledWith('+49 711 123');
+  });
+});
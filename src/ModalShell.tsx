@@ -0,0 +1,143 @@
+/**
+ * Syskomp Modal Shell
+ * Overlay + dialog frame shared by all Syskomp modals.
+ *
+ * Handles portal rendering, stacking, body scroll lock, dialog semantics
+ * (focus trap, Escape, focus restore) and theme / locale propagation, so a
+ * new dialog only has to render its content.
+ *
+ * CSS Strategy: Pure inline styles - no dependencies on Tailwind or external CSS
+ */
+
+import React, { useId, useMemo } from 'react';
+import { DialogScope } from './a11y';
+import { SyskompI18nProvider } from './i18n';
+import type { I18nOptions } from './i18n';
+import { ModalPortal, useModalStack, useBodyScrollLock, MODAL_STACK_Z_STEP } from './overlay';
+import type { OverlayOptions } from './overlay';
+import { SyskompThemeProvider, useTheme } from './theme';
+import type { SyskompTheme, SyskompThemeOverrides } from './theme';
+
+export interface ModalShellProps extends I18nOptions, OverlayOptions {
+  /** Dialog title, rendered as <h2> and used as the accessible name */
+  title: React.ReactNode;
+  /** Called on overlay click and Escape (Escape only if this is the topmost modal) */
+  onClose: () => void;
+  /** Theme overrides - also applied to all primitives inside the shell */
+  theme?: SyskompThemeOverrides;
+  /** Maximum dialog width (default: "600px") */
+  maxWidth?: string;
+  /** Base font size (default: theme typography.fontSize) */
+  fontSize?: string;
+  /** Extra styles for the <h2> title */
+  titleStyle?: React.CSSProperties;
+  /** Element to focus on open - defaults to the first focusable element */
+  initialFocusRef?: React.RefObject<HTMLElement>;
+  /** id of an element describing the dialog (aria-describedby) */
+  'aria-describedby'?: string;
+  children?: React.ReactNode;
+}
+
+const NO_OVERRIDES: SyskompThemeOverrides = {};
+
+const createStyles = ({ colors, radii, typography, zIndex }: SyskompTheme) => ({
+  overlay: {
+    position: 'fixed' as const,
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: colors.overlay,
+    zIndex: zIndex.overlay,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: '2px',
+  },
+  modal: {
+    backgroundColor: colors.background,
+    padding: '20px',
+    borderRadius: radii.lg,
+    width: '100%',
+    boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
+    maxHeight: '90vh',
+    overflowY: 'auto' as const,
+    fontFamily: typography.fontFamily,
+    lineHeight: '1.4',
+    color: colors.text,
+  },
+  title: {
+    fontSize: typography.fontSizeTitle,
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const,
+    marginBottom: '12px',
+    marginTop: '0',
+    color: colors.title,
+  },
+});
+
+/**
+ * Modal frame in the Syskomp design.
+ *
+ * @example
+ * <ModalShell title="Muster anfordern" onClose={close}>
+ *   <FormField label="Firma" required><input /></FormField>
+ *   <PrimaryButton onClick={send}>Senden</PrimaryButton>
+ * </ModalShell>
+ */
+const ModalShell: React.FC<ModalShellProps> = ({
+  title,
+  onClose,
+  theme: themeOverrides,
+  maxWidth = '600px',
+  fontSize,
+  titleStyle,
+  initialFocusRef,
+  container,
+  disablePortal,
+  lockScroll = true,
+  locale,
+  bodyLocale,
+  messages,
+  bodyMessages,
+  'aria-describedby': describedBy,
+  children,
+}) => {
+  const theme = useTheme(themeOverrides);
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const titleId = useId();
+
+  // Modals opened on top of another get a higher z-index,
+  // and only the topmost one closes on Escape
+  const { depth, isTopmost } = useModalStack();
+  useBodyScrollLock(lockScroll);
+  const handleEscape = () => { if (isTopmost()) onClose(); };
+
+  return (
+    <ModalPortal container={container} disablePortal={disablePortal}>
+      <div
+        style={{ ...styles.overlay, zIndex: theme.zIndex.overlay + depth * MODAL_STACK_Z_STEP }}
+        onClick={onClose}
+      >
+        <DialogScope
+          modal
+          aria-labelledby={titleId}
+          aria-describedby={describedBy}
+          onClose={handleEscape}
+          initialFocusRef={initialFocusRef}
+          style={{ ...styles.modal, maxWidth, fontSize: fontSize || theme.typography.fontSize }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h2 id={titleId} style={{ ...styles.title, ...titleStyle }}>{title}</h2>
+          <SyskompThemeProvider theme={themeOverrides || NO_OVERRIDES}>
+            <SyskompI18nProvider locale={locale} bodyLocale={bodyLocale} messages={messages} bodyMessages={bodyMessages}>
+              {children}
+            </SyskompI18nProvider>
+          </SyskompThemeProvider>
+        </DialogScope>
+      </div>
+    </ModalPortal>
+  );
+};
+
+export default ModalShell;
@@ -3,7 +3,10 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import React from 'react';
 import QuoteModal from './QuoteModal';
-import type { QuoteDisplayItem } from './QuoteModal';
+import type { QuoteDisplayItem, QuoteModalProps } from './QuoteModal';
+import { SyskompThemeProvider } from './theme';
+import { DEFAULT_QUOTE_FIELDS } from './quoteFields';
+import { createQuoteOutbox } from './outbox';
 
 const sampleItems: QuoteDisplayItem[] = [
   { description: 'Rollenförderer SKR-50', quantity: 2, unitPrice: 450.0 },
@@ -21,18 +24,18 @@ const defaultProps = {
 const fillForm = async (user: ReturnType<typeof userEvent.setup>, container: HTMLElement) => {
   // Query all inputs by type for reliable selection
   const allInputs = container.querySelectorAll('input');
-  // Order in DOM: firstName(text), lastName(text), department(text), company(text), street(text),
-  // houseNumber(text), zip(text), city(text), email(email)
-  // Note: phone is now behind a callback-request button/dialog
+  // Order in DOM: firstName(text), lastName(text), department(text), company(text), vatId(text),
+  // street(text), houseNumber(text), zip(text), city(text), email(email)
+  // Note: phone is now behind a callback-request button/dialog; vatId is optional and stays empty
   const fieldValues: Record<string, string> = {
     'text-0': 'Max',         // firstName
     'text-1': 'Mustermann',  // lastName
     'text-2': 'Einkauf',     // department
     'text-3': 'Test GmbH',   // company
-    'text-4': 'Musterstr',   // street
-    'text-5': '42',          // houseNumber
-    'text-6': '12345',       // zip
-    'text-7': 'Berlin',      // city
+    'text-5': 'Musterstr',   // street
+    'text-6': '42',          // houseNumber
+    'text-7': '12345',       // zip
+    'text-8': 'Berlin',      // city
   };
 
   let textIdx = 0;
@@ -91,6 +94,165 @@ describe('QuoteModal', () => {
     expect(screen.getByText('Gesamt (netto):')).toBeInTheDocument();
   });
 
+  it('shows line totals, discount, VAT and the gross total', () => {
+    render(<QuoteModal {...defaultProps} discountPercent={10} vatRate={19} />);
+    expect(screen.getByText('900,00 EUR')).toBeInTheDocument();
+    expect(screen.getByText('Zwischensumme (netto):')).toBeInTheDocument();
+    expect(screen.getByText('-127,00 EUR')).toBeInTheDocument();
+    expect(screen.getByText('1.143,00 EUR')).toBeInTheDocument();
+    expect(screen.getByText('217,17 EUR')).toBeInTheDocument();
+    expect(screen.getByText('Gesamt (brutto):')).toBeInTheDocument();
+    expect(screen.getByText('1.360,17 EUR')).toBeInTheDocument();
+  });
+
+  describe('editable items', () => {
+    it('changes quantities with the stepper and recalculates the totals', async () => {
+      const user = userEvent.setup();
+      const onItemsChange = vi.fn();
+      render(<QuoteModal {...defaultProps} editableItems onItemsChange={onItemsChange} />);
+      expect(screen.getByText('1.270,00 EUR')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Rollenförderer SKR-50: Menge erhöhen' }));
+      expect(screen.getByRole('spinbutton', { name: 'Menge Rollenförderer SKR-50' })).toHaveValue(3);
+      expect(screen.getByText('1.350,00 EUR')).toBeInTheDocument();
+      expect(onItemsChange).toHaveBeenLastCalledWith([{ ...sampleItems[0], quantity: 3 }, sampleItems[1], sampleItems[2]]);
+
+      const kurvenroller = screen.getByRole('spinbutton', { name: 'Menge Kurvenroller SKRK-30' });
+      expect(screen.getByRole('button', { name: 'Kurvenroller SKRK-30: Menge verringern' })).toBeDisabled();
+      await user.clear(kurvenroller);
+      await user.type(kurvenroller, '4');
+      expect(kurvenroller).toHaveValue(4);
+      expect(screen.getByText('2.680,00 EUR')).toBeInTheDocument();
+    });
+
+    it('removes items and passes the edited list to onSubmit', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} editableItems onSubmit={onSubmit} />);
+
+      await user.click(screen.getByRole('button', { name: 'Anschlagpuffer entfernen' }));
+      expect(screen.queryByText('Anschlagpuffer')).not.toBeInTheDocument();
+      expect(screen.getByText('Artikel (2)')).toBeInTheDocument();
+      expect(screen.getByText('1.220,00 EUR')).toBeInTheDocument();
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledTimes(1);
+      });
+      expect(onSubmit.mock.calls[0][1].items).toEqual(sampleItems.slice(0, 2));
+    });
+
+    it('shows a note when all items are removed', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} items={sampleItems.slice(0, 1)} editableItems />);
+      await user.click(screen.getByRole('button', { name: 'Rollenförderer SKR-50 entfernen' }));
+      expect(screen.getByText('Keine Artikel ausgewählt.')).toBeInTheDocument();
+      expect(screen.queryByText('Gesamt (netto):')).not.toBeInTheDocument();
+    });
+
+    it('is read-only by default', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.queryByRole('spinbutton')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /entfernen/ })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('assemblies', () => {
+    const assemblies: QuoteDisplayItem[] = [
+      {
+        description: 'Rollenförderer 3 m',
+        quantity: 2,
+        children: [
+          { description: 'Rahmen', quantity: 1, unitPrice: 300 },
+          { description: 'Tragrolle', quantity: 20, unitPrice: 8.5 },
+        ],
+      },
+      { description: 'Anschlagpuffer', quantity: 4, unitPrice: 12.5 },
+    ];
+
+    it('shows parts with total quantities and the subtotal per assembly', () => {
+      render(<QuoteModal {...defaultProps} items={assemblies} />);
+      const assembly = screen.getByRole('button', { name: /Rollenförderer 3 m/ });
+      expect(assembly.closest('tr')).toHaveTextContent('940,00 EUR');
+      expect(screen.getByText('Tragrolle').closest('tr')).toHaveTextContent('40x');
+      expect(screen.getByText('990,00 EUR')).toBeInTheDocument();
+    });
+
+    it('collapses and expands an assembly', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} items={assemblies} />);
+      const assembly = screen.getByRole('button', { name: /Rollenförderer 3 m/ });
+      expect(assembly).toHaveAttribute('aria-expanded', 'true');
+
+      await user.click(assembly);
+      expect(assembly).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByText('Rahmen')).not.toBeInTheDocument();
+      expect(screen.getByText('990,00 EUR')).toBeInTheDocument();
+
+      await user.click(assembly);
+      expect(screen.getByText('Rahmen')).toBeInTheDocument();
+    });
+
+    it('multiplies the parts when the assembly quantity changes and submits the nested list', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} items={assemblies} editableItems onSubmit={onSubmit} />);
+      expect(screen.getAllByRole('spinbutton')).toHaveLength(2);
+
+      await user.click(screen.getByRole('button', { name: 'Rollenförderer 3 m: Menge erhöhen' }));
+      expect(screen.getByText('Tragrolle').closest('tr')).toHaveTextContent('60x');
+      expect(screen.getByText('1.460,00 EUR')).toBeInTheDocument();
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledTimes(1);
+      });
+      const context = onSubmit.mock.calls[0][1];
+      expect(context.items[0]).toEqual({ ...assemblies[0], quantity: 3 });
+      expect(context.prices.items[0].children[1]).toMatchObject({ description: 'Tragrolle', totalQuantity: 60, lineTotal: 510 });
+    });
+  });
+
+  describe('attachments', () => {
+    it('has no attachment area by default', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.queryByText('Anhänge')).not.toBeInTheDocument();
+    });
+
+    it('checks the limits and passes the files to onSubmit', async () => {
+      vi.stubGlobal('URL', { createObjectURL: vi.fn(() => 'blob:skizze'), revokeObjectURL: vi.fn() });
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(
+        <QuoteModal {...defaultProps} onSubmit={onSubmit} attachments={{ accept: ['.step', 'image/*'], maxFileSize: 10 }} />
+      );
+      const dropzone = screen.getByRole('group', { name: 'Anhänge' });
+      const sketch = new File(['skizze'], 'skizze.png', { type: 'image/png' });
+      const model = new File(['step'], 'halle.step');
+      fireEvent.drop(dropzone, {
+        dataTransfer: { files: [sketch, new File(['dwg'], 'plan.dwg'), new File(['x'.repeat(20)], 'gross.step'), model] },
+      });
+      expect(screen.getByText('skizze.png')).toBeInTheDocument();
+      expect(screen.getByRole('alert')).toHaveTextContent('plan.dwg: Dieser Dateityp ist nicht erlaubt.');
+      expect(screen.getByRole('alert')).toHaveTextContent('gross.step: Die Datei ist größer als 10 B.');
+
+      await user.click(screen.getByRole('button', { name: 'skizze.png entfernen' }));
+      expect(screen.queryByText('skizze.png')).not.toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledTimes(1);
+      });
+      expect(onSubmit.mock.calls[0][1].attachments).toEqual([model]);
+
+      vi.unstubAllGlobals();
+    });
+  });
+
   it('hides prices when showPrices is false', () => {
     render(<QuoteModal {...defaultProps} showPrices={false} />);
     expect(screen.queryByText('Gesamt (netto):')).not.toBeInTheDocument();
@@ -138,8 +300,9 @@ describe('QuoteModal', () => {
 
   it('calls onClose when overlay is clicked', () => {
     const onClose = vi.fn();
-    const { container } = render(<QuoteModal {...defaultProps} onClose={onClose} />);
-    fireEvent.click(container.firstChild as HTMLElement);
+    render(<QuoteModal {...defaultProps} onClose={onClose} />);
+    // The overlay is the dialog's parent (rendered into a portal on document.body)
+    fireEvent.click(screen.getByRole('dialog').parentElement as HTMLElement);
     expect(onClose).toHaveBeenCalledTimes(1);
   });
 
@@ -161,9 +324,9 @@ describe('QuoteModal', () => {
     it('prevents submit with invalid email format', async () => {
       const user = userEvent.setup();
       const onSubmit = vi.fn();
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      const allInputs = container.querySelectorAll('input');
+      const allInputs = baseElement.querySelectorAll('input');
       let textIdx = 0;
       const textValues = ['Max', 'Mustermann', 'Test GmbH', 'Musterstr', '42', '12345', 'Berlin', 'Einkauf'];
       for (const input of allInputs) {
@@ -177,6 +340,85 @@ describe('QuoteModal', () => {
       await user.click(getSubmitButton());
       expect(onSubmit).not.toHaveBeenCalled();
     });
+
+    it('explains the expected postal code format of the selected country', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn();
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+
+      await fillForm(user, baseElement);
+      await user.selectOptions(screen.getByLabelText(/^Land/), 'NL');
+      await user.click(getSubmitButton());
+
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByLabelText(/^PLZ/)).toHaveAccessibleDescription('Ungültige PLZ – erwartetes Format: 1234 AB');
+      expect(screen.getByLabelText(/^PLZ/)).toHaveFocus();
+    });
+
+    it('submits the normalized postal code and country-ordered address lines', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} postalCodeLookup={false} />);
+
+      await fillForm(user, baseElement);
+      await user.selectOptions(screen.getByLabelText(/^Land/), 'PL');
+      await user.clear(screen.getByLabelText(/^PLZ/));
+      await user.type(screen.getByLabelText(/^PLZ/), '00950');
+      await user.click(getSubmitButton());
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][0].zip).toBe('00-950');
+      expect(onSubmit.mock.calls[0][1].addressLines).toEqual(['Musterstr 42', '00-950 Berlin', 'PL']);
+    });
+
+    it('accepts an empty VAT ID unless the host requires it', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} vatIdRequired />);
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByLabelText(/^USt-IdNr/)).toHaveAccessibleDescription('Bitte füllen Sie dieses Feld aus.');
+      expect(screen.getByLabelText(/^USt-IdNr/)).toHaveFocus();
+    });
+
+    it('checks the VAT ID format, check digit and country', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn();
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const vatId = screen.getByLabelText(/^USt-IdNr/);
+
+      await fillForm(user, baseElement);
+      await user.type(vatId, 'DE12345');
+      await user.click(getSubmitButton());
+      expect(vatId).toHaveAccessibleDescription('Ungültige USt-IdNr. – erwartetes Format: DE123456788');
+
+      await user.clear(vatId);
+      await user.type(vatId, 'DE123456789');
+      await user.click(getSubmitButton());
+      expect(vatId).toHaveAccessibleDescription('USt-IdNr. ungültig – Prüfziffer stimmt nicht');
+
+      await user.clear(vatId);
+      await user.type(vatId, 'ATU12345675');
+      await user.click(getSubmitButton());
+      expect(vatId).toHaveAccessibleDescription('USt-IdNr. passt nicht zum Land DE');
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('submits the normalized VAT ID', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+
+      await fillForm(user, baseElement);
+      await user.type(screen.getByLabelText(/^USt-IdNr/), 'de 123.456.788');
+      await user.click(getSubmitButton());
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][0].vatId).toBe('DE123456788');
+    });
   });
 
   describe('submit flow', () => {
@@ -186,9 +428,9 @@ describe('QuoteModal', () => {
       const onSubmit = vi.fn().mockReturnValue(
         new Promise((resolve) => { resolveSubmit = resolve; })
       );
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       expect(screen.getByText('Wird gesendet...')).toBeInTheDocument();
@@ -202,9 +444,9 @@ describe('QuoteModal', () => {
     it('calls onSubmit with correct contact data', async () => {
       const user = userEvent.setup();
       const onSubmit = vi.fn().mockResolvedValue({ success: true });
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       await waitFor(() => {
@@ -222,20 +464,60 @@ describe('QuoteModal', () => {
       expect(contact.city).toBe('Berlin');
       expect(contact.country).toBe('DE');
       expect(contact.department).toBe('Einkauf');
-      expect(contact.phone).toBe('0301234567');
+      expect(contact.phone).toBe('+49 301234567');
+      expect(contact.phoneE164).toBe('+49301234567');
       expect(contact.note).toContain('[hat um Rückruf gebeten]');
       expect(contact.email).toBe('max@test.de');
     });
 
+    it('passes the calculated prices to onSubmit', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(
+        <QuoteModal {...defaultProps} onSubmit={onSubmit} currency="CHF" discountPercent={10} vatRate={8.1} />
+      );
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledTimes(1);
+      });
+      expect(onSubmit.mock.calls[0][1].prices).toMatchObject({
+        currency: 'CHF', subtotal: 1270, discount: 127, net: 1143, vatRate: 8.1, vat: 92.58, gross: 1235.58,
+      });
+      expect(onSubmit.mock.calls[0][1].prices.items[0].lineTotal).toBe(900);
+    });
+
+    it('shows the inquiry number and passes it to onSubmit', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(
+        <QuoteModal {...defaultProps} onSubmit={onSubmit} inquiryNumberOptions={{ prefix: 'KLT-' }} />
+      );
+
+      const shown = screen.getByText(/^Anfrage-Nr\. #KLT-\d{8}-\d{6}-\w{4}$/).textContent!;
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][1].inquiryNumber).toBe(shown.replace('Anfrage-Nr. #', ''));
+    });
+
+    it('uses a fixed inquiry number from the host', () => {
+      render(<QuoteModal {...defaultProps} inquiryNumber="RF-4711" />);
+      expect(screen.getByText('Anfrage-Nr. #RF-4711')).toBeInTheDocument();
+    });
+
     it('shows success message after successful submit', async () => {
       const user = userEvent.setup();
       const onSubmit = vi.fn().mockResolvedValue({
         success: true,
         message: 'Angebot wurde erstellt!',
       });
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       await waitFor(() => {
@@ -246,9 +528,9 @@ describe('QuoteModal', () => {
     it('hides form after successful submit', async () => {
       const user = userEvent.setup();
       const onSubmit = vi.fn().mockResolvedValue({ success: true });
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       await waitFor(() => {
@@ -262,9 +544,9 @@ describe('QuoteModal', () => {
         success: false,
         message: 'Server nicht erreichbar',
       });
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       await waitFor(() => {
@@ -276,15 +558,224 @@ describe('QuoteModal', () => {
     it('shows error message when onSubmit throws', async () => {
       const user = userEvent.setup();
       const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'));
-      const { container } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} />);
 
-      await fillForm(user, container);
+      await fillForm(user, baseElement);
       await user.click(getSubmitButton());
 
       await waitFor(() => {
         expect(screen.getByText('Ein unerwarteter Fehler ist aufgetreten.')).toBeInTheDocument();
       });
     });
+
+    it('aborts sending with the cancel button and on close', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn<QuoteModalProps['onSubmit']>(() => new Promise(() => {}));
+      const onClose = vi.fn();
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} onClose={onClose} />);
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+      expect(screen.getByText('Wird gesendet...')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Abbrechen' }));
+      expect(onSubmit.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(screen.queryByText('Wird gesendet...')).not.toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(onClose).not.toHaveBeenCalled();
+
+      await user.click(getSubmitButton());
+      // Overlay click
+      await user.click(screen.getByRole('dialog').parentElement!);
+      expect(onSubmit.mock.calls[1][1].signal.aborted).toBe(true);
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues the request in the outbox when onSubmit throws', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'));
+      const outbox = createQuoteOutbox({ send: vi.fn().mockResolvedValue({ success: true }), retryDelay: 60_000 });
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} outbox={outbox} />);
+
+      await fillForm(user, baseElement);
+      await user.click(getSubmitButton());
+
+      expect(
+        await screen.findByText('Keine Verbindung zum Server. Ihre Anfrage wurde gespeichert und wird nachgesendet.')
+      ).toHaveAttribute('role', 'status');
+      expect(screen.queryByText('Kontaktdaten')).not.toBeInTheDocument();
+      expect(outbox.getEntries()).toEqual([
+        expect.objectContaining({ status: 'pending', request: onSubmit.mock.calls[0][1].request }),
+      ]);
+      outbox.dispose();
+      localStorage.clear();
+    });
+  });
+
+  describe('accessibility', () => {
+    it('renders a labelled modal dialog', () => {
+      render(<QuoteModal {...defaultProps} />);
+      const dialog = screen.getByRole('dialog', { name: 'Angebot anfordern' });
+      expect(dialog).toHaveAttribute('aria-modal', 'true');
+    });
+
+    it('links labels to their inputs', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.getByLabelText(/Vorname/)).toHaveAttribute('type', 'text');
+      expect(screen.getByLabelText(/E-Mail/)).toHaveAttribute('type', 'email');
+      expect(screen.getByLabelText(/Land/).tagName).toBe('SELECT');
+      expect(screen.getByLabelText(/Vorname/)).toHaveAttribute('aria-required', 'true');
+      expect(screen.getByLabelText(/Abteilung/)).not.toHaveAttribute('aria-required');
+    });
+
+    it('moves focus into the dialog on open', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.getByLabelText(/Anrede/)).toHaveFocus();
+    });
+
+    it('closes on Escape', async () => {
+      const user = userEvent.setup();
+      const onClose = vi.fn();
+      render(<QuoteModal {...defaultProps} onClose={onClose} />);
+      await user.keyboard('{Escape}');
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps Tab focus inside the dialog', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} />);
+      await user.tab({ shift: true });
+      expect(screen.getByRole('button', { name: 'Excel exportieren' })).toHaveFocus();
+      await user.tab();
+      expect(screen.getByLabelText(/Anrede/)).toHaveFocus();
+    });
+
+    it('restores focus to the trigger on close', async () => {
+      const user = userEvent.setup();
+      const Host = () => {
+        const [open, setOpen] = React.useState(false);
+        return (
+          <>
+            <button onClick={() => setOpen(true)}>Öffnen</button>
+            {open && <QuoteModal {...defaultProps} onClose={() => setOpen(false)} />}
+          </>
+        );
+      };
+      render(<Host />);
+      await user.click(screen.getByText('Öffnen'));
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
+      await user.keyboard('{Escape}');
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      expect(screen.getByText('Öffnen')).toHaveFocus();
+    });
+
+    it('operates the callback popover with the keyboard only', async () => {
+      const user = userEvent.setup();
+      const onClose = vi.fn();
+      render(<QuoteModal {...defaultProps} onClose={onClose} />);
+
+      const trigger = screen.getByRole('button', { name: 'Ich bitte um telefonischen Rückruf' });
+      trigger.focus();
+      await user.keyboard('{Enter}');
+      const popover = screen.getByRole('dialog', { name: 'Telefonischen Rückruf anfordern' });
+      expect(popover).toBeInTheDocument();
+      expect(screen.getByRole('textbox', { name: 'Telefonischen Rückruf anfordern' })).toHaveFocus();
+
+      // Escape closes only the popover and returns focus to its trigger
+      await user.keyboard('{Escape}');
+      expect(onClose).not.toHaveBeenCalled();
+      expect(screen.queryByRole('dialog', { name: 'Telefonischen Rückruf anfordern' })).not.toBeInTheDocument();
+      expect(trigger).toHaveFocus();
+
+      // Enter in the phone input applies the number
+      await user.keyboard('{Enter}');
+      await user.keyboard('0301234567{Enter}');
+      const phoneButton = screen.getByRole('button', { name: 'Rückruf: +49 301234567' });
+      expect(phoneButton).toHaveFocus();
+
+      await user.click(screen.getByRole('button', { name: 'Telefonnummer entfernen' }));
+      expect(screen.getByRole('button', { name: 'Ich bitte um telefonischen Rückruf' })).toHaveFocus();
+    });
+
+    it('announces field errors and focuses the first invalid field', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} />);
+      await user.click(getSubmitButton());
+
+      const firstName = screen.getByLabelText(/Vorname/);
+      expect(firstName).toHaveFocus();
+      expect(firstName).toHaveAttribute('aria-invalid', 'true');
+      expect(firstName).toHaveAccessibleDescription('Bitte füllen Sie dieses Feld aus.');
+      expect(screen.getByText('Bitte prüfen Sie die markierten Felder (8).')).toBeInTheDocument();
+
+      await user.type(firstName, 'Max');
+      expect(firstName).not.toHaveAttribute('aria-invalid');
+    });
+
+    it('explains an invalid email address', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} />);
+      await user.type(screen.getByLabelText(/E-Mail/), 'not-valid');
+      await user.click(getSubmitButton());
+      expect(screen.getByLabelText(/E-Mail/)).toHaveAccessibleDescription('Bitte geben Sie eine gültige E-Mail-Adresse ein.');
+    });
+  });
+
+  describe('theme', () => {
+    it('uses the Syskomp colors by default', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.getByText(/Ihr Angebot/).closest('button')).toHaveStyle({ backgroundColor: '#00b51a' });
+    });
+
+    it('applies theme overrides from prop and provider', () => {
+      render(
+        <SyskompThemeProvider theme={{ typography: { fontSize: '17px' } }}>
+          <QuoteModal {...defaultProps} theme={{ colors: { skButton: '#ff6600' } }} />
+        </SyskompThemeProvider>
+      );
+      expect(screen.getByText(/Ihr Angebot/).closest('button')).toHaveStyle({ backgroundColor: '#ff6600' });
+      expect(screen.getByRole('heading', { level: 2 }).parentElement).toHaveStyle({ fontSize: '17px' });
+    });
+  });
+
+  describe('locale', () => {
+    it('renders English labels with locale="en"', () => {
+      render(<QuoteModal {...defaultProps} locale="en" />);
+      expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('Request a quote');
+      expect(screen.getByText('Items (3)')).toBeInTheDocument();
+      expect(screen.getByText('Total (net):')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('Mr')).toBeInTheDocument();
+    });
+
+    it('overrides single strings via messages', () => {
+      render(<QuoteModal {...defaultProps} messages={{ close: 'Zurück' }} />);
+      expect(screen.getByText('Zurück')).toBeInTheDocument();
+    });
+
+    it('keeps German salutation values and callback marker for sales', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} locale="en" onSubmit={onSubmit} />);
+
+      await user.click(screen.getByText('Please call me back'));
+      await user.type(baseElement.querySelector('input[type="tel"]') as HTMLInputElement, '0301234567');
+      await user.click(screen.getByText('Apply'));
+
+      const textInputs = Array.from(baseElement.querySelectorAll('input[type="text"]'));
+      const values = ['Łukasz', 'Nowak', '', 'Test Sp. z o.o.', '', 'Długa', '5', '12345', 'Kraków'];
+      for (let i = 0; i < values.length; i++) {
+        if (values[i]) await user.type(textInputs[i] as HTMLInputElement, values[i]);
+      }
+      await user.type(baseElement.querySelector('input[type="email"]') as HTMLInputElement, 'l@test.pl');
+      await user.click(screen.getByText(/Your quote/));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      const contact = onSubmit.mock.calls[0][0];
+      expect(contact.salutation).toBe('Herr');
+      expect(contact.firstName).toBe('Łukasz');
+      expect(contact.city).toBe('Kraków');
+      expect(contact.note).toContain('[hat um Rückruf gebeten]');
+    });
   });
 
   describe('items without prices', () => {
@@ -305,5 +796,211 @@ describe('QuoteModal', () => {
       expect(screen.getByText('auf Anfrage')).toBeInTheDocument();
       expect(screen.getByText('Gesamt (netto):')).toBeInTheDocument();
     });
+
+    it('offers a print view', () => {
+      render(<QuoteModal {...defaultProps} />);
+      expect(screen.getByRole('button', { name: 'Drucken / als PDF speichern' })).toBeInTheDocument();
+    });
+
+    it('exports the items as CSV and Excel file', async () => {
+      const user = userEvent.setup();
+      const createObjectURL = vi.fn().mockReturnValue('blob:items');
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+      const downloads: string[] = [];
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push(this.download);
+      });
+      render(<QuoteModal {...defaultProps} inquiryNumber="20260101-120000-ABCD" />);
+
+      await user.click(screen.getByRole('button', { name: 'CSV exportieren' }));
+      await user.click(screen.getByRole('button', { name: 'Excel exportieren' }));
+      expect(downloads).toEqual(['20260101-120000-ABCD.csv', '20260101-120000-ABCD.xlsx']);
+      expect(createObjectURL.mock.calls[1][0].type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      click.mockRestore();
+      vi.unstubAllGlobals();
+    });
+
+    it('shows article numbers and units', () => {
+      const items: QuoteDisplayItem[] = [
+        { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 2, unit: 'Stk', unitPrice: 450 },
+        { description: 'Montage', quantity: 1 },
+      ];
+      render(<QuoteModal {...defaultProps} items={items} />);
+      expect(screen.getByText('SKR-50')).toBeInTheDocument();
+      expect(screen.getByText('2 Stk')).toBeInTheDocument();
+      expect(screen.getByText('1x')).toBeInTheDocument();
+    });
+  });
+
+  describe('field configuration', () => {
+    it('lets the host change required flags', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const fields = DEFAULT_QUOTE_FIELDS.map((field) =>
+        field.name === 'department' ? { ...field, required: true }
+          : field.name === 'street' ? { ...field, required: false }
+            : field
+      );
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} fields={fields} />);
+
+      await fillForm(user, baseElement);
+      await user.clear(screen.getByLabelText(/^Abteilung/));
+      await user.clear(screen.getByLabelText(/^Straße/));
+      await user.click(getSubmitButton());
+
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByLabelText(/^Abteilung/)).toHaveFocus();
+      expect(screen.getByLabelText(/^Straße/)).not.toHaveAttribute('aria-invalid');
+
+      await user.type(screen.getByLabelText(/^Abteilung/), 'Einkauf');
+      await user.click(getSubmitButton());
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][0].street).toBe('');
+    });
+
+    it('reorders, hides and relabels built-in fields', () => {
+      const { baseElement } = render(
+        <QuoteModal {...defaultProps} fields={['email', { name: 'company', label: 'Unternehmen' }, 'lastName']} />
+      );
+      const labels = Array.from(baseElement.querySelectorAll('label')).map((label) => label.textContent);
+      expect(labels).toEqual(['E-Mail *', 'Unternehmen *', 'Nachname *']);
+      expect(screen.queryByLabelText(/^Vorname/)).not.toBeInTheDocument();
+    });
+
+    it('validates custom fields and returns their values', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      render(
+        <QuoteModal
+          {...defaultProps}
+          onSubmit={onSubmit}
+          fields={[
+            'email',
+            { name: 'project', label: 'Projektname', type: 'text', required: true },
+            { name: 'industry', label: 'Branche', type: 'select', options: ['Automotive', 'Logistik'] },
+            { name: 'deadline', label: 'Liefertermin', type: 'date' },
+            { name: 'terms', label: 'AGB akzeptiert', type: 'checkbox', required: true },
+          ]}
+        />
+      );
+
+      await user.type(screen.getByLabelText(/^E-Mail/), 'max@test.de');
+      await user.click(getSubmitButton());
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByLabelText(/^Projektname/)).toHaveFocus();
+      expect(screen.getByLabelText(/^Projektname/)).toHaveAccessibleDescription('Bitte füllen Sie dieses Feld aus.');
+      expect(screen.getByLabelText(/^AGB akzeptiert/)).toHaveAccessibleDescription('Bitte bestätigen Sie dieses Feld.');
+
+      await user.type(screen.getByLabelText(/^Projektname/), 'Halle 3');
+      await user.selectOptions(screen.getByLabelText(/^Branche/), 'Logistik');
+      await user.type(screen.getByLabelText(/^Liefertermin/), '2026-11-30');
+      await user.click(screen.getByLabelText(/^AGB akzeptiert/));
+      await user.click(getSubmitButton());
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][1].customFields).toEqual({
+        project: 'Halle 3',
+        industry: 'Logistik',
+        deadline: '2026-11-30',
+        terms: true,
+      });
+    });
+
+    it('runs the custom validator on filled-in values', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn();
+      render(
+        <QuoteModal
+          {...defaultProps}
+          onSubmit={onSubmit}
+          fields={[{
+            name: 'order',
+            label: 'Bestellnummer',
+            type: 'text',
+            validate: (value) => (/^\d{6}$/.test(String(value)) ? undefined : 'Sechs Ziffern'),
+          }]}
+        />
+      );
+
+      await user.type(screen.getByLabelText(/^Bestellnummer/), '123');
+      await user.click(getSubmitButton());
+      expect(onSubmit).not.toHaveBeenCalled();
+      expect(screen.getByLabelText(/^Bestellnummer/)).toHaveAccessibleDescription('Sechs Ziffern');
+    });
+  });
+
+  describe('postal code lookup', () => {
+    it('fills the city from the bundled offline dataset', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} />);
+      await user.type(screen.getByLabelText(/^PLZ/), '80331');
+      await waitFor(() => expect(screen.getByLabelText(/^Stadt/)).toHaveValue('München'));
+    });
+
+    it('does not overwrite a city typed by the user', async () => {
+      const user = userEvent.setup();
+      const postalCodeLookup = vi.fn().mockResolvedValue(['München']);
+      render(<QuoteModal {...defaultProps} postalCodeLookup={postalCodeLookup} />);
+      await user.type(screen.getByLabelText(/^Stadt/), 'Garching');
+      await user.type(screen.getByLabelText(/^PLZ/), '80331');
+      await waitFor(() => expect(postalCodeLookup).toHaveBeenCalled());
+      expect(screen.getByLabelText(/^Stadt/)).toHaveValue('Garching');
+    });
+
+    it('offers a picker when several places share the code', async () => {
+      const user = userEvent.setup();
+      const postalCodeLookup = vi.fn().mockResolvedValue(['Nordheim', 'Südheim']);
+      render(<QuoteModal {...defaultProps} postalCodeLookup={postalCodeLookup} />);
+      await user.type(screen.getByLabelText(/^PLZ/), '99999');
+
+      const picker = await screen.findByLabelText('Mehrere Orte zu dieser PLZ');
+      expect(screen.getByLabelText(/^Stadt/)).toHaveValue('');
+      await user.selectOptions(picker, 'Südheim');
+      expect(screen.getByLabelText(/^Stadt/)).toHaveValue('Südheim');
+    });
+
+    it('can be turned off', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} postalCodeLookup={false} />);
+      await user.type(screen.getByLabelText(/^PLZ/), '80331');
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(screen.getByLabelText(/^Stadt/)).toHaveValue('');
+    });
+  });
+
+  describe('callback phone', () => {
+    it('preselects the country code from the address country', async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi.fn().mockResolvedValue({ success: true });
+      const { baseElement } = render(<QuoteModal {...defaultProps} onSubmit={onSubmit} postalCodeLookup={false} />);
+
+      await fillForm(user, baseElement);
+      await user.selectOptions(screen.getByLabelText(/^Land/), 'CH');
+      await user.clear(screen.getByLabelText(/^PLZ/));
+      await user.type(screen.getByLabelText(/^PLZ/), '8001');
+
+      await user.click(screen.getByRole('button', { name: 'Telefonnummer entfernen' }));
+      await user.click(screen.getByText('Ich bitte um telefonischen Rückruf'));
+      expect(screen.getByLabelText('Ländervorwahl')).toHaveValue('CH');
+      await user.keyboard('079 123 45 67{Enter}');
+      expect(screen.getByRole('button', { name: 'Rückruf: +41 79 123 45 67' })).toBeInTheDocument();
+      await user.click(getSubmitButton());
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+      expect(onSubmit.mock.calls[0][0].phone).toBe('+41 79 123 45 67');
+      expect(onSubmit.mock.calls[0][0].phoneE164).toBe('+41791234567');
+    });
+
+    it('rejects numbers with an implausible length', async () => {
+      const user = userEvent.setup();
+      render(<QuoteModal {...defaultProps} />);
+
+      await user.selectOptions(screen.getByLabelText(/^Land/), 'CH');
+      await user.click(screen.getByText('Ich bitte um telefonischen Rückruf'));
+      await user.keyboard('079 123{Enter}');
+
+      expect(screen.getByRole('alert')).toHaveTextContent('die Länge passt nicht zu +41');
+      expect(screen.getByRole('textbox', { name: 'Telefonischen Rückruf anfordern' })).toHaveFocus();
+    });
   });
 });
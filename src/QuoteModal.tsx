@@ -6,175 +6,145 @@
  * Font/style independent from host application (same approach as EmailModal)
  */
 
-import React, { useState, useEffect } from 'react';
-
-// Color constants - Syskomp design system
-const COLORS = {
-  skTurkis: '#17a6b0',
-  skButton: '#00b51a',
-  skButtonHover: '#009914',
-  skBlau: '#215674',
-  skGrau: '#575d5e',
-  skTurkisLight: 'rgba(23, 166, 176, 0.1)',
-  skTurkisBorder: '#17a6b0',
-  errorRed: '#dc2626',
-  errorBg: '#fef2f2',
-  successGreen: '#16a34a',
-  successBg: '#f0fdf4',
-};
+import React, { useMemo, useId, useState } from 'react';
+import { useI18n, formatMessage } from './i18n';
+import { useTheme } from './theme';
+import type { SyskompTheme, SyskompThemeOverrides } from './theme';
+import { visuallyHidden } from './a11y';
+import type { OverlayOptions } from './overlay';
+import ModalShell from './ModalShell';
+import FormField from './FormField';
+import CallbackPhonePopover from './CallbackPhonePopover';
+import AttachmentDropzone from './AttachmentDropzone';
+import { PrimaryButton, SecondaryButton } from './Buttons';
+import { QUOTE_COUNTRIES, useQuoteForm } from './quoteForm';
+import type { QuoteFormOptions } from './quoteForm';
+import { isBuiltInQuoteField } from './quoteFields';
+import type { QuoteBuiltInFieldConfig, QuoteCustomFieldConfig, ResolvedQuoteField } from './quoteFields';
+import { buildItemTable, quantityLimits } from './items';
+import type { QuoteDisplayItem } from './items';
+import { buildPrintDocument, printDocument, quoteContactLines } from './printView';
+import { itemsToCsv, itemsToXlsx, XLSX_MIME_TYPE } from './itemExport';
+import { downloadFile } from './download';
 
 // ─── Public Interfaces ───────────────────────────────────────
 
-export interface QuoteDisplayItem {
-  description: string;
-  quantity: number;
-  unitPrice?: number;
-}
-
-export interface QuoteContactData {
-  salutation: string;
-  firstName: string;
-  lastName: string;
-  company: string;
-  street: string;
-  houseNumber: string;
-  zip: string;
-  city: string;
-  country: string;
-  department: string;
-  phone: string;
-  email: string;
-  note: string;
-}
+export type { QuoteDisplayItem } from './items';
+export type { QuoteContactData, QuoteSubmitContext } from './quoteForm';
 
-export interface QuoteModalProps {
+export interface QuoteModalProps extends QuoteFormOptions, OverlayOptions {
   title?: string;
-  /** Optional description text shown above the contact form (e.g. configuration summary) */
-  description?: string;
   items: QuoteDisplayItem[];
   showPrices?: boolean;
-  onSubmit: (contact: QuoteContactData) => Promise<{ success: boolean; message?: string }>;
+  /** Quantity steppers and remove buttons in the item list - changes go to onItemsChange and onSubmit */
+  editableItems?: boolean;
   onClose: () => void;
+  /** Theme overrides (colors, radii, typography, z-index) - defaults to the Syskomp design */
+  theme?: SyskompThemeOverrides;
 }
 
 // ─── Inline Styles ───────────────────────────────────────────
 
-const styles = {
-  overlay: {
-    position: 'fixed' as const,
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    backgroundColor: 'rgba(0, 0, 0, 0.7)',
-    zIndex: 50,
-    display: 'flex',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: '2px',
-  },
-  modal: {
-    backgroundColor: 'white',
-    padding: '20px',
-    borderRadius: '8px',
-    maxWidth: '600px',
-    width: '100%',
-    boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
-    maxHeight: '90vh',
-    overflowY: 'auto' as const,
-    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-    fontSize: '14px',
-    lineHeight: '1.4',
-    color: '#374151',
-  },
-  title: {
-    fontSize: '18px',
-    fontWeight: 'bold' as const,
-    textAlign: 'center' as const,
-    marginBottom: '12px',
-    marginTop: '0',
-    color: '#000000',
-  },
+const createStyles = ({ colors, radii, typography }: SyskompTheme) => ({
   sectionBox: {
-    backgroundColor: '#f9fafb',
-    border: '1px solid #e5e7eb',
+    backgroundColor: colors.surface,
+    border: `1px solid ${colors.surfaceBorder}`,
     padding: '6px 12px',
-    borderRadius: '4px',
+    borderRadius: radii.sm,
     marginBottom: '10px',
   },
   sectionTitle: {
     margin: '0 0 8px 0',
     fontWeight: '600' as const,
-    fontSize: '14px',
-    color: COLORS.skBlau,
+    fontSize: typography.fontSize,
+    color: colors.skBlau,
   },
   row: {
     display: 'flex',
     gap: '8px',
     marginBottom: '6px',
   },
-  field: (flex: number) => ({
-    flex,
-    display: 'flex',
-    flexDirection: 'column' as const,
-    gap: '2px',
-  }),
-  label: {
-    fontSize: '12px',
-    color: '#6b7280',
-  },
-  labelRequired: {
-    fontSize: '12px',
-    color: '#6b7280',
-  },
-  requiredStar: {
-    color: COLORS.errorRed,
-    marginLeft: '2px',
-  },
-  input: {
-    padding: '5px 8px',
-    border: '1px solid #d1d5db',
-    borderRadius: '4px',
-    fontFamily: 'inherit',
-    fontSize: 'inherit',
-    width: '100%',
-    boxSizing: 'border-box' as const,
-  },
-  inputError: {
-    borderColor: COLORS.errorRed,
-    backgroundColor: COLORS.errorBg,
-  },
-  select: {
-    padding: '5px 8px',
-    border: '1px solid #d1d5db',
-    borderRadius: '4px',
-    fontFamily: 'inherit',
-    fontSize: 'inherit',
-    width: '100%',
-    boxSizing: 'border-box' as const,
-    backgroundColor: 'white',
-  },
   itemsTable: {
     width: '100%',
     borderCollapse: 'collapse' as const,
-    fontSize: '12px',
+    fontSize: typography.fontSizeSmall,
   },
   itemRow: {
-    borderBottom: '1px solid #e5e7eb',
+    borderBottom: `1px solid ${colors.surfaceBorder}`,
   },
   itemCell: {
     padding: '4px 6px',
     verticalAlign: 'top' as const,
     whiteSpace: 'pre-line' as const,
   },
+  articleNumberCell: {
+    padding: '4px 6px',
+    verticalAlign: 'top' as const,
+    whiteSpace: 'nowrap' as const,
+    color: colors.muted,
+  },
   itemCellRight: {
     padding: '4px 6px',
     textAlign: 'right' as const,
     whiteSpace: 'nowrap' as const,
   },
+  exportButton: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    marginLeft: '10px',
+    color: colors.skTurkis,
+    fontSize: typography.fontSizeSmall,
+    fontWeight: 'normal' as const,
+    textDecoration: 'underline',
+    cursor: 'pointer',
+  },
+  stepper: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+  stepButton: {
+    width: '22px',
+    height: '22px',
+    padding: 0,
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
+    background: colors.surface,
+    color: colors.skBlau,
+    fontSize: typography.fontSizeSmall,
+    lineHeight: 1,
+    cursor: 'pointer',
+  },
+  quantityInput: {
+    width: '52px',
+    padding: '2px 4px',
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
+    fontSize: typography.fontSizeSmall,
+    textAlign: 'right' as const,
+  },
+  groupToggle: {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    font: 'inherit',
+    color: 'inherit',
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+  },
+  removeButton: {
+    background: 'none',
+    border: 'none',
+    padding: '0 2px',
+    color: colors.muted,
+    fontSize: '16px',
+    lineHeight: 1,
+    cursor: 'pointer',
+  },
   totalRow: {
     fontWeight: '600' as const,
-    borderTop: '2px solid #d1d5db',
+    borderTop: `2px solid ${colors.inputBorder}`,
   },
   privacyRow: {
     display: 'flex',
@@ -186,584 +156,490 @@ const styles = {
   },
   checkbox: {
     marginTop: '3px',
-    accentColor: COLORS.skTurkis,
+    accentColor: colors.skTurkis,
   },
   buttonContainer: {
     display: 'flex',
     gap: '8px',
   },
   button: {
-    flex: 1,
-    color: 'white',
     padding: '9px 14px',
-    borderRadius: '4px',
-    border: 'none',
-    cursor: 'pointer',
-    fontWeight: '500' as const,
-    transition: 'opacity 0.2s',
+  },
+  textarea: {
+    width: '100%',
+    boxSizing: 'border-box' as const,
+    padding: '5px 8px',
+    border: `1px solid ${colors.inputBorder}`,
+    borderRadius: radii.sm,
     fontFamily: 'inherit',
     fontSize: 'inherit',
+    resize: 'vertical' as const,
+    minHeight: '60px',
   },
-  buttonDisabled: {
-    opacity: 0.6,
-    cursor: 'not-allowed' as const,
+  inquiryNumber: {
+    margin: '-8px 0 12px 0',
+    textAlign: 'center' as const,
+    fontSize: typography.fontSizeSmall,
+    color: colors.muted,
   },
-  message: (type: 'success' | 'error') => ({
+  message: (type: 'success' | 'queued' | 'error') => ({
     padding: '10px 12px',
-    borderRadius: '4px',
+    borderRadius: radii.sm,
     marginBottom: '10px',
-    backgroundColor: type === 'success' ? COLORS.successBg : COLORS.errorBg,
-    border: `1px solid ${type === 'success' ? COLORS.successGreen : COLORS.errorRed}`,
-    color: type === 'success' ? COLORS.successGreen : COLORS.errorRed,
+    backgroundColor: { success: colors.successBg, queued: colors.skTurkisLight, error: colors.errorBg }[type],
+    border: `1px solid ${{ success: colors.successGreen, queued: colors.skTurkisBorder, error: colors.errorRed }[type]}`,
+    color: { success: colors.successGreen, queued: colors.skBlau, error: colors.errorRed }[type],
     textAlign: 'center' as const,
   }),
-};
-
-// ─── Helpers ─────────────────────────────────────────────────
+});
 
-const formatPrice = (price: number): string =>
-  price.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' EUR';
-
-const isValidEmail = (email: string): boolean =>
-  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-
-// ─── LocalStorage Persistence ────────────────────────────────
-
-const STORAGE_KEY = 'syskomp-quote-contact';
-
-const loadContactData = (): Partial<QuoteContactData> => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
-  } catch { /* ignore */ }
-  return {};
-};
+// ─── Component ───────────────────────────────────────────────
 
-const saveContactData = (data: QuoteContactData) => {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-  } catch { /* ignore */ }
-};
+const QuoteModal: React.FC<QuoteModalProps> = (props) => {
+  const {
+    title: titleProp,
+    description,
+    showPrices = true,
+    editableItems = false,
+    onClose,
+  } = props;
+  const { t, locale } = useI18n(props);
+  const theme = useTheme(props.theme);
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { colors, typography } = theme;
+
+  const title = titleProp ?? t.quoteTitle;
+
+  // State, validation, ZIP auto-fill and submit - shared with headless hosts
+  const quote = useQuoteForm(props);
+  const {
+    form, errors, errorAnnouncement, submitting, result, inquiryNumber, items, rows, places, placeholders,
+    updateField, updateCustomField, customValue, isRequired,
+  } = quote;
+  // Queued requests count as sent - the outbox delivers them
+  const submitted = result !== null && result.type !== 'error';
+
+  const noteTitleId = `${useId()}-note-title`;
+  const attachmentsTitleId = `${useId()}-attachments-title`;
+
+  // Line totals, discounts and VAT - same figures as in the submit payload
+  const pricing = {
+    currency: props.currency,
+    priceLocale: props.priceLocale,
+    discountPercent: props.discountPercent,
+    vatRate: props.vatRate,
+  };
+  const itemTable = buildItemTable(items, { ...pricing, showPrices, locale, labels: t });
+
+  // Collapsed assemblies, by row path ("0", "0.2")
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const isRowVisible = (path: number[]) =>
+    path.every((_, depth) => depth === 0 || !collapsed.has(path.slice(0, depth).join('.')));
+  const toggleAssembly = (key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
 
-// ─── Component ───────────────────────────────────────────────
+  // Remove a top-level item - collapsed assemblies below it move up one index
+  const removeItem = (index: number) => {
+    quote.removeItem(index);
+    setCollapsed((prev) => new Set([...prev].flatMap((key) => {
+      const [first, ...rest] = key.split('.').map(Number);
+      if (first === index) return [];
+      return [[first > index ? first - 1 : first, ...rest].join('.')];
+    })));
+  };
 
-const QuoteModal: React.FC<QuoteModalProps> = ({
-  title = 'Angebot anfordern',
-  description,
-  items,
-  showPrices = true,
-  onSubmit,
-  onClose,
-}) => {
-  // Form state — initialize from localStorage if available
-  const [form, setForm] = useState<QuoteContactData>(() => {
-    const defaults: QuoteContactData = {
-      salutation: 'Herr',
-      firstName: '',
-      lastName: '',
-      company: '',
-      street: '',
-      houseNumber: '',
-      zip: '',
-      city: '',
-      country: 'DE',
-      department: '',
-      phone: '',
-      email: '',
-      note: '',
-    };
-    return { ...defaults, ...loadContactData() };
-  });
+  // Text of the quantity field being typed in - may be empty or out of range until blur
+  const [quantityDraft, setQuantityDraft] = useState<{ index: number; value: string } | null>(null);
+
+  // −/+ buttons around a number input - snapped to the item's step and limits
+  const renderQuantityStepper = (index: number) => {
+    const item = items[index];
+    const { min, max, step } = quantityLimits(item);
+    const label = (template: string) => formatMessage(template, { description: item.description });
+    return (
+      <span style={styles.stepper}>
+        <button
+          type="button"
+          aria-label={label(t.decreaseQuantity)}
+          disabled={item.quantity <= min}
+          onClick={() => quote.setItemQuantity(index, item.quantity - step)}
+          style={{ ...styles.stepButton, opacity: item.quantity <= min ? 0.4 : 1 }}
+        >
+          −
+        </button>
+        <input
+          type="number"
+          aria-label={label(t.itemQuantityOf)}
+          value={quantityDraft?.index === index ? quantityDraft.value : item.quantity}
+          min={min}
+          max={Number.isFinite(max) ? max : undefined}
+          step={step}
+          onChange={(e) => {
+            setQuantityDraft({ index, value: e.target.value });
+            quote.setItemQuantity(index, e.target.valueAsNumber);
+          }}
+          onBlur={() => setQuantityDraft(null)}
+          style={styles.quantityInput}
+        />
+        <button
+          type="button"
+          aria-label={label(t.increaseQuantity)}
+          disabled={item.quantity >= max}
+          onClick={() => quote.setItemQuantity(index, item.quantity + step)}
+          style={{ ...styles.stepButton, opacity: item.quantity >= max ? 0.4 : 1 }}
+        >
+          +
+        </button>
+        {item.unit && <span>{item.unit}</span>}
+      </span>
+    );
+  };
 
-  // Persist contact data on change
-  useEffect(() => {
-    saveContactData(form);
-  }, [form]);
-
-  const [errors, setErrors] = useState<Partial<Record<keyof QuoteContactData, boolean>>>({});
-  const [submitting, setSubmitting] = useState(false);
-  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
-  const [showPhoneDialog, setShowPhoneDialog] = useState(false);
-  const [phoneTemp, setPhoneTemp] = useState('');
-
-  // Auto-fill city from ZIP via Zippopotam.us
-  useEffect(() => {
-    const zip = form.zip.trim();
-    const country = form.country.trim().toLowerCase();
-    if (zip.length < 4 || !country) return;
-
-    const controller = new AbortController();
-    const fetchCity = async () => {
-      try {
-        const res = await fetch(`https://api.zippopotam.us/${country}/${zip}`, { signal: controller.signal });
-        if (!res.ok) return;
-        const data = await res.json();
-        const place = data?.places?.[0]?.['place name'];
-        if (place && !form.city.trim()) {
-          setForm((prev) => ({ ...prev, city: place }));
-        }
-      } catch { /* ignore abort / network errors */ }
-    };
-    const timer = setTimeout(fetchCity, 400);
-    return () => { clearTimeout(timer); controller.abort(); };
-  }, [form.zip, form.country]);
-
-  const sanitizeField = (field: keyof QuoteContactData, value: string): string => {
-    const patterns: Partial<Record<keyof QuoteContactData, RegExp>> = {
-      firstName:   /[^a-zA-ZäöüÄÖÜß\s\-]/g,
-      lastName:    /[^a-zA-ZäöüÄÖÜß\s\-]/g,
-      company:     /[^a-zA-ZäöüÄÖÜß0-9\s&.,\-()]/g,
-      street:      /[^a-zA-ZäöüÄÖÜß0-9\s.\-]/g,
-      houseNumber: /[^a-zA-Z0-9/]/g,
-      zip:         /[^a-zA-Z0-9\-]/g,
-      city:        /[^a-zA-ZäöüÄÖÜß\s\-.]/g,
-      department:  /[^a-zA-ZäöüÄÖÜß0-9\s\-/.]/g,
-      phone:       /[^0-9+\-()/\s]/g,
-      note:        /[^a-zA-ZäöüÄÖÜß0-9\s.,\-!?()/]/g,
-    };
-    const pattern = patterns[field];
-    return pattern ? value.replace(pattern, '') : value;
+  // A4 summary to forward internally before submitting
+  const handlePrint = () => {
+    printDocument(buildPrintDocument({
+      title,
+      inquiryNumber,
+      locale,
+      contactLines: quoteContactLines(form, t),
+      description,
+      items,
+      showPrices,
+      ...pricing,
+      note: form.note,
+      privacyNotice: t.privacyNotice,
+      labels: t,
+    }, theme));
   };
 
-  const updateField = (field: keyof QuoteContactData, value: string) => {
-    setForm((prev) => ({ ...prev, [field]: sanitizeField(field, value) }));
-    if (errors[field]) {
-      setErrors((prev) => ({ ...prev, [field]: false }));
+  // Bill of materials for the customer's ERP
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const options = { ...pricing, showPrices, locale, labels: t };
+    if (format === 'csv') {
+      downloadFile(`${inquiryNumber}.csv`, itemsToCsv(items, options), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`${inquiryNumber}.xlsx`, itemsToXlsx(items, { ...options, sheetName: inquiryNumber }), XLSX_MIME_TYPE);
     }
   };
 
-  const validate = (): boolean => {
-    const requiredFields: (keyof QuoteContactData)[] = [
-      'salutation', 'firstName', 'lastName', 'company',
-      'street', 'houseNumber', 'zip', 'city', 'country', 'email',
-    ];
-    const newErrors: Partial<Record<keyof QuoteContactData, boolean>> = {};
-
-    for (const field of requiredFields) {
-      if (!form[field].trim()) {
-        newErrors[field] = true;
-      }
-    }
+  // id / label / required star / error message / row share of a form field
+  const fieldProps = (field: ResolvedQuoteField) => ({
+    id: quote.fieldId(field.name),
+    label: quote.fieldLabel(field),
+    required: isRequired(field),
+    error: errors[field.name],
+    flex: field.flex,
+  });
 
-    if (form.email.trim() && !isValidEmail(form.email)) {
-      newErrors.email = true;
+  const renderBuiltInField = (field: QuoteBuiltInFieldConfig) => {
+    const { name } = field;
+    let control: React.ReactElement;
+    switch (name) {
+      case 'salutation':
+        control = (
+          <select value={form.salutation} onChange={(e) => updateField('salutation', e.target.value)}>
+            <option value="Herr">{t.salutationMr}</option>
+            <option value="Frau">{t.salutationMs}</option>
+          </select>
+        );
+        break;
+      case 'country':
+        control = (
+          <select value={form.country} onChange={(e) => updateField('country', e.target.value)}>
+            {QUOTE_COUNTRIES.map((country) => <option key={country} value={country}>{country}</option>)}
+          </select>
+        );
+        break;
+      case 'zip':
+        control = (
+          <input
+            type="text"
+            value={form.zip}
+            placeholder={placeholders.zip}
+            onChange={(e) => updateField('zip', e.target.value)}
+            onBlur={quote.normalizeZip}
+          />
+        );
+        break;
+      default:
+        control = (
+          <input
+            type={name === 'email' ? 'email' : 'text'}
+            value={form[name]}
+            placeholder={placeholders[name]}
+            onChange={(e) => updateField(name, e.target.value)}
+          />
+        );
     }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return <FormField key={name} {...fieldProps(field)}>{control}</FormField>;
   };
 
-  const handleSubmit = async () => {
-    if (!validate()) return;
-
-    setSubmitting(true);
-    setResult(null);
-
-    try {
-      const submitData = form.phone.trim()
-        ? { ...form, note: (form.note ? form.note + '\n' : '') + '[hat um Rückruf gebeten]' }
-        : form;
-      const res = await onSubmit(submitData);
-      if (res.success) {
-        setResult({ type: 'success', message: res.message || 'Angebot wurde erfolgreich angefordert.' });
-      } else {
-        setResult({ type: 'error', message: res.message || 'Fehler beim Senden. Bitte versuchen Sie es erneut.' });
-      }
-    } catch {
-      setResult({ type: 'error', message: 'Ein unerwarteter Fehler ist aufgetreten.' });
-    } finally {
-      setSubmitting(false);
+  const renderCustomField = (field: QuoteCustomFieldConfig) => {
+    const value = customValue(field);
+    if (field.type === 'checkbox') {
+      return (
+        <FormField key={field.name} {...fieldProps(field)} layout="checkbox">
+          <input type="checkbox" checked={value === true} onChange={(e) => updateCustomField(field.name, e.target.checked)} />
+        </FormField>
+      );
     }
+    const control = field.type === 'select' ? (
+      <select value={String(value)} onChange={(e) => updateCustomField(field.name, e.target.value)}>
+        <option value="" disabled={isRequired(field)}>{field.placeholder ?? t.selectPlaceholder}</option>
+        {(field.options || []).map((option) => {
+          const { value: optionValue, label } = typeof option === 'string' ? { value: option, label: option } : option;
+          return <option key={optionValue} value={optionValue}>{label}</option>;
+        })}
+      </select>
+    ) : (
+      <input
+        type={field.type === 'date' ? 'date' : 'text'}
+        value={String(value)}
+        placeholder={field.placeholder}
+        onChange={(e) => updateCustomField(field.name, e.target.value)}
+      />
+    );
+    return <FormField key={field.name} {...fieldProps(field)}>{control}</FormField>;
   };
 
-  // Price calculations
-  const itemsWithPrice = items.filter((i) => i.unitPrice != null);
-  const totalPrice = itemsWithPrice.reduce((sum, i) => sum + i.quantity * i.unitPrice!, 0);
-  const hasAnyPrice = showPrices && itemsWithPrice.length > 0;
-
-  const inputStyle = (field: keyof QuoteContactData) => ({
-    ...styles.input,
-    ...(errors[field] ? styles.inputError : {}),
-  });
-
-  const selectStyle = (field: keyof QuoteContactData) => ({
-    ...styles.select,
-    ...(errors[field] ? styles.inputError : {}),
-  });
+  // Closing while sending aborts onSubmit's signal
+  const handleClose = () => {
+    quote.cancelSubmit();
+    onClose();
+  };
 
   return (
-    <div style={styles.overlay} onClick={onClose}>
-      <div style={styles.modal} onClick={(e) => e.stopPropagation()}>
-        {/* Title */}
-        <h2 style={styles.title}>{title}</h2>
-
-        {/* Success / Error message */}
-        {result && (
-          <div style={styles.message(result.type)}>{result.message}</div>
-        )}
-
-        {/* Contact form - only show if not succeeded */}
-        {result?.type !== 'success' && (
-          <>
-            {/* ── Kontaktdaten ── */}
-            <div style={styles.sectionBox}>
-              <p style={styles.sectionTitle}>Kontaktdaten</p>
-
-              {/* Row 1: Anrede / Vorname / Nachname */}
-              <div style={styles.row}>
-                <div style={styles.field(0.6)}>
-                  <label style={styles.label}>Anrede <span style={styles.requiredStar}>*</span></label>
-                  <select
-                    value={form.salutation}
-                    onChange={(e) => updateField('salutation', e.target.value)}
-                    style={selectStyle('salutation')}
-                  >
-                    <option value="Herr">Herr</option>
-                    <option value="Frau">Frau</option>
-                  </select>
-                </div>
-                <div style={styles.field(1)}>
-                  <label style={styles.label}>Vorname <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.firstName}
-                    onChange={(e) => updateField('firstName', e.target.value)}
-                    style={inputStyle('firstName')}
-                  />
-                </div>
-                <div style={styles.field(1)}>
-                  <label style={styles.label}>Nachname <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.lastName}
-                    onChange={(e) => updateField('lastName', e.target.value)}
-                    style={inputStyle('lastName')}
-                  />
-                </div>
-              </div>
-
-              {/* Row 2: Abteilung / E-Mail */}
-              <div style={styles.row}>
-                <div style={styles.field(0.8)}>
-                  <label style={styles.label}>Abteilung</label>
-                  <input
-                    type="text"
-                    value={form.department}
-                    onChange={(e) => updateField('department', e.target.value)}
-                    style={inputStyle('department')}
-                  />
-                </div>
-                <div style={styles.field(1.4)}>
-                  <label style={styles.label}>E-Mail <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="email"
-                    value={form.email}
-                    onChange={(e) => updateField('email', e.target.value)}
-                    style={inputStyle('email')}
-                  />
-                </div>
-              </div>
-
-              {/* Row 3: Firma */}
-              <div style={styles.row}>
-                <div style={styles.field(1)}>
-                  <label style={styles.label}>Firma <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.company}
-                    onChange={(e) => updateField('company', e.target.value)}
-                    style={inputStyle('company')}
-                  />
-                </div>
-              </div>
-
-              {/* Row 4: Strasse / Hausnummer */}
-              <div style={styles.row}>
-                <div style={styles.field(3)}>
-                  <label style={styles.label}>Straße <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.street}
-                    onChange={(e) => updateField('street', e.target.value)}
-                    style={inputStyle('street')}
-                  />
-                </div>
-                <div style={styles.field(1)}>
-                  <label style={styles.label}>Nr. <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.houseNumber}
-                    onChange={(e) => updateField('houseNumber', e.target.value)}
-                    style={inputStyle('houseNumber')}
-                  />
-                </div>
+    <ModalShell
+      title={title}
+      onClose={handleClose}
+      theme={props.theme}
+      maxWidth="600px"
+      locale={props.locale}
+      bodyLocale={props.bodyLocale}
+      messages={props.messages}
+      bodyMessages={props.bodyMessages}
+      container={props.container}
+      disablePortal={props.disablePortal}
+      lockScroll={props.lockScroll}
+    >
+      {/* Inquiry number - also passed to onSubmit */}
+      <p style={styles.inquiryNumber}>{formatMessage(t.inquiryNumber, { number: `#${inquiryNumber}` })}</p>
+
+      {/* Success / Error message */}
+      {result && (
+        <div role={result.type === 'error' ? 'alert' : 'status'} style={styles.message(result.type)}>{result.message}</div>
+      )}
+
+      {/* Validation summary for screen readers - fields show their own message */}
+      <div role="status" aria-live="polite" style={visuallyHidden}>{errorAnnouncement}</div>
+
+      {/* Contact form - only show if not sent / queued */}
+      {!submitted && (
+        <>
+          {/* ── Kontaktdaten ── */}
+          <div style={styles.sectionBox}>
+            <p style={styles.sectionTitle}>{t.contactSection}</p>
+
+            {/* Fields in configured order - fields sharing a row key side by side */}
+            {rows.map((row, i) => (
+              <div key={row[0].name} style={i === rows.length - 1 ? { ...styles.row, marginBottom: 0 } : styles.row}>
+                {row.map((field) => (isBuiltInQuoteField(field) ? renderBuiltInField(field) : renderCustomField(field)))}
               </div>
+            ))}
 
-              {/* Row 5: Land / PLZ / Stadt */}
-              <div style={{ ...styles.row, marginBottom: 0 }}>
-                <div style={styles.field(0.5)}>
-                  <label style={styles.label}>Land <span style={styles.requiredStar}>*</span></label>
+            {/* Several places share this postal code - let the user pick */}
+            {quote.showCityPicker && (
+              <div style={{ ...styles.row, marginTop: '6px', marginBottom: 0 }}>
+                <FormField label={t.cityPicker}>
                   <select
-                    value={form.country}
-                    onChange={(e) => updateField('country', e.target.value)}
-                    style={selectStyle('country')}
+                    value={places.includes(form.city) ? form.city : ''}
+                    onChange={(e) => updateField('city', e.target.value)}
                   >
-                    <option value="DE">DE</option>
-                    <option value="AT">AT</option>
-                    <option value="CH">CH</option>
-                    <option value="NL">NL</option>
-                    <option value="BE">BE</option>
-                    <option value="FR">FR</option>
-                    <option value="PL">PL</option>
-                    <option value="CZ">CZ</option>
-                    <option value="DK">DK</option>
-                    <option value="LU">LU</option>
+                    <option value="" disabled>{t.cityPickerPlaceholder}</option>
+                    {places.map((place) => (
+                      <option key={place} value={place}>{place}</option>
+                    ))}
                   </select>
-                </div>
-                <div style={styles.field(0.7)}>
-                  <label style={styles.label}>PLZ <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.zip}
-                    onChange={(e) => updateField('zip', e.target.value)}
-                    style={inputStyle('zip')}
-                  />
-                </div>
-                <div style={styles.field(1.5)}>
-                  <label style={styles.label}>Stadt <span style={styles.requiredStar}>*</span></label>
-                  <input
-                    type="text"
-                    value={form.city}
-                    onChange={(e) => updateField('city', e.target.value)}
-                    style={inputStyle('city')}
-                  />
-                </div>
+                </FormField>
               </div>
-            </div>
+            )}
+          </div>
 
-            {/* ── Hinweis für Syskomp ── */}
-            <div style={{ ...styles.sectionBox, position: 'relative' as const }}>
-              <p style={{ ...styles.sectionTitle, display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
-                <span>Hinweis für Syskomp</span>
-                <span style={{ fontSize: '11px', fontWeight: 'normal', color: '#9ca3af' }}>{form.note.length}/500</span>
-              </p>
-              {/* ── Rückruf-Button ── */}
-              <div style={{ marginBottom: '8px' }}>
-                {form.phone ? (
-                  <button
-                    type="button"
-                    onClick={() => { setPhoneTemp(form.phone); setShowPhoneDialog(true); }}
-                    style={{
-                      display: 'inline-flex',
-                      alignItems: 'center',
-                      gap: '6px',
-                      padding: '6px 12px',
-                      border: `1px solid ${COLORS.skTurkis}`,
-                      borderRadius: '4px',
-                      backgroundColor: COLORS.skTurkisLight,
-                      color: COLORS.skBlau,
-                      cursor: 'pointer',
-                      fontFamily: 'inherit',
-                      fontSize: '12px',
-                    }}
-                  >
-                    <span>Rückruf: {form.phone}</span>
-                    <span
-                      onClick={(e) => { e.stopPropagation(); updateField('phone', ''); }}
-                      style={{ fontWeight: 'bold', color: '#6b7280', cursor: 'pointer' }}
-                    >&times;</span>
-                  </button>
-                ) : (
-                  <button
-                    type="button"
-                    onClick={() => { setPhoneTemp(''); setShowPhoneDialog(true); }}
-                    style={{
-                      padding: '6px 12px',
-                      border: `1px solid ${COLORS.skTurkis}`,
-                      borderRadius: '4px',
-                      backgroundColor: 'white',
-                      color: COLORS.skTurkis,
-                      cursor: 'pointer',
-                      fontFamily: 'inherit',
-                      fontSize: '12px',
-                    }}
-                  >
-                    Ich bitte um telefonischen Rückruf
-                  </button>
-                )}
-
-                {showPhoneDialog && (
-                  <div style={{
-                    position: 'absolute' as const,
-                    bottom: '100%',
-                    left: '12px',
-                    marginBottom: '4px',
-                    backgroundColor: 'white',
-                    border: `1px solid ${COLORS.skTurkisBorder}`,
-                    borderRadius: '6px',
-                    padding: '14px',
-                    boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
-                    zIndex: 60,
-                    width: '280px',
-                  }}>
-                    <p style={{ margin: '0 0 6px 0', fontWeight: '600', fontSize: '13px', color: COLORS.skBlau }}>
-                      Telefonischen Rückruf anfordern
-                    </p>
-                    <p style={{ margin: '0 0 10px 0', fontSize: '12px', color: '#6b7280' }}>
-                      Wir rufen nur zu Ihren Geschäftszeiten an.
-                    </p>
-                    <input
-                      type="tel"
-                      value={phoneTemp}
-                      onChange={(e) => setPhoneTemp(sanitizeField('phone', e.target.value))}
-                      placeholder="Ihre Telefonnummer"
-                      autoFocus
-                      style={{ ...styles.input, marginBottom: '10px' }}
-                    />
-                    <div style={{ display: 'flex', gap: '6px' }}>
-                      <button
-                        type="button"
-                        onClick={() => { updateField('phone', phoneTemp); setShowPhoneDialog(false); }}
-                        style={{
-                          flex: 1,
-                          padding: '6px 10px',
-                          backgroundColor: COLORS.skButton,
-                          color: 'white',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: 'pointer',
-                          fontFamily: 'inherit',
-                          fontSize: '12px',
-                        }}
-                      >
-                        Übernehmen
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => setShowPhoneDialog(false)}
-                        style={{
-                          flex: 1,
-                          padding: '6px 10px',
-                          backgroundColor: '#6b7280',
-                          color: 'white',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: 'pointer',
-                          fontFamily: 'inherit',
-                          fontSize: '12px',
-                        }}
-                      >
-                        Abbrechen
-                      </button>
-                    </div>
-                  </div>
-                )}
-              </div>
-              <textarea
-                value={form.note}
-                onChange={(e) => updateField('note', e.target.value.slice(0, 500))}
-                maxLength={500}
-                rows={3}
-                placeholder="Optionaler Hinweis oder Anmerkung..."
-                style={{
-                  ...styles.input,
-                  resize: 'vertical' as const,
-                  minHeight: '60px',
-                }}
+          {/* ── Hinweis für Syskomp ── */}
+          <div style={styles.sectionBox}>
+            <p style={{ ...styles.sectionTitle, display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+              <span id={noteTitleId}>{t.noteSection}</span>
+              <span style={{ fontSize: '11px', fontWeight: 'normal', color: '#9ca3af' }}>{form.note.length}/500</span>
+            </p>
+            {/* ── Rückruf-Button ── */}
+            <div style={{ marginBottom: '8px' }}>
+              <CallbackPhonePopover
+                defaultCountry={form.country}
+                variant="button"
+                placement="top"
+                value={form.phone}
+                onChange={(phone) => updateField('phone', phone)}
               />
             </div>
+            <textarea
+              aria-labelledby={noteTitleId}
+              value={form.note}
+              onChange={(e) => updateField('note', e.target.value.slice(0, 500))}
+              maxLength={500}
+              rows={3}
+              placeholder={t.notePlaceholder}
+              style={styles.textarea}
+            />
+          </div>
 
-            {/* ── Privacy notice ── */}
-            <p style={{ fontSize: '12px', color: '#6b7280', marginBottom: '12px', lineHeight: '1.4' }}>
-              Mit dem Absenden erkläre ich mich mit der Verarbeitung meiner Daten zur Bearbeitung
-              meiner Anfrage einverstanden. Die Daten werden nicht an Dritte weitergegeben.
-            </p>
-
-            {/* ── Buttons ── */}
-            <div style={styles.buttonContainer}>
-              <button
-                onClick={handleSubmit}
-                disabled={submitting}
-                style={{
-                  ...styles.button,
-                  backgroundColor: COLORS.skButton,
-                  ...(submitting ? styles.buttonDisabled : {}),
-                }}
-                onMouseOver={(e) => { if (!submitting) e.currentTarget.style.backgroundColor = COLORS.skButtonHover; }}
-                onMouseOut={(e) => { if (!submitting) e.currentTarget.style.backgroundColor = COLORS.skButton; }}
-              >
-                {submitting ? 'Wird gesendet...' : (
-                  <>Ihr Angebot<br /><span style={{ fontSize: '11px', fontWeight: 'normal' }}>bekommen Sie in Minuten</span></>
-                )}
-              </button>
-              <button
-                onClick={onClose}
-                style={{ ...styles.button, flex: '0 0 auto', backgroundColor: '#6b7280' }}
-                onMouseOver={(e) => { e.currentTarget.style.opacity = '0.9'; }}
-                onMouseOut={(e) => { e.currentTarget.style.opacity = '1'; }}
-              >
-                Schließen
-              </button>
+          {/* ── Anhänge ── */}
+          {props.attachments && (
+            <div style={styles.sectionBox}>
+              <p id={attachmentsTitleId} style={styles.sectionTitle}>{t.attachmentsSection}</p>
+              <AttachmentDropzone
+                files={quote.attachments}
+                onAdd={quote.addAttachments}
+                onRemove={quote.removeAttachment}
+                options={props.attachments}
+                errors={quote.attachmentErrors}
+                labelledBy={attachmentsTitleId}
+              />
             </div>
+          )}
+
+          {/* ── Privacy notice ── */}
+          <p style={{ fontSize: typography.fontSizeSmall, color: colors.muted, marginBottom: '12px', lineHeight: '1.4' }}>
+            {t.privacyNotice}
+          </p>
+
+          {/* ── Buttons ── */}
+          <div style={styles.buttonContainer}>
+            <PrimaryButton onClick={quote.submit} busy={submitting} style={styles.button}>
+              {submitting ? t.submitting : (
+                <>{t.submit}<br /><span style={{ fontSize: '11px', fontWeight: 'normal' }}>{t.submitHint}</span></>
+              )}
+            </PrimaryButton>
+            <SecondaryButton tone="accent" onClick={handlePrint} style={{ ...styles.button, flex: '0 0 auto' }}>
+              {t.print}
+            </SecondaryButton>
+            <SecondaryButton
+              onClick={submitting ? quote.cancelSubmit : onClose}
+              style={{ ...styles.button, flex: '0 0 auto' }}
+            >
+              {submitting ? t.cancel : t.close}
+            </SecondaryButton>
+          </div>
 
-            {/* ── Produktbeschreibung (optional) ── */}
-            {description && (
-              <div style={{
-                ...styles.sectionBox,
-                whiteSpace: 'pre-line' as const,
-                fontSize: '12px',
-                lineHeight: '1.5',
-                maxHeight: '200px',
-                overflowY: 'auto' as const,
-              }}>
-                {description}
-              </div>
-            )}
-
-            {/* ── Artikelliste ── */}
-            <div style={styles.sectionBox}>
-              <p style={styles.sectionTitle}>Artikel ({items.length})</p>
+          {/* ── Produktbeschreibung (optional) ── */}
+          {description && (
+            <div style={{
+              ...styles.sectionBox,
+              whiteSpace: 'pre-line' as const,
+              fontSize: typography.fontSizeSmall,
+              lineHeight: '1.5',
+              maxHeight: '200px',
+              overflowY: 'auto' as const,
+            }}>
+              {description}
+            </div>
+          )}
+
+          {/* ── Artikelliste ── */}
+          <div style={styles.sectionBox}>
+            <p style={{ ...styles.sectionTitle, display: 'flex', alignItems: 'baseline' }}>
+              <span style={{ flex: 1 }}>{formatMessage(t.itemsTitle, { count: items.length })}</span>
+              {items.length > 0 && (
+                <>
+                  <button type="button" onClick={() => handleExport('csv')} style={styles.exportButton}>{t.exportCsv}</button>
+                  <button type="button" onClick={() => handleExport('xlsx')} style={styles.exportButton}>{t.exportXlsx}</button>
+                </>
+              )}
+            </p>
+            {items.length === 0 ? (
+              <p style={{ margin: '0 0 6px 0', fontSize: typography.fontSizeSmall, color: colors.muted }}>{t.itemsEmpty}</p>
+            ) : (
               <table style={styles.itemsTable}>
                 <tbody>
-                  {items.map((item, idx) => (
-                    <tr key={idx} style={styles.itemRow}>
-                      <td style={styles.itemCell}>{item.description}</td>
-                      <td style={styles.itemCellRight}>{item.quantity}x</td>
-                      {hasAnyPrice && (
-                        <td style={styles.itemCellRight}>
-                          {item.unitPrice != null ? formatPrice(item.unitPrice) : 'auf Anfrage'}
-                        </td>
-                      )}
+                  {itemTable.rows.filter(({ path }) => isRowVisible(path)).map(({ cells, depth, assembly, path }) => {
+                    const key = path.join('.');
+                    const index = path[0];
+                    return (
+                      <tr key={key} style={{ ...styles.itemRow, ...(assembly ? { fontWeight: 600 } : {}) }}>
+                        {cells.map((cell, col) => {
+                          const { key: column, align } = itemTable.columns[col];
+                          if (column === 'description') {
+                            return (
+                              <td key={column} style={{ ...styles.itemCell, paddingLeft: `${6 + 16 * depth}px` }}>
+                                {assembly ? (
+                                  <button
+                                    type="button"
+                                    aria-expanded={!collapsed.has(key)}
+                                    onClick={() => toggleAssembly(key)}
+                                    style={styles.groupToggle}
+                                  >
+                                    <span aria-hidden="true" style={{ display: 'inline-block', width: '14px' }}>
+                                      {collapsed.has(key) ? '▸' : '▾'}
+                                    </span>
+                                    {cell}
+                                  </button>
+                                ) : cell}
+                              </td>
+                            );
+                          }
+                          const style = column === 'articleNumber'
+                            ? styles.articleNumberCell
+                            : align === 'right' ? styles.itemCellRight : styles.itemCell;
+                          return (
+                            <td key={column} style={style}>
+                              {editableItems && depth === 0 && column === 'quantity' ? renderQuantityStepper(index) : cell}
+                            </td>
+                          );
+                        })}
+                        {editableItems && (
+                          <td style={styles.itemCellRight}>
+                            {depth === 0 && (
+                              <button
+                                type="button"
+                                aria-label={formatMessage(t.removeItem, { description: items[index].description })}
+                                onClick={() => removeItem(index)}
+                                style={styles.removeButton}
+                              >
+                                ×
+                              </button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                  {itemTable.summary.map(({ label, amount, total }, idx) => (
+                    <tr key={idx} style={{ ...(idx === 0 ? styles.totalRow : {}), fontWeight: total ? 600 : 'normal' }}>
+                      <td colSpan={itemTable.columns.length - 1} style={{ ...styles.itemCell, paddingTop: idx === 0 ? '6px' : '2px' }}>{label}</td>
+                      <td style={{ ...styles.itemCellRight, paddingTop: idx === 0 ? '6px' : '2px' }}>{amount}</td>
+                      {editableItems && <td />}
                     </tr>
                   ))}
-                  {hasAnyPrice && (
-                    <tr style={styles.totalRow}>
-                      <td style={{ ...styles.itemCell, paddingTop: '6px' }}>Gesamt (netto):</td>
-                      <td />
-                      <td style={{ ...styles.itemCellRight, paddingTop: '6px' }}>{formatPrice(totalPrice)}</td>
-                    </tr>
-                  )}
                 </tbody>
               </table>
-            </div>
-          </>
-        )}
-
-        {/* After success – only show close button */}
-        {result?.type === 'success' && (
-          <div style={{ textAlign: 'center' as const }}>
-            <button
-              onClick={onClose}
-              style={{ ...styles.button, backgroundColor: COLORS.skTurkis, maxWidth: '200px' }}
-              onMouseOver={(e) => { e.currentTarget.style.opacity = '0.9'; }}
-              onMouseOut={(e) => { e.currentTarget.style.opacity = '1'; }}
-            >
-              Schließen
-            </button>
+            )}
           </div>
-        )}
-      </div>
-    </div>
+        </>
+      )}
+
+      {/* After success – only show close button */}
+      {submitted && (
+        <div style={{ textAlign: 'center' as const }}>
+          <SecondaryButton tone="accent" onClick={onClose} style={{ ...styles.button, maxWidth: '200px' }}>
+            {t.close}
+          </SecondaryButton>
+        </div>
+      )}
+    </ModalShell>
   );
 };
 
@@ -0,0 +1,148 @@
+/**
+ * Accessibility helpers for Syskomp dialogs
+ * Focus trap, Escape handling, initial focus and focus restore (WCAG 2.1 AA).
+ */
+
+import React, { useEffect, useRef } from 'react';
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+/** Keyboard-reachable elements inside a container, in DOM order */
+export const getFocusableElements = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    (el) => !el.hasAttribute('disabled') && el.getAttribute('aria-hidden') !== 'true'
+  );
+
+/** Screen-reader-only text (visually hidden, still announced) */
+export const visuallyHidden: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  padding: 0,
+  margin: '-1px',
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
+interface DialogA11yOptions {
+  /** Called on Escape */
+  onClose: () => void;
+  /** Element to focus on open - defaults to the first focusable element */
+  initialFocusRef?: React.RefObject<HTMLElement>;
+  /** Element to focus on close - defaults to the element focused before opening */
+  returnFocusRef?: React.RefObject<HTMLElement>;
+  /** Keep Tab / Shift+Tab inside the dialog (default: true) */
+  trapFocus?: boolean;
+}
+
+/**
+ * Dialog keyboard behavior:
+ * - moves focus into the dialog on mount
+ * - keeps Tab / Shift+Tab inside the dialog
+ * - closes on Escape (nested dialogs stop propagation, so only the innermost closes)
+ * - returns focus to the previously focused element (the trigger) on unmount
+ *
+ * Spread `dialogProps` onto the dialog element.
+ */
+export const useDialogA11y = <T extends HTMLElement = HTMLDivElement>({
+  onClose,
+  initialFocusRef,
+  returnFocusRef,
+  trapFocus = true,
+}: DialogA11yOptions) => {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const container = ref.current;
+    if (container) {
+      const target = initialFocusRef?.current || getFocusableElements(container)[0] || container;
+      target.focus();
+    }
+    return () => {
+      // The trigger may have been replaced while the dialog was open
+      // (e.g. "Bitte um Rückruf" → phone number button), so prefer the ref
+      const returnTo = returnFocusRef?.current || previouslyFocused;
+      if (returnTo && typeof returnTo.focus === 'function' && document.contains(returnTo)) {
+        returnTo.focus();
+      }
+    };
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent<T>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      e.preventDefault();
+      onCloseRef.current();
+      return;
+    }
+    if (e.key !== 'Tab' || !trapFocus || !ref.current) return;
+    // Handled here - an enclosing dialog must not wrap focus a second time
+    e.stopPropagation();
+
+    const focusable = getFocusableElements(ref.current);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+
+    if (e.shiftKey && (active === first || active === ref.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return {
+    ref,
+    dialogProps: {
+      ref,
+      role: 'dialog' as const,
+      tabIndex: -1,
+      onKeyDown,
+    },
+  };
+};
+
+type DialogScopeProps = DialogA11yOptions &
+  Omit<React.HTMLAttributes<HTMLDivElement>, 'role' | 'onKeyDown'> & {
+    /** Sets aria-modal - true for full modals, false for popovers inside them */
+    modal?: boolean;
+  };
+
+/**
+ * `<div role="dialog">` with the keyboard behavior of `useDialogA11y`.
+ * Use for dialogs that are rendered conditionally (e.g. the callback popover).
+ */
+export const DialogScope: React.FC<DialogScopeProps> = ({
+  onClose,
+  initialFocusRef,
+  returnFocusRef,
+  trapFocus,
+  modal = false,
+  children,
+  ...rest
+}) => {
+  const { dialogProps } = useDialogA11y({ onClose, initialFocusRef, returnFocusRef, trapFocus });
+  return (
+    <div {...rest} {...dialogProps} aria-modal={modal || undefined}>
+      {children}
+    </div>
+  );
+};
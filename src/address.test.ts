@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { validateAddress, normalizePostalCode, formatAddress, ADDRESS_RULES } from './address';
+
+const address = (country: string, zip: string, houseNumber = '12') => ({
+  street: 'Musterstr.',
+  houseNumber,
+  zip,
+  city: 'Musterstadt',
+  country,
+});
+
+describe('address', () => {
+  it('checks postal code formats per country', () => {
+    expect(validateAddress(address('DE', '12345'))).toEqual({});
+    expect(validateAddress(address('DE', '1234'))).toEqual({ postalCode: '12345' });
+    expect(validateAddress(address('NL', '1234 AB'))).toEqual({});
+    expect(validateAddress(address('NL', '1234'))).toEqual({ postalCode: '1234 AB' });
+    expect(validateAddress(address('PL', '00-950'))).toEqual({});
+    expect(validateAddress(address('AT', '0123'))).toEqual({ postalCode: '1234' });
+  });
+
+  it('normalizes common spellings before checking', () => {
+    expect(normalizePostalCode('NL', '1234ab')).toBe('1234 AB');
+    expect(normalizePostalCode('PL', '00950')).toBe('00-950');
+    expect(normalizePostalCode('CZ', '11000')).toBe('110 00');
+    expect(normalizePostalCode('LU', 'L-1234')).toBe('1234');
+    expect(validateAddress(address('NL', '1234ab'))).toEqual({});
+  });
+
+  it('knows house-number conventions', () => {
+    expect(validateAddress(address('AT', '1010', '12/3/4'))).toEqual({});
+    expect(validateAddress(address('FR', '75001', '12 bis'))).toEqual({});
+    expect(validateAddress(address('CZ', '110 00', '1234/5'))).toEqual({});
+    expect(validateAddress(address('DE', '12345', 'a12'))).toEqual({ houseNumber: '12a' });
+  });
+
+  it('leaves unknown countries and empty values to the required check', () => {
+    expect(validateAddress(address('US', '90210-1234'))).toEqual({});
+    expect(validateAddress(address('DE', '', ''))).toEqual({});
+  });
+
+  it('orders address lines by country', () => {
+    expect(formatAddress(address('DE', '12345'))).toEqual(['Musterstr. 12', '12345 Musterstadt', 'DE']);
+    expect(formatAddress({ street: 'rue de la Paix', houseNumber: '12', zip: '75002', city: 'Paris', country: 'FR' }))
+      .toEqual(['12 rue de la Paix', '75002 Paris', 'FR']);
+    expect(formatAddress({ street: 'rue du Fort', houseNumber: '5', zip: '1234', city: 'Luxembourg', country: 'LU' }, { includeCountry: false }))
+      .toEqual(['5, rue du Fort', 'L-1234 Luxembourg']);
+  });
+
+  it('has rules for every country of the QuoteModal dropdown', () => {
+    expect(Object.keys(ADDRESS_RULES).sort()).toEqual(['AT', 'BE', 'CH', 'CZ', 'DE', 'DK', 'FR', 'LU', 'NL', 'PL']);
+  });
+});
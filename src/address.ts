@@ -0,0 +1,170 @@
+/**
+ * Country-aware address rules
+ * Postal code formats, house-number conventions and address-line ordering
+ * for the countries of the QuoteModal "Land" dropdown.
+ */
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface AddressRule {
+  /** Valid postal code after normalization */
+  postalCode: RegExp;
+  /** Example shown in the error message, e.g. "1234 AB" */
+  postalCodeExample: string;
+  /** Brings user input into the canonical form (e.g. "1234ab" → "1234 AB") */
+  normalizePostalCode?: (value: string) => string;
+  /** Valid house number */
+  houseNumber: RegExp;
+  /** Example shown in the error message, e.g. "12/3/4" */
+  houseNumberExample: string;
+  /** Street line: "Musterstr. 12" (default) or "12 rue de la Paix" */
+  houseNumberFirst?: boolean;
+  /** Between house number and street if the number comes first (default: " ") */
+  houseNumberSeparator?: string;
+  /** Prefix of the postal code in the city line, e.g. "L-" for Luxembourg */
+  postalCodePrefix?: string;
+}
+
+export interface PostalAddress {
+  street: string;
+  houseNumber: string;
+  zip: string;
+  city: string;
+  country: string;
+}
+
+export type AddressError = 'postalCode' | 'houseNumber';
+
+// ─── Rules ───────────────────────────────────────────────────
+
+const compact = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+/** "12", "12a", "12 a", "12-14", "12/1" */
+const DEFAULT_HOUSE_NUMBER = /^\d+\s?[a-zA-Z]?(\s?[-/]\s?\d+\s?[a-zA-Z]?)?$/;
+
+export const ADDRESS_RULES: Record<string, AddressRule> = {
+  DE: {
+    postalCode: /^\d{5}$/,
+    postalCodeExample: '12345',
+    houseNumber: DEFAULT_HOUSE_NUMBER,
+    houseNumberExample: '12a',
+  },
+  AT: {
+    postalCode: /^[1-9]\d{3}$/,
+    postalCodeExample: '1234',
+    // Stiege / Tür: "12/3/4"
+    houseNumber: /^\d+[a-zA-Z]?(\/\d+[a-zA-Z]?){0,3}$/,
+    houseNumberExample: '12/3/4',
+  },
+  CH: {
+    postalCode: /^[1-9]\d{3}$/,
+    postalCodeExample: '1234',
+    houseNumber: DEFAULT_HOUSE_NUMBER,
+    houseNumberExample: '12a',
+  },
+  NL: {
+    postalCode: /^[1-9]\d{3} [A-Z]{2}$/,
+    postalCodeExample: '1234 AB',
+    normalizePostalCode: (value) => compact(value).replace(/^(\d{4})([A-Z]{2})$/, '$1 $2'),
+    // Huisnummer + toevoeging: "12", "12A", "12-1", "12 hs"
+    houseNumber: /^\d+(\s?-?\s?[a-zA-Z0-9]{1,4})?$/,
+    houseNumberExample: '12-A',
+  },
+  BE: {
+    postalCode: /^[1-9]\d{3}$/,
+    postalCodeExample: '1234',
+    // "12", "12A", "12/3" (bus)
+    houseNumber: /^\d+[a-zA-Z]?(\/\d+[a-zA-Z]?)?$/,
+    houseNumberExample: '12/3',
+  },
+  FR: {
+    postalCode: /^\d{5}$/,
+    postalCodeExample: '75001',
+    // "12", "12bis", "12 ter"
+    houseNumber: /^\d+\s?(bis|ter|quater|[a-zA-Z])?$/i,
+    houseNumberExample: '12 bis',
+    houseNumberFirst: true,
+  },
+  PL: {
+    postalCode: /^\d{2}-\d{3}$/,
+    postalCodeExample: '00-950',
+    normalizePostalCode: (value) => compact(value).replace(/^(\d{2})-?(\d{3})$/, '$1-$2'),
+    // Budynek / lokal: "12/3"
+    houseNumber: /^\d+[a-zA-Z]?(\/\d+[a-zA-Z]?)?$/,
+    houseNumberExample: '12/3',
+  },
+  CZ: {
+    postalCode: /^\d{3} \d{2}$/,
+    postalCodeExample: '110 00',
+    normalizePostalCode: (value) => compact(value).replace(/^(\d{3})(\d{2})$/, '$1 $2'),
+    // Číslo popisné / orientační: "1234/5"
+    houseNumber: /^\d+(\/\d+[a-zA-Z]?)?$/,
+    houseNumberExample: '1234/5',
+  },
+  DK: {
+    postalCode: /^\d{4}$/,
+    postalCodeExample: '1234',
+    houseNumber: /^\d+\s?[a-zA-Z]?$/,
+    houseNumberExample: '12A',
+  },
+  LU: {
+    postalCode: /^\d{4}$/,
+    postalCodeExample: 'L-1234',
+    normalizePostalCode: (value) => compact(value).replace(/^L-?/, ''),
+    houseNumber: DEFAULT_HOUSE_NUMBER,
+    houseNumberExample: '12a',
+    houseNumberFirst: true,
+    houseNumberSeparator: ', ',
+    postalCodePrefix: 'L-',
+  },
+};
+
+// ─── Public API ──────────────────────────────────────────────
+
+/** Canonical postal code for `country` - unchanged if the country has no rule */
+export const normalizePostalCode = (country: string, value: string): string => {
+  const rule = ADDRESS_RULES[country.toUpperCase()];
+  const trimmed = value.trim();
+  return rule?.normalizePostalCode ? rule.normalizePostalCode(trimmed) : trimmed;
+};
+
+/**
+ * Check postal code and house number against the rules of `address.country`.
+ * Returns the expected format (example) for each invalid part.
+ * Empty values are not reported here (that's the required-field check).
+ * Countries without rules always pass.
+ */
+export const validateAddress = (address: PostalAddress): Partial<Record<AddressError, string>> => {
+  const rule = ADDRESS_RULES[address.country.toUpperCase()];
+  if (!rule) return {};
+
+  const errors: Partial<Record<AddressError, string>> = {};
+  const zip = normalizePostalCode(address.country, address.zip);
+  if (zip && !rule.postalCode.test(zip)) errors.postalCode = rule.postalCodeExample;
+  const houseNumber = address.houseNumber.trim();
+  if (houseNumber && !rule.houseNumber.test(houseNumber)) errors.houseNumber = rule.houseNumberExample;
+  return errors;
+};
+
+/**
+ * Address lines in the order of the destination country.
+ *
+ * @example
+ * formatAddress({ street: 'rue de la Paix', houseNumber: '12', zip: '75002', city: 'Paris', country: 'FR' })
+ * // ["12 rue de la Paix", "75002 Paris", "FR"]
+ */
+export const formatAddress = (address: PostalAddress, { includeCountry = true } = {}): string[] => {
+  const country = address.country.toUpperCase();
+  const rule = ADDRESS_RULES[country];
+  const street = address.street.trim();
+  const houseNumber = address.houseNumber.trim();
+  const zip = normalizePostalCode(country, address.zip);
+  const city = address.city.trim();
+
+  const streetLine = rule?.houseNumberFirst
+    ? [houseNumber, street].filter(Boolean).join(rule.houseNumberSeparator ?? ' ')
+    : [street, houseNumber].filter(Boolean).join(' ');
+  const cityLine = [zip && `${rule?.postalCodePrefix || ''}${zip}`, city].filter(Boolean).join(' ');
+
+  return [streetLine, cityLine, includeCountry ? country : ''].filter(Boolean);
+};
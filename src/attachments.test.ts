@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { acceptsFile, formatFileSize, validateAttachments } from './attachments';
+
+const file = (name: string, size: number, type = '') => new File(['x'.repeat(size)], name, { type });
+
+describe('acceptsFile', () => {
+  it('matches extensions, MIME types and wildcards', () => {
+    const accept = ['.step', '.STP', 'image/*', 'application/pdf'];
+    expect(acceptsFile(file('Halle.STEP', 1), accept)).toBe(true);
+    expect(acceptsFile(file('foerderer.stp', 1), accept)).toBe(true);
+    expect(acceptsFile(file('foto.jpg', 1, 'image/jpeg'), accept)).toBe(true);
+    expect(acceptsFile(file('skizze.pdf', 1, 'application/pdf'), accept)).toBe(true);
+    expect(acceptsFile(file('plan.dwg', 1, 'application/acad'), accept)).toBe(false);
+    expect(acceptsFile(file('plan.dwg', 1), [])).toBe(true);
+  });
+});
+
+describe('validateAttachments', () => {
+  it('rejects files that break a limit and keeps the others in order', () => {
+    const current = [file('a.pdf', 40)];
+    const { files, rejected } = validateAttachments(
+      current,
+      [file('b.dwg', 1), file('c.pdf', 60), file('d.pdf', 30), file('e.pdf', 20), file('f.pdf', 15)],
+      { accept: ['.pdf'], maxFileSize: 50, maxTotalSize: 100, maxFiles: 3 }
+    );
+    expect(files.map((f) => f.name)).toEqual(['a.pdf', 'd.pdf', 'e.pdf']);
+    expect(rejected.map(({ file: f, error }) => [f.name, error])).toEqual([
+      ['b.dwg', 'type'], ['c.pdf', 'size'], ['f.pdf', 'total'],
+    ]);
+  });
+
+  it('limits the number of files', () => {
+    const { rejected } = validateAttachments([file('a.pdf', 1)], [file('b.pdf', 1)], { maxFiles: 1 });
+    expect(rejected[0].error).toBe('count');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses B, KB and MB', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(340 * 1024)).toBe('340 KB');
+    expect(formatFileSize(2.5 * 1024 * 1024)).toBe('2,5 MB');
+    expect(formatFileSize(2.5 * 1024 * 1024, 'en')).toBe('2.5 MB');
+  });
+});
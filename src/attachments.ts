@@ -0,0 +1,103 @@
+/**
+ * Attachments
+ * File type and size limits for the files a customer attaches to an inquiry
+ * (layout sketch, photo of the site, own STEP file).
+ */
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface AttachmentOptions {
+  /**
+   * Allowed files: extensions (".step") and MIME types ("application/pdf",
+   * "image/*") - default: any file
+   */
+  accept?: string[];
+  /** Max. size per file in bytes (default: 10 MB) */
+  maxFileSize?: number;
+  /** Max. size of all files together in bytes (default: 25 MB) */
+  maxTotalSize?: number;
+  /** Max. number of files (default: 10) */
+  maxFiles?: number;
+}
+
+export type AttachmentError = 'type' | 'size' | 'total' | 'count';
+
+export interface RejectedAttachment {
+  file: File;
+  error: AttachmentError;
+}
+
+// ─── Limits ──────────────────────────────────────────────────
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_ATTACHMENT_OPTIONS: Required<AttachmentOptions> = {
+  accept: [],
+  maxFileSize: 10 * MB,
+  maxTotalSize: 25 * MB,
+  maxFiles: 10,
+};
+
+/** Options with defaults - `true` = default limits */
+export const resolveAttachmentOptions = (options: AttachmentOptions | boolean = true): Required<AttachmentOptions> => ({
+  ...DEFAULT_ATTACHMENT_OPTIONS,
+  ...(typeof options === 'object' ? options : {}),
+});
+
+/** Does the file match one of the accepted extensions / MIME types? Empty list = any file */
+export const acceptsFile = (file: File, accept: string[]): boolean => {
+  if (accept.length === 0) return true;
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return accept.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+};
+
+/**
+ * Check files added to the current attachments - files that break a limit
+ * are rejected, the others are appended in order.
+ *
+ * @example
+ * const { files, rejected } = validateAttachments(current, [...input.files], { accept: ['.step', 'image/*'] });
+ */
+export const validateAttachments = (
+  current: File[],
+  added: File[],
+  options: AttachmentOptions | boolean = true
+): { files: File[]; rejected: RejectedAttachment[] } => {
+  const { accept, maxFileSize, maxTotalSize, maxFiles } = resolveAttachmentOptions(options);
+  const files = [...current];
+  const rejected: RejectedAttachment[] = [];
+  let total = current.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of added) {
+    let error: AttachmentError | null = null;
+    if (!acceptsFile(file, accept)) error = 'type';
+    else if (file.size > maxFileSize) error = 'size';
+    else if (total + file.size > maxTotalSize) error = 'total';
+    else if (files.length >= maxFiles) error = 'count';
+
+    if (error) {
+      rejected.push({ file, error });
+    } else {
+      files.push(file);
+      total += file.size;
+    }
+  }
+  return { files, rejected };
+};
+
+// ─── Formatting ──────────────────────────────────────────────
+
+/** "512 B", "340 KB", "2,5 MB" (de) */
+export const formatFileSize = (bytes: number, locale = 'de'): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toLocaleString(locale, { maximumFractionDigits: 1 })} MB`;
+};
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
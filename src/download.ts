@@ -0,0 +1,24 @@
+/**
+ * File downloads
+ * Save generated content (e.g. a .eml draft) via a temporary object URL.
+ */
+
+/** Offer content as a file download */
+export const downloadFile = (
+  filename: string,
+  content: string | Uint8Array | Blob,
+  type = 'application/octet-stream'
+): void => {
+  // Typed as plain Uint8Array: Uint8Array<ArrayBuffer> in the published typings needs TS 5.7
+  const blob = content instanceof Blob ? content : new Blob([content as BlobPart], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Firefox starts the download asynchronously - revoking right away cancels it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useEmailComposer } from './emailComposer';
+
+const options = {
+  title: 'CAD Anfrage',
+  emailTo: 'cad-data@syskomp-group.com',
+  subjectText: 'Artnr: 12345',
+  bodyWithoutContact: 'Bitte senden Sie mir die CAD-Daten.',
+  inquiryNumber: '20260101-120000-ABCD',
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('useEmailComposer', () => {
+  it('builds subject, body and mailto link', () => {
+    const { result } = renderHook(() => useEmailComposer(options));
+    act(() => result.current.updateContact('name', 'Max Mustermann'));
+
+    expect(result.current.subject).toBe('CAD Anfrage Artnr: 12345 #20260101-120000-ABCD');
+    expect(result.current.body).toBe('Bitte senden Sie mir die CAD-Daten.\n\nName: Max Mustermann\nTelefon: \nFirma: ');
+    expect(result.current.fullText).toMatch(/^An: cad-data@syskomp-group.com\nBetreff: CAD Anfrage/);
+    expect(result.current.mailtoLink).toBe(
+      `mailto:cad-data@syskomp-group.com?subject=${encodeURIComponent(result.current.subject)}&body=${encodeURIComponent(result.current.body)}`
+    );
+  });
+
+  it('restores and persists the contact data', () => {
+    localStorage.setItem('syskomp-email-contact', JSON.stringify({ name: 'Anna', company: 'Test GmbH' }));
+    const { result } = renderHook(() => useEmailComposer(options));
+    expect(result.current.contact).toEqual({ name: 'Anna', phone: '', company: 'Test GmbH' });
+
+    act(() => result.current.updateContact('phone', '+49 301234567'));
+    expect(JSON.parse(localStorage.getItem('syskomp-email-contact')!).phone).toBe('+49 301234567');
+    expect(result.current.body).toContain('Telefon: +49 301234567 [hat um Rückruf gebeten]');
+  });
+
+  it('reports the copy result', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const { result } = renderHook(() => useEmailComposer(options));
+
+    await act(async () => {
+      expect(await result.current.copyText()).toBe(true);
+    });
+    expect(writeText).toHaveBeenCalledWith(result.current.fullText);
+    expect(result.current.copyStatus).toBe('success');
+  });
+
+  it('calls onEmailSent after opening the mail program', async () => {
+    const onEmailSent = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const { result } = renderHook(() => useEmailComposer({ ...options, onEmailSent }));
+
+    await act(() => result.current.openEmail());
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(onEmailSent).toHaveBeenCalledTimes(1);
+    click.mockRestore();
+  });
+
+  it('renders subject and body from a template', () => {
+    localStorage.setItem('syskomp-email-contact', JSON.stringify({ name: 'Anna', phone: '', company: '' }));
+    const template = {
+      subject: '[{{inquiryNumber}}] {{subjectText}}',
+      body: '{{body}}\nProjekt: {{project}}\nDatum: {{date}}\n{{#contact.phone}}\nBitte um Rückruf: {{contact.phone}}\n{{/contact.phone}}\nGruß {{contact.name}}',
+      locales: { en: { subject: '[{{inquiryNumber}}] Inquiry {{subjectText}}' } },
+    };
+    const { result } = renderHook(() =>
+      useEmailComposer({ ...options, template, templateData: { project: 'Halle 3' }, bodyLocale: 'en' })
+    );
+
+    expect(result.current.subject).toBe('[20260101-120000-ABCD] Inquiry Artnr: 12345');
+    expect(result.current.body).toBe(
+      `Bitte senden Sie mir die CAD-Daten.\nProjekt: Halle 3\nDatum: ${new Date().toLocaleDateString('en')}\nGruß Anna`
+    );
+
+    act(() => result.current.updateContact('phone', '0301234567'));
+    expect(result.current.body).toContain('\nBitte um Rückruf: +');
+  });
+
+  it('offers the phone number in E.164', () => {
+    const template = { subject: '{{subjectText}}', body: '{{contact.phone}} / {{contact.phoneE164}}' };
+    const { result } = renderHook(() => useEmailComposer({ ...options, template }));
+
+    act(() => result.current.updateContact('phone', '+49 (0)711 123456'));
+    expect(result.current.body).toBe('+49 711 123456 / +49711123456');
+    expect(result.current.phoneE164).toBe('+49711123456');
+  });
+
+  it('lists items as a table in the body and the HTML flavor', async () => {
+    const items = [
+      { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 2, unit: 'Stk', unitPrice: 450 },
+      { description: 'Montage', quantity: 1 },
+    ];
+    const { result } = renderHook(() => useEmailComposer({ ...options, items }));
+
+    expect(result.current.body).toBe(
+      'Bitte senden Sie mir die CAD-Daten.\n\n' +
+        'Art.-Nr.  Bezeichnung     Menge  Einzelpreis  Gesamtpreis\n' +
+        '---------------------------------------------------------\n' +
+        'SKR-50    Rollenförderer  2 Stk   450,00 EUR   900,00 EUR\n' +
+        '          Montage            1x  auf Anfrage\n' +
+        '---------------------------------------------------------\n' +
+        'Gesamt (netto):                                900,00 EUR\n\n' +
+        'Name: \nTelefon: \nFirma: '
+    );
+    expect(result.current.fullHtml).toContain('Bitte senden Sie mir die CAD-Daten.<br><br><table');
+    expect(result.current.fullHtml).toContain('</table><br><br>Name: <br>');
+
+    const write = vi.fn().mockResolvedValue(undefined);
+    const writeText = vi.fn();
+    vi.stubGlobal('ClipboardItem', class { constructor(public data: Record<string, Blob>) {} });
+    Object.defineProperty(navigator, 'clipboard', { value: { write, writeText }, configurable: true });
+    await act(async () => {
+      await result.current.copyText();
+    });
+    expect(writeText).not.toHaveBeenCalled();
+    expect(Object.keys(write.mock.calls[0][0][0].data)).toEqual(['text/plain', 'text/html']);
+    vi.unstubAllGlobals();
+  });
+
+  it('offers items and total to custom templates', () => {
+    const items = [{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }];
+    const template = { subject: '', body: '{{#itemList}}- {{quantity}} {{description}} ({{unitPrice}})\n{{/itemList}}Summe: {{total}}' };
+    const { result } = renderHook(() => useEmailComposer({ ...options, items, template }));
+    expect(result.current.body).toBe('- 2x Rollenförderer (450,00 EUR)\nSumme: 900,00 EUR');
+  });
+
+  it('downloads the mail as .eml draft', async () => {
+    const onEmailSent = vi.fn();
+    const createObjectURL = vi.fn().mockReturnValue('blob:eml');
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('20260101-120000-ABCD.eml');
+    });
+    const { result } = renderHook(() => useEmailComposer({ ...options, onEmailSent }));
+
+    act(() => result.current.downloadEml());
+    const blob: Blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('message/rfc822');
+    const eml = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    expect(eml).toContain('To: cad-data@syskomp-group.com\r\n');
+    expect(eml).toContain('Subject: CAD Anfrage Artnr: 12345 #20260101-120000-ABCD\r\n');
+    expect(eml).toContain('Bitte senden Sie mir die CAD-Daten.');
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(onEmailSent).toHaveBeenCalledTimes(1);
+    click.mockRestore();
+    vi.unstubAllGlobals();
+  });
+
+  it('opens too long mails with a short body and copies the full text', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const bodyWithoutContact = 'Förderstrecke mit Rollenbahn\n'.repeat(100);
+    const { result } = renderHook(() => useEmailComposer({ ...options, bodyWithoutContact }));
+
+    expect(result.current.mailtoTooLong).toBe(true);
+    expect(result.current.mailtoLink).toBe(
+      `mailto:cad-data@syskomp-group.com?subject=${encodeURIComponent(result.current.subject)}&body=${encodeURIComponent(
+        'Der vollständige Text zur Anfrage #20260101-120000-ABCD ist in der Zwischenablage – bitte hier einfügen.'
+      )}`
+    );
+    let copied = () => {};
+    writeText.mockReturnValueOnce(new Promise<void>((resolve) => { copied = resolve; }));
+    const opening = act(() => result.current.openEmail());
+    // The mail program opens without waiting for the clipboard
+    expect(click).toHaveBeenCalledTimes(1);
+    copied();
+    await opening;
+    expect(writeText).toHaveBeenCalledWith(result.current.body);
+    expect(result.current.mailtoFallback).toBe('copied');
+
+    act(() => result.current.updateContact('name', 'Anna'));
+    expect(result.current.mailtoFallback).toBe('none');
+    click.mockRestore();
+  });
+
+  it('honors a custom mailto length limit', () => {
+    const { result } = renderHook(() => useEmailComposer({ ...options, mailtoMaxLength: 100 }));
+    expect(result.current.mailtoTooLong).toBe(true);
+    expect(result.current.mailtoFallback).toBe('none');
+
+    const { result: unlimited } = renderHook(() => useEmailComposer({ ...options, mailtoMaxLength: Infinity }));
+    expect(unlimited.current.mailtoTooLong).toBe(false);
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Headless email composer
+ * Contact state, subject/body building, clipboard copy and mailto handling
+ * of the EmailModal - for hosts that need their own UI.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useI18n, formatMessage } from './i18n';
+import type { I18nOptions, Messages } from './i18n';
+import { loadFromStorage, saveToStorage } from './storage';
+import { useInquiryNumber } from './inquiryNumber';
+import type { InquiryNumberOptions } from './inquiryNumber';
+import { phoneCountryFromLocale, toE164, toInternationalPhone } from './phone';
+import { renderTemplate, resolveEmailTemplate } from './emailTemplate';
+import type { EmailTemplateDefinition } from './emailTemplate';
+import {
+  buildItemTable, calculatePrices, flattenItems, formatItemsHtml, formatItemsText, formatPrice, textToHtml,
+} from './items';
+import type { ItemTableOptions, PricingOptions, QuoteDisplayItem } from './items';
+import { buildEml } from './eml';
+import { downloadFile } from './download';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface EmailContactData {
+  name: string;
+  phone: string;
+  company: string;
+}
+
+/** Contact as passed to the templates */
+export interface EmailTemplateContact extends EmailContactData {
+  /** Readable international form, e.g. "+49 711 123456" */
+  phone: string;
+  /** Same number in E.164, e.g. "+49711123456" ('' if none) */
+  phoneE164: string;
+}
+
+export interface EmailComposerOptions extends I18nOptions, PricingOptions {
+  /** Email recipient */
+  emailTo: string;
+
+  /**
+   * Email subject (legacy - use subjectTitle + subjectText for new format)
+   * If subjectTitle and subjectText are provided, this will be ignored
+   */
+  subject?: string;
+
+  /**
+   * Subject title (e.g., "CAD", "Angebot")
+   * Used with subjectText to build: <title> <text> #<quotenr>
+   * If not provided, uses `title`
+   */
+  subjectTitle?: string;
+
+  /**
+   * Subject text from module (e.g., "Artnr: 12345", "Rollenförderer")
+   * Used with subjectTitle to build: <title> <text> #<quotenr>
+   */
+  subjectText?: string;
+
+  /** Title of the inquiry (modal title) - subject title fallback */
+  title?: string;
+
+  /** Base email body (without contact info) - `{{body}}` in templates */
+  bodyWithoutContact?: string;
+
+  /**
+   * Subject / body template: a registered name or a definition
+   * (default: "<title> <text> #<nr>" subject, body + Name / Telefon / Firma)
+   */
+  template?: string | EmailTemplateDefinition;
+
+  /** Items listed in the body as a table - `{{items}}` in templates */
+  items?: QuoteDisplayItem[];
+
+  /** Show prices, line totals and totals in the item table (default: true) */
+  showPrices?: boolean;
+
+  /** Extra template values, e.g. `{ project: 'Halle 3' }` for `{{project}}` */
+  templateData?: Record<string, unknown>;
+
+  /**
+   * Longest mailto: URL to open as is (default: 2000 characters, safe for
+   * Outlook and Windows). Longer mails open with a short body pointing to the
+   * clipboard, which gets the full text.
+   */
+  mailtoMaxLength?: number;
+
+  /** Callback after the mail program was opened or the .eml draft was downloaded (optional) */
+  onEmailSent?: () => void;
+
+  /** Fixed inquiry number (e.g. assigned by the host) - generated on mount if omitted */
+  inquiryNumber?: string;
+
+  /** Format of the generated inquiry number (prefix, time zone, suffix, custom generator) */
+  inquiryNumberOptions?: InquiryNumberOptions;
+}
+
+/** Values available in subject and body templates */
+export interface EmailTemplateData extends Record<string, unknown> {
+  title: string;
+  /** subjectTitle, or the title if omitted */
+  subjectTitle: string;
+  subjectText: string;
+  /** Legacy fixed subject */
+  subject: string;
+  inquiryNumber: string;
+  /** Today in the body locale, e.g. "19.10.2026" */
+  date: string;
+  emailTo: string;
+  /** bodyWithoutContact */
+  body: string;
+  /** Item table (aligned plain text), empty without items */
+  items: string;
+  /** Items for custom layouts, e.g. `{{#itemList}}{{quantity}} {{description}}{{/itemList}}` */
+  itemList: EmailTemplateItem[];
+  /** Net total after discounts, e.g. "1.234,50 EUR" - empty without prices */
+  total: string;
+  /** Gross total - empty without prices or vatRate */
+  totalGross: string;
+  contact: EmailTemplateContact;
+  callbackRequested: boolean;
+  /** Messages of the body locale, e.g. `{{labels.bodyName}}` */
+  labels: Messages;
+}
+
+/** Item with formatted quantity and price - `itemList` entries */
+export interface EmailTemplateItem {
+  description: string;
+  articleNumber: string;
+  /** "2 Stk" / "2x" */
+  quantity: string;
+  /** Line discount, e.g. "10 %" - empty if none */
+  discount: string;
+  /** Unit price, or "auf Anfrage" - empty if prices are hidden */
+  unitPrice: string;
+  /** Quantity × unit price minus discount (assemblies: subtotal of the parts) - empty if prices are hidden */
+  lineTotal: string;
+  /** Nesting level - 0 for top-level items, 1 for parts of an assembly … */
+  depth: number;
+  /** The item has parts - they follow it in the list */
+  assembly: boolean;
+}
+
+export type CopyStatus = 'idle' | 'success' | 'failed';
+
+/** Clipboard handover of a too long mail: copied, copy failed, or not needed (yet) */
+export type MailtoFallback = 'none' | 'copied' | 'failed';
+
+export interface EmailComposer {
+  /** Contact data (restored from localStorage) */
+  contact: EmailContactData;
+  updateContact: (field: keyof EmailContactData, value: string) => void;
+  /** Country code for national phone numbers - the customer's browser locale */
+  phoneCountry: string;
+  /** Contact phone in E.164, e.g. "+49711123456" ('' if none) */
+  phoneE164: string;
+  inquiryNumber: string;
+  /** Rendered subject template */
+  subject: string;
+  /** Rendered body template (labels in the body locale) */
+  body: string;
+  /** "An: …\nBetreff: …\n\n<body>" - what copyText puts on the clipboard */
+  fullText: string;
+  /** Body as HTML - the item table as a real <table> */
+  bodyHtml: string;
+  /** HTML clipboard flavor of fullText */
+  fullHtml: string;
+  /** Link openEmail opens - with the shortened body if the full one is too long */
+  mailtoLink: string;
+  /** The full mail exceeds mailtoMaxLength */
+  mailtoTooLong: boolean;
+  /** Set by openEmail for too long mails - show the paste (or copy) hint. Back to "none" once the text changes */
+  mailtoFallback: MailtoFallback;
+  /** Result of the last copy - back to "idle" after a few seconds */
+  copyStatus: CopyStatus;
+  /** Copy fullText (and fullHtml), with the fallbacks needed in embedded iframes */
+  copyText: () => Promise<boolean>;
+  /**
+   * Open the mail program with subject and body, then call onEmailSent.
+   * Too long mails: open with the shortened body and copy the full one.
+   */
+  openEmail: () => Promise<void>;
+  /** Download the mail as .eml draft (plain text + HTML), then call onEmailSent */
+  downloadEml: () => void;
+}
+
+// ─── Browser Helpers ─────────────────────────────────────────
+
+/**
+ * Copy text via a hidden contentEditable + execCommand.
+ * Needed when the Clipboard API is unavailable OR rejects (e.g. cross-origin
+ * iframe without allow="clipboard-write", as on the syskomp landing page embed).
+ */
+const legacyCopy = (text: string, html: string): boolean => {
+  // contentEditable + Range selection is the copy path iOS accepts.
+  // A textarea's DOM range collapses the value to a single line, so use
+  // a div with white-space:pre-wrap — that keeps the line breaks.
+  const el = document.createElement('div');
+  el.contentEditable = 'true';
+  // innerText turns \n into <br>, so even the natural HTML clipboard
+  // flavor keeps the line structure
+  el.innerText = text;
+  el.style.position = 'fixed';
+  el.style.top = '0';
+  el.style.left = '0';
+  el.style.opacity = '0';
+  el.style.whiteSpace = 'pre-wrap';
+  document.body.appendChild(el);
+  el.focus();
+  const range = document.createRange();
+  range.selectNodeContents(el);
+  const selection = window.getSelection();
+  if (selection) {
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+  // Override what execCommand puts on the clipboard: exact plain text
+  // plus an HTML flavor with real <br> — apps that paste HTML (e.g.
+  // Outlook iOS) would otherwise collapse the newlines.
+  const setExactData = (e: Event) => {
+    const clip = (e as ClipboardEvent).clipboardData;
+    if (clip) {
+      clip.setData('text/plain', text);
+      clip.setData('text/html', html);
+      e.preventDefault();
+    }
+  };
+  document.addEventListener('copy', setExactData, true);
+  let ok = false;
+  try {
+    ok = document.execCommand('copy');
+  } catch {
+    ok = false;
+  }
+  document.removeEventListener('copy', setExactData, true);
+  document.body.removeChild(el);
+  if (selection) {
+    selection.removeAllRanges();
+  }
+  return ok;
+};
+
+/**
+ * Copy text to the clipboard - true on success.
+ * The HTML flavor defaults to the text with <br> line breaks.
+ */
+export const copyToClipboard = async (text: string, html: string = textToHtml(text)): Promise<boolean> => {
+  // In a cross-origin iframe (landing page embed) the async Clipboard API
+  // is usually blocked, and awaiting its rejected promise consumes the
+  // user activation that execCommand('copy') needs afterwards — so run the
+  // synchronous legacy path FIRST when embedded.
+  const embedded = window.self !== window.top;
+
+  let success = false;
+  if (embedded) {
+    success = legacyCopy(text, html);
+  }
+  if (!success && navigator.clipboard) {
+    try {
+      if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/plain': new Blob([text], { type: 'text/plain' }),
+            'text/html': new Blob([html], { type: 'text/html' }),
+          }),
+        ]);
+      } else {
+        await navigator.clipboard.writeText(text);
+      }
+      success = true;
+    } catch {
+      // blocked (permissions policy / iframe) → legacy path below
+    }
+  }
+  if (!success && !embedded) {
+    success = legacyCopy(text, html);
+  }
+  return success;
+};
+
+/** Open a mailto: link - also from inside an iframe on iOS */
+export const openMailto = (mailtoLink: string): void => {
+  // Anchor + native .click() instead of window.location.href:
+  // iOS/WebKit silently blocks mailto: location changes inside a
+  // (cross-origin) iframe, as on the syskomp landing page embed.
+  // target="_top" navigates the top-level browsing context — allowed with
+  // user activation, and mailto never actually leaves the page. Outside an
+  // iframe _top is the window itself, so behavior is unchanged there.
+  const link = document.createElement('a');
+  link.href = mailtoLink;
+  link.target = '_top';
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/** Default mailtoMaxLength - Outlook and the Windows URL handler cut off around 2048 */
+export const DEFAULT_MAILTO_MAX_LENGTH = 2000;
+
+const buildMailtoLink = (to: string, subject: string, body: string) =>
+  `mailto:${to}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+// ─── LocalStorage Persistence ────────────────────────────────
+
+const EMAIL_STORAGE_KEY = 'syskomp-email-contact';
+
+// ─── Hook ────────────────────────────────────────────────────
+
+// Stands in for the item table while rendering the HTML flavor
+const ITEMS_MARKER = '\u0000items\u0000';
+
+/**
+ * Everything the EmailModal does, without the UI.
+ *
+ * @example
+ * const mail = useEmailComposer({ emailTo: 'cad-data@syskomp-group.com', title: 'CAD', subjectText: 'Artnr: 12345', bodyWithoutContact });
+ * <input value={mail.contact.name} onChange={(e) => mail.updateContact('name', e.target.value)} />
+ * <a href={mail.mailtoLink}>E-Mail öffnen</a>
+ */
+export const useEmailComposer = (options: EmailComposerOptions): EmailComposer => {
+  const { emailTo, onEmailSent, items = [], showPrices = true } = options;
+  const { tb, bodyLocale } = useI18n(options);
+
+  const [contact, setContact] = useState<EmailContactData>(() => {
+    const saved = loadFromStorage<EmailContactData>(EMAIL_STORAGE_KEY);
+    return { name: saved.name || '', phone: saved.phone || '', company: saved.company || '' };
+  });
+  // Country code for national phone numbers - the customer's browser locale
+  const phoneCountry = useMemo(() => phoneCountryFromLocale(typeof navigator !== 'undefined' ? navigator.language : undefined), []);
+  const [copyStatus, setCopyStatus] = useState<CopyStatus>('idle');
+  // Hint of the last openEmail - only valid for the text it copied
+  const [lastFallback, setLastFallback] = useState<{ status: MailtoFallback; text: string }>({ status: 'none', text: '' });
+
+  // Persist contact data on change
+  useEffect(() => {
+    saveToStorage<EmailContactData>(EMAIL_STORAGE_KEY, contact);
+  }, [contact]);
+
+  const updateContact = (field: keyof EmailContactData, value: string) => {
+    setContact((prev) => ({ ...prev, [field]: value }));
+  };
+
+  // Generate inquiry number once when component mounts
+  const inquiryNumber = useInquiryNumber(options.inquiryNumberOptions, options.inquiryNumber);
+
+  // Date of the inquiry - fixed for the lifetime of the composer
+  const date = useMemo(() => new Date().toLocaleDateString(bodyLocale), [bodyLocale]);
+
+  // Subject and body from the template - labels use the body locale,
+  // the email is read by Syskomp, not the customer
+  const template = resolveEmailTemplate(options.template, bodyLocale);
+  const itemTable: ItemTableOptions = {
+    showPrices,
+    locale: bodyLocale,
+    labels: tb,
+    currency: options.currency,
+    priceLocale: options.priceLocale,
+    discountPercent: options.discountPercent,
+    vatRate: options.vatRate,
+  };
+  const { columns, rows } = buildItemTable(items, itemTable);
+  const prices = calculatePrices(items, itemTable);
+  const money = (amount: number) =>
+    formatPrice(amount, { currency: prices.currency, locale: options.priceLocale || bodyLocale });
+  const showTotal = showPrices && flattenItems(items).some((i) => i.unitPrice != null);
+  const data: EmailTemplateData = {
+    ...options.templateData,
+    title: options.title || '',
+    subjectTitle: options.subjectTitle || options.title || '',
+    subjectText: options.subjectText || '',
+    subject: options.subject || '',
+    inquiryNumber,
+    date,
+    emailTo,
+    body: options.bodyWithoutContact || '',
+    items: formatItemsText(items, itemTable),
+    itemList: rows.map(({ cells, depth, assembly }) => {
+      const entry: EmailTemplateItem = {
+        description: '', articleNumber: '', quantity: '', discount: '', unitPrice: '', lineTotal: '', depth, assembly,
+      };
+      columns.forEach((column, col) => { entry[column.key] = cells[col]; });
+      return entry;
+    }),
+    total: showTotal ? money(prices.net) : '',
+    totalGross: showTotal && prices.vatRate != null ? money(prices.gross) : '',
+    contact: {
+      ...contact,
+      phone: toInternationalPhone(contact.phone, phoneCountry),
+      phoneE164: toE164(contact.phone, phoneCountry),
+    },
+    callbackRequested: !!contact.phone.trim(),
+    labels: tb,
+  };
+  const emailSubject = renderTemplate(template.subject, data);
+  const body = renderTemplate(template.body, data);
+  const fullText = `${tb.bodyTo} ${emailTo}\n${tb.bodySubject} ${emailSubject}\n\n${body}`;
+  // Same body with the item table as HTML - rendered around a marker so
+  // custom templates keep their layout
+  const bodyHtml = textToHtml(renderTemplate(template.body, { ...data, items: data.items && ITEMS_MARKER }))
+    .split(ITEMS_MARKER)
+    .join(formatItemsHtml(items, itemTable));
+  const fullHtml = `${textToHtml(`${tb.bodyTo} ${emailTo}\n${tb.bodySubject} ${emailSubject}`)}<br><br>${bodyHtml}`;
+  const fullMailtoLink = buildMailtoLink(emailTo, emailSubject, body);
+  const mailtoTooLong = fullMailtoLink.length > (options.mailtoMaxLength ?? DEFAULT_MAILTO_MAX_LENGTH);
+  const mailtoLink = mailtoTooLong
+    ? buildMailtoLink(emailTo, emailSubject, formatMessage(tb.bodyShortened, { inquiryNumber }))
+    : fullMailtoLink;
+
+  const mailtoFallback = lastFallback.text === fullText ? lastFallback.status : 'none';
+
+  const copyText = async () => {
+    const success = await copyToClipboard(fullText, fullHtml);
+    setCopyStatus(success ? 'success' : 'failed');
+    if (success) {
+      setTimeout(() => setCopyStatus('idle'), 2000);
+    } else {
+      console.error('Copy to clipboard failed');
+      setTimeout(() => setCopyStatus('idle'), 3000);
+    }
+    return success;
+  };
+
+  const openEmail = async () => {
+    // Start the copy and open the mail program in the same click: awaiting
+    // the clipboard first can use up the user activation mailto: needs
+    const copying = mailtoTooLong ? copyToClipboard(body, bodyHtml) : undefined;
+    openMailto(mailtoLink);
+    onEmailSent?.();
+    if (copying) {
+      const copied = await copying;
+      setLastFallback({ status: copied ? 'copied' : 'failed', text: fullText });
+    }
+  };
+
+  const downloadEml = () => {
+    const eml = buildEml({ to: emailTo, subject: emailSubject, text: body, html: bodyHtml });
+    downloadFile(`${inquiryNumber || 'email'}.eml`, eml, 'message/rfc822');
+    onEmailSent?.();
+  };
+
+  return {
+    contact,
+    updateContact,
+    phoneCountry,
+    phoneE164: data.contact.phoneE164,
+    inquiryNumber,
+    subject: emailSubject,
+    body,
+    fullText,
+    bodyHtml,
+    fullHtml,
+    mailtoLink,
+    mailtoTooLong,
+    mailtoFallback,
+    copyStatus,
+    copyText,
+    openEmail,
+    downloadEml,
+  };
+};
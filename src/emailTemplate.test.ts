@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  renderTemplate, resolveEmailTemplate, registerEmailTemplate, getEmailTemplate, DEFAULT_EMAIL_TEMPLATE,
+} from './emailTemplate';
+
+describe('emailTemplate', () => {
+  it('fills dotted placeholders', () => {
+    expect(renderTemplate('{{ contact.name }} ({{contact.company}}) {{missing}}#{{nr}}', {
+      contact: { name: 'Max', company: 'Test GmbH' },
+      nr: 42,
+    })).toBe('Max (Test GmbH) #42');
+  });
+
+  it('renders sections only if the value is set', () => {
+    const template = 'Tel. {{phone}}{{#phone}} [Rückruf]{{/phone}}{{^phone}}–{{/phone}}';
+    expect(renderTemplate(template, { phone: '+49 301234567' })).toBe('Tel. +49 301234567 [Rückruf]');
+    expect(renderTemplate(template, { phone: '  ' })).toBe('Tel.   –');
+  });
+
+  it('repeats sections per array entry', () => {
+    const data = { items: [{ quantity: 2, description: 'SKR-50' }, { quantity: 1, description: 'SKRK-30' }], tags: ['a', 'b'] };
+    expect(renderTemplate('{{#items}}{{quantity}} × {{description}}\n{{/items}}', data)).toBe('2 × SKR-50\n1 × SKRK-30\n');
+    expect(renderTemplate('{{#tags}}[{{.}}]{{/tags}}', data)).toBe('[a][b]');
+    expect(renderTemplate('{{tags}}', data)).toBe('a\nb');
+  });
+
+  it('drops lines that only hold a section tag', () => {
+    const template = 'Name: {{name}}\n{{#phone}}\nTelefon: {{phone}}\n{{/phone}}\nFirma: {{company}}';
+    expect(renderTemplate(template, { name: 'Max', phone: '', company: 'X' })).toBe('Name: Max\nFirma: X');
+    expect(renderTemplate(template, { name: 'Max', phone: '123', company: 'X' })).toBe('Name: Max\nTelefon: 123\nFirma: X');
+  });
+
+  it('rejects unbalanced sections', () => {
+    expect(() => renderTemplate('{{#a}}x', {})).toThrow('Unclosed {{#a}}');
+    expect(() => renderTemplate('{{#a}}x{{/b}}', {})).toThrow('Unexpected {{/b}}');
+  });
+
+  it('picks the locale variant and falls back per part', () => {
+    const template = { subject: 'Anfrage {{nr}}', body: 'Hallo', locales: { en: { subject: 'Inquiry {{nr}}' } } };
+    expect(resolveEmailTemplate(template, 'en')).toEqual({ subject: 'Inquiry {{nr}}', body: 'Hallo' });
+    expect(resolveEmailTemplate(template, 'fr')).toEqual({ subject: 'Anfrage {{nr}}', body: 'Hallo' });
+  });
+
+  it('looks up registered templates by name', () => {
+    registerEmailTemplate('cad', { subject: 'CAD {{subjectText}}', body: '{{body}}' });
+    expect(getEmailTemplate('cad')?.subject).toBe('CAD {{subjectText}}');
+    expect(resolveEmailTemplate('cad', 'de').subject).toBe('CAD {{subjectText}}');
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(resolveEmailTemplate('unknown', 'de').subject).toBe(DEFAULT_EMAIL_TEMPLATE.subject);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('checks templates when they are registered', () => {
+    expect(() => registerEmailTemplate('broken', { subject: 'x', body: '{{#items}}{{items}}' })).toThrow('Unclosed {{#items}}');
+    expect(() => registerEmailTemplate('broken', {
+      subject: 'x', body: 'y', locales: { en: { subject: '{{/a}}' } },
+    })).toThrow('Unexpected {{/a}}');
+    expect(getEmailTemplate('broken')).toBeUndefined();
+  });
+
+  it('falls back to the default template for invalid inline templates', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = { subject: 'x', body: '{{#items}}{{items}}' };
+    expect(resolveEmailTemplate(broken, 'de')).toEqual(DEFAULT_EMAIL_TEMPLATE);
+    expect(resolveEmailTemplate(broken, 'de')).toEqual(DEFAULT_EMAIL_TEMPLATE);
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Email templates
+ * Mustache-style templates for the EmailModal subject and body (plain text, no escaping):
+ *
+ * - `{{contact.name}}` - value (arrays: one entry per line, missing: empty)
+ * - `{{#contact.phone}}…{{/contact.phone}}` - only if set; repeated per entry for arrays
+ * - `{{^contact.phone}}…{{/contact.phone}}` - only if empty
+ * - `{{.}}` - the current array entry
+ *
+ * Section tags alone on a line don't leave an empty line behind.
+ */
+
+import type { SupportedLocale } from './i18n';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface EmailTemplateDefinition extends EmailTemplate {
+  /** Variants per body locale - missing parts fall back to `subject` / `body` */
+  locales?: Partial<Record<SupportedLocale, Partial<EmailTemplate>>>;
+}
+
+// ─── Parser ──────────────────────────────────────────────────
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | { type: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([\w.-]+)\s*\}\}/g;
+
+const parse = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const open: { path: string; children: TemplateNode[] }[] = [{ path: '', children: root }];
+  const tags = new RegExp(TAG_PATTERN);
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(template))) {
+    const [tag, sigil, path] = match;
+    let start = match.index;
+    let end = start + tag.length;
+
+    // A section tag alone on its line takes the whole line with it
+    // (lineStart < last: another tag precedes it on the same line)
+    if (sigil) {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      const newline = template.indexOf('\n', end);
+      const lineEnd = newline === -1 ? template.length : newline + 1;
+      if (lineStart >= last && !template.slice(lineStart, start).trim() && !template.slice(end, lineEnd).trim()) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    const current = open[open.length - 1];
+    if (start > last) current.children.push({ type: 'text', value: template.slice(last, start) });
+    last = end;
+
+    if (sigil === '#' || sigil === '^') {
+      const section: TemplateNode = { type: 'section', path, inverted: sigil === '^', children: [] };
+      current.children.push(section);
+      open.push({ path, children: section.children });
+    } else if (sigil === '/') {
+      if (open.length === 1 || current.path !== path) {
+        throw new Error(`Unexpected {{/${path}}} in email template`);
+      }
+      open.pop();
+    } else {
+      current.children.push({ type: 'variable', path });
+    }
+  }
+
+  if (open.length > 1) throw new Error(`Unclosed {{#${open[open.length - 1].path}}} in email template`);
+  if (last < template.length) root.push({ type: 'text', value: template.slice(last) });
+  return root;
+};
+
+// ─── Renderer ────────────────────────────────────────────────
+
+/** Value of a dotted path - searched from the innermost section outwards */
+const lookup = (path: string, scopes: unknown[]): unknown => {
+  if (path === '.') return scopes[scopes.length - 1];
+  const [head, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope && typeof scope === 'object' && head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (scope as Record<string, unknown>)[head]
+      );
+    }
+  }
+  return undefined;
+};
+
+/** Empty strings (also whitespace only) and empty arrays count as not set */
+const isSet = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return !!value;
+};
+
+const toText = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(toText).join('\n');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: unknown[]): string =>
+  nodes.map((node) => {
+    if (node.type === 'text') return node.value;
+    const value = lookup(node.path, scopes);
+    if (node.type === 'variable') return toText(value);
+    if (node.inverted) return isSet(value) ? '' : renderNodes(node.children, scopes);
+    if (!isSet(value)) return '';
+    if (Array.isArray(value)) return value.map((entry) => renderNodes(node.children, [...scopes, entry])).join('');
+    return renderNodes(node.children, typeof value === 'object' ? [...scopes, value] : scopes);
+  }).join('');
+
+// Parse results by source (also the errors) - there are only a few
+// templates, rendered on every keystroke
+const parsed = new Map<string, TemplateNode[] | Error>();
+const MAX_PARSED = 50;
+
+const parseCached = (template: string): TemplateNode[] => {
+  let result = parsed.get(template);
+  if (!result) {
+    try {
+      result = parse(template);
+    } catch (error) {
+      result = error as Error;
+    }
+    if (parsed.size >= MAX_PARSED) parsed.clear();
+    parsed.set(template, result);
+  }
+  if (result instanceof Error) throw result;
+  return result;
+};
+
+/**
+ * Fill a template with data. Throws on unbalanced section tags.
+ *
+ * @example
+ * renderTemplate('{{name}}{{#phone}}, Tel. {{phone}}{{/phone}}', { name: 'Max', phone: '' }) // "Max"
+ */
+export const renderTemplate = (template: string, data: object): string =>
+  renderNodes(parseCached(template), [data]);
+
+/** Throws on unbalanced section tags in the subject, the body or a locale variant */
+const checkTemplate = (template: EmailTemplateDefinition): void => {
+  const parts = [template, ...Object.values(template.locales ?? {})];
+  for (const part of parts) {
+    if (part?.subject !== undefined) parseCached(part.subject);
+    if (part?.body !== undefined) parseCached(part.body);
+  }
+};
+
+// ─── Templates ───────────────────────────────────────────────
+
+/** The classic EmailModal layout: "<title> <text> #<nr>", item table and Name / Telefon / Firma lines */
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplateDefinition = {
+  subject:
+    '{{#subjectText}}{{subjectTitle}} {{subjectText}} #{{inquiryNumber}}{{/subjectText}}' +
+    '{{^subjectText}}{{subject}}{{/subjectText}}',
+  body:
+    '{{body}}\n\n' +
+    '{{#items}}{{items}}\n\n{{/items}}' +
+    '{{labels.bodyName}} {{contact.name}}\n' +
+    '{{labels.bodyPhone}} {{contact.phone}}{{#callbackRequested}} {{labels.bodyCallbackRequested}}{{/callbackRequested}}\n' +
+    '{{labels.bodyCompany}} {{contact.company}}',
+};
+
+const templates = new Map<string, EmailTemplateDefinition>([['default', DEFAULT_EMAIL_TEMPLATE]]);
+// Invalid inline templates are reported once, not on every render
+const reportedTemplates = new WeakSet<EmailTemplateDefinition>();
+
+/**
+ * Make a template available by name (e.g. `template="cad"`) - replaces one
+ * with the same name. Throws on unbalanced section tags, so a broken template
+ * fails here and not while the modal renders.
+ */
+export const registerEmailTemplate = (name: string, template: EmailTemplateDefinition): void => {
+  checkTemplate(template);
+  templates.set(name, template);
+};
+
+/** Registered template by name (undefined if unknown) */
+export const getEmailTemplate = (name: string): EmailTemplateDefinition | undefined => templates.get(name);
+
+/**
+ * Subject and body for the body locale. Unknown names and templates with
+ * unbalanced section tags fall back to the default template (with a console
+ * warning / error).
+ */
+export const resolveEmailTemplate = (
+  template: string | EmailTemplateDefinition | undefined,
+  locale: SupportedLocale
+): EmailTemplate => {
+  let definition = typeof template === 'string' ? templates.get(template) : template;
+  if (!definition) {
+    if (typeof template === 'string') console.warn(`Unknown email template "${template}" - using the default`);
+    definition = DEFAULT_EMAIL_TEMPLATE;
+  }
+  try {
+    checkTemplate(definition);
+  } catch (error) {
+    if (!reportedTemplates.has(definition)) {
+      reportedTemplates.add(definition);
+      console.error(`Invalid email template - using the default: ${(error as Error).message}`);
+    }
+    definition = DEFAULT_EMAIL_TEMPLATE;
+  }
+  const variant = definition.locales?.[locale];
+  return {
+    subject: variant?.subject ?? definition.subject,
+    body: variant?.body ?? definition.body,
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildEml, encodeHeaderValue, encodeQuotedPrintable } from './eml';
+
+describe('encodeQuotedPrintable', () => {
+  it('encodes umlauts as UTF-8 bytes and keeps ASCII readable', () => {
+    expect(encodeQuotedPrintable('Grüße, Max')).toBe('Gr=C3=BC=C3=9Fe, Max');
+    expect(encodeQuotedPrintable('a=b')).toBe('a=3Db');
+  });
+
+  it('uses CRLF line breaks and encodes trailing spaces', () => {
+    expect(encodeQuotedPrintable('Telefon: \nFirma:')).toBe('Telefon:=20\r\nFirma:');
+  });
+
+  it('wraps long lines with soft breaks', () => {
+    const encoded = encodeQuotedPrintable('ä'.repeat(40));
+    const lines = encoded.split('\r\n');
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+    expect(lines.slice(0, -1).every((line) => line.endsWith('='))).toBe(true);
+    expect(encoded.replace(/=\r\n/g, '')).toBe('=C3=A4'.repeat(40));
+  });
+});
+
+describe('encodeHeaderValue', () => {
+  it('keeps ASCII values unchanged', () => {
+    expect(encodeHeaderValue('CAD Anfrage #123')).toBe('CAD Anfrage #123');
+  });
+
+  it('encodes non-ASCII values as encoded words', () => {
+    expect(encodeHeaderValue('Anfrage Rollenförderer')).toBe('=?UTF-8?Q?Anfrage_Rollenf=C3=B6rderer?=');
+  });
+
+  it('folds long values into words of at most 75 characters', () => {
+    const lines = encodeHeaderValue('Förderstrecke '.repeat(8)).split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.every((line) => line.trim().length <= 75)).toBe(true);
+  });
+});
+
+describe('buildEml', () => {
+  const eml = buildEml({
+    to: 'vertrieb@syskomp-group.com',
+    subject: 'Angebot Rollenförderer',
+    text: 'Grüße\nMax',
+    html: 'Grüße<br><table></table>',
+    date: new Date(Date.UTC(2026, 9, 19, 14, 3)),
+    boundary: 'BOUNDARY',
+  });
+
+  it('writes the headers of an unsent draft', () => {
+    const [headers] = eml.split('\r\n\r\n');
+    expect(headers.split('\r\n')).toEqual([
+      'MIME-Version: 1.0',
+      'Date: Mon, 19 Oct 2026 14:03:00 +0000',
+      'To: vertrieb@syskomp-group.com',
+      'Subject: =?UTF-8?Q?Angebot_Rollenf=C3=B6rderer?=',
+      'X-Unsent: 1',
+      'Content-Type: multipart/alternative; boundary="BOUNDARY"',
+    ]);
+  });
+
+  it('contains a plain-text and an HTML part', () => {
+    expect(eml).toContain(
+      '--BOUNDARY\r\nContent-Type: text/plain; charset=UTF-8\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\nGr=C3=BC=C3=9Fe\r\nMax\r\n'
+    );
+    expect(eml).toContain('--BOUNDARY\r\nContent-Type: text/html; charset=UTF-8');
+    expect(eml).toContain('Gr=C3=BC=C3=9Fe<br><table></table>');
+    expect(eml.endsWith('--BOUNDARY--\r\n')).toBe(true);
+    expect(eml).not.toMatch(/[^\r]\n/);
+  });
+});
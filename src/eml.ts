@@ -0,0 +1,129 @@
+/**
+ * .eml drafts
+ * RFC 5322 / MIME messages (multipart/alternative: plain text + HTML) that
+ * Outlook and Thunderbird open as a ready-to-send mail - the fallback for
+ * PCs without a configured mailto: handler.
+ */
+
+import { textToHtml } from './items';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface EmlMessage {
+  to: string;
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** HTML body (inner part of <body>) - plain text with <br> if omitted */
+  html?: string;
+  /** Date header (default: now) */
+  date?: Date;
+  /** MIME boundary (default: random) */
+  boundary?: string;
+}
+
+// ─── Encoding ────────────────────────────────────────────────
+
+const CRLF = '\r\n';
+
+const hex = (byte: number) => '=' + byte.toString(16).toUpperCase().padStart(2, '0');
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Quoted-printable body encoding (RFC 2045) of the UTF-8 bytes:
+ * CRLF line breaks, soft breaks keep lines at 76 characters.
+ *
+ * @example
+ * encodeQuotedPrintable('Grüße') // "Gr=C3=BC=C3=9Fe"
+ */
+export const encodeQuotedPrintable = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map((line) => {
+      const bytes = utf8(line);
+      let encoded = '';
+      let length = 0;
+      bytes.forEach((byte, i) => {
+        // Spaces and tabs only stay literal when not at the end of the line
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && i < bytes.length - 1);
+        const token = literal ? String.fromCharCode(byte) : hex(byte);
+        if (length + token.length > 75) {
+          encoded += '=' + CRLF;
+          length = 0;
+        }
+        encoded += token;
+        length += token.length;
+      });
+      return encoded;
+    })
+    .join(CRLF);
+
+/**
+ * Header value as RFC 2047 encoded words ("=?UTF-8?Q?…?=") if it contains
+ * non-ASCII characters - long values are folded onto continuation lines.
+ *
+ * @example
+ * encodeHeaderValue('Anfrage Rollenförderer') // "=?UTF-8?Q?Anfrage_Rollenf=C3=B6rderer?="
+ */
+export const encodeHeaderValue = (value: string): string => {
+  if (/^[\x20-\x7e]*$/.test(value) && !value.includes('=?')) return value;
+
+  // Encoded words are at most 75 characters: "=?UTF-8?Q?" + 63 + "?="
+  const words: string[] = [];
+  let word = '';
+  for (const char of value) {
+    const token = /^[A-Za-z0-9!*+\-/]$/.test(char)
+      ? char
+      : char === ' '
+        ? '_'
+        : Array.from(utf8(char), hex).join('');
+    if (word.length + token.length > 63) {
+      words.push(word);
+      word = '';
+    }
+    word += token;
+  }
+  words.push(word);
+  return words.map((w) => `=?UTF-8?Q?${w}?=`).join(CRLF + ' ');
+};
+
+/** Date header format, e.g. "Mon, 19 Oct 2026 14:03:00 +0000" */
+const formatDate = (date: Date) => date.toUTCString().replace(/GMT$/, '+0000');
+
+// ─── Message ─────────────────────────────────────────────────
+
+/**
+ * Build a .eml draft. `X-Unsent: 1` makes Outlook open it in compose mode
+ * (Thunderbird: "Edit as New Message").
+ */
+export const buildEml = ({ to, subject, text, html, date = new Date(), boundary }: EmlMessage): string => {
+  const separator = boundary ?? `----=_syskomp_${Math.random().toString(36).slice(2, 14)}`;
+  const htmlDocument =
+    '<!DOCTYPE html>\n<html>\n<head><meta charset="utf-8"></head>\n' +
+    `<body style="font-family:sans-serif">${html ?? textToHtml(text)}</body>\n</html>`;
+
+  const part = (type: string, content: string) =>
+    [
+      `--${separator}`,
+      `Content-Type: ${type}; charset=UTF-8`,
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      encodeQuotedPrintable(content),
+    ].join(CRLF);
+
+  return [
+    'MIME-Version: 1.0',
+    `Date: ${formatDate(date)}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeaderValue(subject)}`,
+    'X-Unsent: 1',
+    `Content-Type: multipart/alternative; boundary="${separator}"`,
+    '',
+    part('text/plain', text),
+    part('text/html', htmlDocument),
+    `--${separator}--`,
+    '',
+  ].join(CRLF);
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { MESSAGES, resolveLocale, formatMessage, getMessages, SyskompI18nProvider, useI18n } from './i18n';
+
+const Probe: React.FC<{ locale?: 'de' | 'en' }> = ({ locale }) => {
+  const { t, tb } = useI18n({ locale });
+  return <p>{t.close} / {tb.bodyPhone}</p>;
+};
+
+describe('i18n', () => {
+  it('has a complete catalogue for every locale', () => {
+    const keys = Object.keys(MESSAGES.de).sort();
+    for (const catalogue of Object.values(MESSAGES)) {
+      expect(Object.keys(catalogue).sort()).toEqual(keys);
+      for (const value of Object.values(catalogue)) expect(value).not.toBe('');
+    }
+  });
+
+  it('resolves BCP 47 tags and falls back to German', () => {
+    expect(resolveLocale('fr-BE')).toBe('fr');
+    expect(resolveLocale('nl_NL')).toBe('nl');
+    expect(resolveLocale('cs-CZ')).toBe('de');
+    expect(resolveLocale(undefined)).toBe('de');
+    expect(resolveLocale('constructor')).toBe('de');
+    expect(resolveLocale('__proto__')).toBe('de');
+  });
+
+  it('formats placeholders and keeps unknown ones', () => {
+    expect(formatMessage('Artikel ({count})', { count: 3 })).toBe('Artikel (3)');
+    expect(formatMessage('{a} {b}', { a: 'x' })).toBe('x {b}');
+  });
+
+  it('applies single-string overrides', () => {
+    const t = getMessages('en', { close: 'Dismiss' });
+    expect(t.close).toBe('Dismiss');
+    expect(t.cancel).toBe('Cancel');
+  });
+
+  it('keeps the body locale German when only the UI locale changes', () => {
+    render(
+      <SyskompI18nProvider locale="en">
+        <Probe />
+      </SyskompI18nProvider>
+    );
+    expect(screen.getByText('Close / Telefon:')).toBeInTheDocument();
+  });
+
+  it('lets component props win over the provider', () => {
+    render(
+      <SyskompI18nProvider locale="en" messages={{ close: 'Dismiss' }}>
+        <Probe locale="de" />
+      </SyskompI18nProvider>
+    );
+    expect(screen.getByText('Dismiss / Telefon:')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,829 @@
+/**
+ * Shared i18n for Syskomp modals
+ * Message catalogues (de/en/fr/nl/pl), locale provider and lookup hook.
+ *
+ * Two languages are resolved independently:
+ * - UI locale: labels, buttons, placeholders shown to the customer
+ * - body locale: text generated for the sales team (email body, callback marker),
+ *   defaults to German so Syskomp always receives German inquiries
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export type SupportedLocale = 'de' | 'en' | 'fr' | 'nl' | 'pl';
+
+export interface Messages {
+  // Common
+  close: string;
+  cancel: string;
+  apply: string;
+  optional: string;
+
+  // Callback phone popover
+  callbackButton: string;
+  callbackButtonLong: string;
+  callbackActive: string;
+  callbackDialogTitle: string;
+  callbackDialogHint: string;
+  phonePlaceholder: string;
+  phoneCountryLabel: string;
+  phoneInvalid: string;
+  removePhone: string;
+
+  // EmailModal
+  emailTo: string;
+  emailSubject: string;
+  contactIntro: string;
+  nameLabel: string;
+  phoneLabel: string;
+  companyLabel: string;
+  copyText: string;
+  copySuccess: string;
+  copyFailed: string;
+  openEmail: string;
+  downloadEml: string;
+  mailtoPasteHint: string;
+  mailtoCopyHint: string;
+  emailPreview: string;
+
+  // QuoteModal
+  quoteTitle: string;
+  inquiryNumber: string;
+  contactSection: string;
+  salutation: string;
+  salutationMr: string;
+  salutationMs: string;
+  firstName: string;
+  lastName: string;
+  department: string;
+  email: string;
+  company: string;
+  vatId: string;
+  street: string;
+  houseNumber: string;
+  country: string;
+  zip: string;
+  city: string;
+  cityPicker: string;
+  cityPickerPlaceholder: string;
+  selectPlaceholder: string;
+  noteSection: string;
+  notePlaceholder: string;
+  attachmentsSection: string;
+  attachmentsDrop: string;
+  attachmentsBrowse: string;
+  attachmentsLimits: string;
+  attachmentsTypes: string;
+  removeAttachment: string;
+  errorAttachmentType: string;
+  errorAttachmentSize: string;
+  errorAttachmentTotal: string;
+  errorAttachmentCount: string;
+  privacyNotice: string;
+  submit: string;
+  submitHint: string;
+  submitting: string;
+  itemsTitle: string;
+  subtotalNet: string;
+  totalNet: string;
+  discountTotal: string;
+  vatAmount: string;
+  totalGross: string;
+  priceOnRequest: string;
+  itemPosition: string;
+  itemArticleNumber: string;
+  itemDescription: string;
+  itemQuantity: string;
+  itemUnit: string;
+  itemUnitPrice: string;
+  itemLineTotal: string;
+  itemDiscount: string;
+  itemQuantityOf: string;
+  decreaseQuantity: string;
+  increaseQuantity: string;
+  removeItem: string;
+  itemsEmpty: string;
+  exportCsv: string;
+  exportXlsx: string;
+  print: string;
+  printInquiryNumber: string;
+  printDate: string;
+  printContact: string;
+  printDescription: string;
+  submitSuccess: string;
+  submitFailed: string;
+  submitUnexpectedError: string;
+  /** Submit stored in the outbox (offline / server unreachable) */
+  submitQueued: string;
+  /** No connection, but the outbox cannot store attachments */
+  submitNotQueued: string;
+  /** onSubmit did not answer within submitTimeout */
+  submitTimeout: string;
+
+  // Validation
+  errorRequired: string;
+  errorRequiredCheckbox: string;
+  errorInvalidEmail: string;
+  errorInvalidZip: string;
+  errorInvalidHouseNumber: string;
+  errorInvalidVatId: string;
+  errorVatIdChecksum: string;
+  errorVatIdCountry: string;
+  errorSummary: string;
+
+  // Generated text for Syskomp (used with the body locale)
+  bodyTo: string;
+  bodySubject: string;
+  bodyName: string;
+  bodyPhone: string;
+  bodyCompany: string;
+  bodyCallbackRequested: string;
+  bodyShortened: string;
+}
+
+// ─── Catalogues ──────────────────────────────────────────────
+
+const de: Messages = {
+  close: 'Schließen',
+  cancel: 'Abbrechen',
+  apply: 'Übernehmen',
+  optional: '(optional)',
+
+  callbackButton: 'Bitte um Rückruf',
+  callbackButtonLong: 'Ich bitte um telefonischen Rückruf',
+  callbackActive: 'Rückruf: {phone}',
+  callbackDialogTitle: 'Telefonischen Rückruf anfordern',
+  callbackDialogHint: 'Wir rufen nur zu Ihren Geschäftszeiten an.',
+  phonePlaceholder: 'Ihre Telefonnummer',
+  phoneCountryLabel: 'Ländervorwahl',
+  phoneInvalid: 'Bitte prüfen Sie die Nummer – die Länge passt nicht zu {code}.',
+  removePhone: 'Telefonnummer entfernen',
+
+  emailTo: 'An:',
+  emailSubject: 'Betreff:',
+  contactIntro: 'Mit Ihren Informationen können wir Sie einfacher kontaktieren:',
+  nameLabel: 'Name:',
+  phoneLabel: 'Telefon:',
+  companyLabel: 'Firma:',
+  copyText: 'Text kopieren',
+  copySuccess: '✓ Text kopiert!',
+  copyFailed: '✗ Kopieren blockiert',
+  openEmail: 'E-Mail öffnen',
+  downloadEml: 'E-Mail-Datei (.eml)',
+  mailtoPasteHint: 'Die Anfrage ist zu lang für den direkten E-Mail-Aufruf. Der vollständige Text wurde in die Zwischenablage kopiert – bitte in die E-Mail einfügen (Strg+V).',
+  mailtoCopyHint: 'Die Anfrage ist zu lang für den direkten E-Mail-Aufruf. Bitte kopieren Sie den Text mit „Text kopieren“ und fügen Sie ihn in die E-Mail ein.',
+  emailPreview: 'E-Mail-Vorschau',
+
+  quoteTitle: 'Angebot anfordern',
+  inquiryNumber: 'Anfrage-Nr. {number}',
+  contactSection: 'Kontaktdaten',
+  salutation: 'Anrede',
+  salutationMr: 'Herr',
+  salutationMs: 'Frau',
+  firstName: 'Vorname',
+  lastName: 'Nachname',
+  department: 'Abteilung',
+  email: 'E-Mail',
+  company: 'Firma',
+  vatId: 'USt-IdNr.',
+  street: 'Straße',
+  houseNumber: 'Nr.',
+  country: 'Land',
+  zip: 'PLZ',
+  city: 'Stadt',
+  cityPicker: 'Mehrere Orte zu dieser PLZ',
+  cityPickerPlaceholder: 'Bitte Ort auswählen',
+  selectPlaceholder: 'Bitte auswählen',
+  noteSection: 'Hinweis für Syskomp',
+  notePlaceholder: 'Optionaler Hinweis oder Anmerkung...',
+  attachmentsSection: 'Anhänge',
+  attachmentsDrop: 'Skizze, Foto oder CAD-Datei hierher ziehen oder',
+  attachmentsBrowse: 'Dateien auswählen',
+  attachmentsLimits: 'max. {size} pro Datei, {total} insgesamt',
+  attachmentsTypes: 'Erlaubt: {types}',
+  removeAttachment: '{name} entfernen',
+  errorAttachmentType: '{name}: Dieser Dateityp ist nicht erlaubt.',
+  errorAttachmentSize: '{name}: Die Datei ist größer als {size}.',
+  errorAttachmentTotal: '{name}: Alle Anhänge zusammen dürfen höchstens {size} groß sein.',
+  errorAttachmentCount: '{name}: Höchstens {count} Dateien möglich.',
+  privacyNotice: 'Mit dem Absenden erkläre ich mich mit der Verarbeitung meiner Daten zur Bearbeitung meiner Anfrage einverstanden. Die Daten werden nicht an Dritte weitergegeben.',
+  submit: 'Ihr Angebot',
+  submitHint: 'bekommen Sie in Minuten',
+  submitting: 'Wird gesendet...',
+  itemsTitle: 'Artikel ({count})',
+  subtotalNet: 'Zwischensumme (netto):',
+  totalNet: 'Gesamt (netto):',
+  discountTotal: 'Rabatt {percent}:',
+  vatAmount: 'MwSt. {rate}:',
+  totalGross: 'Gesamt (brutto):',
+  priceOnRequest: 'auf Anfrage',
+  itemPosition: 'Pos.',
+  itemArticleNumber: 'Art.-Nr.',
+  itemDescription: 'Bezeichnung',
+  itemQuantity: 'Menge',
+  itemUnit: 'Einheit',
+  itemUnitPrice: 'Einzelpreis',
+  itemLineTotal: 'Gesamtpreis',
+  itemDiscount: 'Rabatt',
+  itemQuantityOf: 'Menge {description}',
+  decreaseQuantity: '{description}: Menge verringern',
+  increaseQuantity: '{description}: Menge erhöhen',
+  removeItem: '{description} entfernen',
+  itemsEmpty: 'Keine Artikel ausgewählt.',
+  exportCsv: 'CSV exportieren',
+  exportXlsx: 'Excel exportieren',
+  print: 'Drucken / als PDF speichern',
+  printInquiryNumber: 'Anfrage-Nr.:',
+  printDate: 'Datum:',
+  printContact: 'Kontakt',
+  printDescription: 'Beschreibung',
+  submitSuccess: 'Angebot wurde erfolgreich angefordert.',
+  submitFailed: 'Fehler beim Senden. Bitte versuchen Sie es erneut.',
+  submitUnexpectedError: 'Ein unerwarteter Fehler ist aufgetreten.',
+  submitQueued: 'Keine Verbindung zum Server. Ihre Anfrage wurde gespeichert und wird nachgesendet.',
+  submitNotQueued: 'Keine Verbindung zum Server. Anfragen mit Anhängen können nicht zwischengespeichert werden. Bitte senden Sie die Anfrage später erneut.',
+  submitTimeout: 'Der Server antwortet nicht. Bitte versuchen Sie es später erneut.',
+
+  errorRequired: 'Bitte füllen Sie dieses Feld aus.',
+  errorRequiredCheckbox: 'Bitte bestätigen Sie dieses Feld.',
+  errorInvalidEmail: 'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+  errorInvalidZip: 'Ungültige PLZ – erwartetes Format: {example}',
+  errorInvalidHouseNumber: 'Ungültige Hausnummer – z. B. {example}',
+  errorInvalidVatId: 'Ungültige USt-IdNr. – erwartetes Format: {example}',
+  errorVatIdChecksum: 'USt-IdNr. ungültig – Prüfziffer stimmt nicht',
+  errorVatIdCountry: 'USt-IdNr. passt nicht zum Land {country}',
+  errorSummary: 'Bitte prüfen Sie die markierten Felder ({count}).',
+
+  bodyTo: 'An:',
+  bodySubject: 'Betreff:',
+  bodyName: 'Name:',
+  bodyPhone: 'Telefon:',
+  bodyCompany: 'Firma:',
+  bodyCallbackRequested: '[hat um Rückruf gebeten]',
+  bodyShortened: 'Der vollständige Text zur Anfrage #{inquiryNumber} ist in der Zwischenablage – bitte hier einfügen.',
+};
+
+const en: Messages = {
+  close: 'Close',
+  cancel: 'Cancel',
+  apply: 'Apply',
+  optional: '(optional)',
+
+  callbackButton: 'Request a call back',
+  callbackButtonLong: 'Please call me back',
+  callbackActive: 'Call back: {phone}',
+  callbackDialogTitle: 'Request a call back',
+  callbackDialogHint: 'We only call during your business hours.',
+  phonePlaceholder: 'Your phone number',
+  phoneCountryLabel: 'Country code',
+  phoneInvalid: 'Please check the number – its length does not match {code}.',
+  removePhone: 'Remove phone number',
+
+  emailTo: 'To:',
+  emailSubject: 'Subject:',
+  contactIntro: 'Your details help us get in touch with you more easily:',
+  nameLabel: 'Name:',
+  phoneLabel: 'Phone:',
+  companyLabel: 'Company:',
+  copyText: 'Copy text',
+  copySuccess: '✓ Text copied!',
+  copyFailed: '✗ Copy blocked',
+  openEmail: 'Open email',
+  downloadEml: 'Email file (.eml)',
+  mailtoPasteHint: 'The inquiry is too long to open directly in your email program. The full text was copied to the clipboard – please paste it into the email (Ctrl+V).',
+  mailtoCopyHint: 'The inquiry is too long to open directly in your email program. Please copy the text with “Copy text” and paste it into the email.',
+  emailPreview: 'Email preview',
+
+  quoteTitle: 'Request a quote',
+  inquiryNumber: 'Inquiry no. {number}',
+  contactSection: 'Contact details',
+  salutation: 'Salutation',
+  salutationMr: 'Mr',
+  salutationMs: 'Ms',
+  firstName: 'First name',
+  lastName: 'Last name',
+  department: 'Department',
+  email: 'Email',
+  company: 'Company',
+  vatId: 'VAT ID',
+  street: 'Street',
+  houseNumber: 'No.',
+  country: 'Country',
+  zip: 'Postcode',
+  city: 'City',
+  cityPicker: 'Several places share this postal code',
+  cityPickerPlaceholder: 'Please choose a city',
+  selectPlaceholder: 'Please choose',
+  noteSection: 'Note for Syskomp',
+  notePlaceholder: 'Optional note or remark...',
+  attachmentsSection: 'Attachments',
+  attachmentsDrop: 'Drag a sketch, photo or CAD file here or',
+  attachmentsBrowse: 'choose files',
+  attachmentsLimits: 'max. {size} per file, {total} in total',
+  attachmentsTypes: 'Allowed: {types}',
+  removeAttachment: 'Remove {name}',
+  errorAttachmentType: '{name}: this file type is not allowed.',
+  errorAttachmentSize: '{name}: the file is larger than {size}.',
+  errorAttachmentTotal: '{name}: all attachments together may not exceed {size}.',
+  errorAttachmentCount: '{name}: at most {count} files are possible.',
+  privacyNotice: 'By submitting, I agree to the processing of my data for handling my request. The data will not be passed on to third parties.',
+  submit: 'Your quote',
+  submitHint: 'arrives within minutes',
+  submitting: 'Sending...',
+  itemsTitle: 'Items ({count})',
+  subtotalNet: 'Subtotal (net):',
+  totalNet: 'Total (net):',
+  discountTotal: 'Discount {percent}:',
+  vatAmount: 'VAT {rate}:',
+  totalGross: 'Total (gross):',
+  priceOnRequest: 'on request',
+  itemPosition: 'Pos.',
+  itemArticleNumber: 'Item no.',
+  itemDescription: 'Description',
+  itemQuantity: 'Qty',
+  itemUnit: 'Unit',
+  itemUnitPrice: 'Unit price',
+  itemLineTotal: 'Total',
+  itemDiscount: 'Discount',
+  itemQuantityOf: 'Quantity {description}',
+  decreaseQuantity: '{description}: decrease quantity',
+  increaseQuantity: '{description}: increase quantity',
+  removeItem: 'Remove {description}',
+  itemsEmpty: 'No items selected.',
+  exportCsv: 'Export CSV',
+  exportXlsx: 'Export Excel',
+  print: 'Print / save as PDF',
+  printInquiryNumber: 'Inquiry no.:',
+  printDate: 'Date:',
+  printContact: 'Contact',
+  printDescription: 'Description',
+  submitSuccess: 'Your quote has been requested successfully.',
+  submitFailed: 'Sending failed. Please try again.',
+  submitUnexpectedError: 'An unexpected error occurred.',
+  submitQueued: 'No connection to the server. Your request has been saved and will be sent later.',
+  submitNotQueued: 'No connection to the server. Requests with attachments cannot be saved for later. Please send the request again later.',
+  submitTimeout: 'The server is not responding. Please try again later.',
+
+  errorRequired: 'Please fill in this field.',
+  errorRequiredCheckbox: 'Please tick this box.',
+  errorInvalidEmail: 'Please enter a valid email address.',
+  errorInvalidZip: 'Invalid postal code – expected format: {example}',
+  errorInvalidHouseNumber: 'Invalid house number – e.g. {example}',
+  errorInvalidVatId: 'Invalid VAT ID – expected format: {example}',
+  errorVatIdChecksum: 'Invalid VAT ID – check digit does not match',
+  errorVatIdCountry: 'VAT ID does not match country {country}',
+  errorSummary: 'Please check the highlighted fields ({count}).',
+
+  bodyTo: 'To:',
+  bodySubject: 'Subject:',
+  bodyName: 'Name:',
+  bodyPhone: 'Phone:',
+  bodyCompany: 'Company:',
+  bodyCallbackRequested: '[requested a call back]',
+  bodyShortened: 'The full text of inquiry #{inquiryNumber} is on the clipboard – please paste it here.',
+};
+
+const fr: Messages = {
+  close: 'Fermer',
+  cancel: 'Annuler',
+  apply: 'Valider',
+  optional: '(facultatif)',
+
+  callbackButton: 'Demander un rappel',
+  callbackButtonLong: 'Je souhaite être rappelé(e)',
+  callbackActive: 'Rappel : {phone}',
+  callbackDialogTitle: 'Demander un rappel téléphonique',
+  callbackDialogHint: 'Nous appelons uniquement pendant vos heures d’ouverture.',
+  phonePlaceholder: 'Votre numéro de téléphone',
+  phoneCountryLabel: 'Indicatif pays',
+  phoneInvalid: 'Veuillez vérifier le numéro – sa longueur ne correspond pas à {code}.',
+  removePhone: 'Supprimer le numéro de téléphone',
+
+  emailTo: 'À :',
+  emailSubject: 'Objet :',
+  contactIntro: 'Vos coordonnées nous permettent de vous contacter plus facilement :',
+  nameLabel: 'Nom :',
+  phoneLabel: 'Téléphone :',
+  companyLabel: 'Société :',
+  copyText: 'Copier le texte',
+  copySuccess: '✓ Texte copié !',
+  copyFailed: '✗ Copie bloquée',
+  openEmail: 'Ouvrir l’e-mail',
+  downloadEml: 'Fichier e-mail (.eml)',
+  mailtoPasteHint: 'La demande est trop longue pour être ouverte directement dans votre messagerie. Le texte complet a été copié dans le presse-papiers – veuillez le coller dans l’e-mail (Ctrl+V).',
+  mailtoCopyHint: 'La demande est trop longue pour être ouverte directement dans votre messagerie. Veuillez copier le texte avec « Copier le texte » et le coller dans l’e-mail.',
+  emailPreview: 'Aperçu de l’e-mail',
+
+  quoteTitle: 'Demander un devis',
+  inquiryNumber: 'N° de demande {number}',
+  contactSection: 'Coordonnées',
+  salutation: 'Civilité',
+  salutationMr: 'M.',
+  salutationMs: 'Mme',
+  firstName: 'Prénom',
+  lastName: 'Nom',
+  department: 'Service',
+  email: 'E-mail',
+  company: 'Société',
+  vatId: 'N° TVA',
+  street: 'Rue',
+  houseNumber: 'N°',
+  country: 'Pays',
+  zip: 'Code postal',
+  city: 'Ville',
+  cityPicker: 'Plusieurs localités pour ce code postal',
+  cityPickerPlaceholder: 'Veuillez choisir une localité',
+  selectPlaceholder: 'Veuillez choisir',
+  noteSection: 'Remarque pour Syskomp',
+  notePlaceholder: 'Remarque ou commentaire facultatif...',
+  attachmentsSection: 'Pièces jointes',
+  attachmentsDrop: 'Déposez un croquis, une photo ou un fichier CAO ici ou',
+  attachmentsBrowse: 'choisissez des fichiers',
+  attachmentsLimits: 'max. {size} par fichier, {total} au total',
+  attachmentsTypes: 'Autorisés : {types}',
+  removeAttachment: 'Retirer {name}',
+  errorAttachmentType: '{name} : ce type de fichier n’est pas autorisé.',
+  errorAttachmentSize: '{name} : le fichier dépasse {size}.',
+  errorAttachmentTotal: '{name} : l’ensemble des pièces jointes ne doit pas dépasser {size}.',
+  errorAttachmentCount: '{name} : {count} fichiers au maximum.',
+  privacyNotice: 'En envoyant ce formulaire, j’accepte le traitement de mes données pour le suivi de ma demande. Les données ne sont pas transmises à des tiers.',
+  submit: 'Votre devis',
+  submitHint: 'en quelques minutes',
+  submitting: 'Envoi en cours...',
+  itemsTitle: 'Articles ({count})',
+  subtotalNet: 'Sous-total (HT) :',
+  totalNet: 'Total (HT) :',
+  discountTotal: 'Remise {percent} :',
+  vatAmount: 'TVA {rate} :',
+  totalGross: 'Total (TTC) :',
+  priceOnRequest: 'sur demande',
+  itemPosition: 'Pos.',
+  itemArticleNumber: 'Réf.',
+  itemDescription: 'Désignation',
+  itemQuantity: 'Qté',
+  itemUnit: 'Unité',
+  itemUnitPrice: 'Prix unitaire',
+  itemLineTotal: 'Prix total',
+  itemDiscount: 'Remise',
+  itemQuantityOf: 'Quantité {description}',
+  decreaseQuantity: '{description} : réduire la quantité',
+  increaseQuantity: '{description} : augmenter la quantité',
+  removeItem: 'Retirer {description}',
+  itemsEmpty: 'Aucun article sélectionné.',
+  exportCsv: 'Exporter en CSV',
+  exportXlsx: 'Exporter en Excel',
+  print: 'Imprimer / enregistrer en PDF',
+  printInquiryNumber: 'N° de demande :',
+  printDate: 'Date :',
+  printContact: 'Contact',
+  printDescription: 'Description',
+  submitSuccess: 'Votre demande de devis a bien été envoyée.',
+  submitFailed: 'Erreur lors de l’envoi. Veuillez réessayer.',
+  submitUnexpectedError: 'Une erreur inattendue s’est produite.',
+  submitQueued: 'Pas de connexion au serveur. Votre demande a été enregistrée et sera envoyée ultérieurement.',
+  submitNotQueued: 'Pas de connexion au serveur. Les demandes avec pièces jointes ne peuvent pas être enregistrées. Veuillez renvoyer la demande plus tard.',
+  submitTimeout: 'Le serveur ne répond pas. Veuillez réessayer plus tard.',
+
+  errorRequired: 'Veuillez remplir ce champ.',
+  errorRequiredCheckbox: 'Veuillez cocher cette case.',
+  errorInvalidEmail: 'Veuillez saisir une adresse e-mail valide.',
+  errorInvalidZip: 'Code postal invalide – format attendu : {example}',
+  errorInvalidHouseNumber: 'Numéro invalide – p. ex. {example}',
+  errorInvalidVatId: 'N° TVA invalide – format attendu : {example}',
+  errorVatIdChecksum: 'N° TVA invalide – la clé de contrôle ne correspond pas',
+  errorVatIdCountry: 'Le n° TVA ne correspond pas au pays {country}',
+  errorSummary: 'Veuillez vérifier les champs signalés ({count}).',
+
+  bodyTo: 'À :',
+  bodySubject: 'Objet :',
+  bodyName: 'Nom :',
+  bodyPhone: 'Téléphone :',
+  bodyCompany: 'Société :',
+  bodyCallbackRequested: '[a demandé un rappel]',
+  bodyShortened: 'Le texte complet de la demande #{inquiryNumber} est dans le presse-papiers – veuillez le coller ici.',
+};
+
+const nl: Messages = {
+  close: 'Sluiten',
+  cancel: 'Annuleren',
+  apply: 'Overnemen',
+  optional: '(optioneel)',
+
+  callbackButton: 'Terugbelverzoek',
+  callbackButtonLong: 'Ik wil graag teruggebeld worden',
+  callbackActive: 'Terugbellen: {phone}',
+  callbackDialogTitle: 'Telefonisch terugbelverzoek',
+  callbackDialogHint: 'Wij bellen alleen tijdens uw kantooruren.',
+  phonePlaceholder: 'Uw telefoonnummer',
+  phoneCountryLabel: 'Landcode',
+  phoneInvalid: 'Controleer het nummer – de lengte past niet bij {code}.',
+  removePhone: 'Telefoonnummer verwijderen',
+
+  emailTo: 'Aan:',
+  emailSubject: 'Onderwerp:',
+  contactIntro: 'Met uw gegevens kunnen wij eenvoudiger contact met u opnemen:',
+  nameLabel: 'Naam:',
+  phoneLabel: 'Telefoon:',
+  companyLabel: 'Bedrijf:',
+  copyText: 'Tekst kopiëren',
+  copySuccess: '✓ Tekst gekopieerd!',
+  copyFailed: '✗ Kopiëren geblokkeerd',
+  openEmail: 'E-mail openen',
+  downloadEml: 'E-mailbestand (.eml)',
+  mailtoPasteHint: 'De aanvraag is te lang om direct in uw e-mailprogramma te openen. De volledige tekst is naar het klembord gekopieerd – plak deze in de e-mail (Ctrl+V).',
+  mailtoCopyHint: 'De aanvraag is te lang om direct in uw e-mailprogramma te openen. Kopieer de tekst met „Tekst kopiëren” en plak deze in de e-mail.',
+  emailPreview: 'E-mailvoorbeeld',
+
+  quoteTitle: 'Offerte aanvragen',
+  inquiryNumber: 'Aanvraagnr. {number}',
+  contactSection: 'Contactgegevens',
+  salutation: 'Aanhef',
+  salutationMr: 'Dhr.',
+  salutationMs: 'Mevr.',
+  firstName: 'Voornaam',
+  lastName: 'Achternaam',
+  department: 'Afdeling',
+  email: 'E-mail',
+  company: 'Bedrijf',
+  vatId: 'Btw-nummer',
+  street: 'Straat',
+  houseNumber: 'Nr.',
+  country: 'Land',
+  zip: 'Postcode',
+  city: 'Plaats',
+  cityPicker: 'Meerdere plaatsen bij deze postcode',
+  cityPickerPlaceholder: 'Kies een plaats',
+  selectPlaceholder: 'Maak een keuze',
+  noteSection: 'Opmerking voor Syskomp',
+  notePlaceholder: 'Optionele opmerking...',
+  attachmentsSection: 'Bijlagen',
+  attachmentsDrop: 'Sleep een schets, foto of CAD-bestand hierheen of',
+  attachmentsBrowse: 'kies bestanden',
+  attachmentsLimits: 'max. {size} per bestand, {total} in totaal',
+  attachmentsTypes: 'Toegestaan: {types}',
+  removeAttachment: '{name} verwijderen',
+  errorAttachmentType: '{name}: dit bestandstype is niet toegestaan.',
+  errorAttachmentSize: '{name}: het bestand is groter dan {size}.',
+  errorAttachmentTotal: '{name}: alle bijlagen samen mogen niet groter zijn dan {size}.',
+  errorAttachmentCount: '{name}: maximaal {count} bestanden.',
+  privacyNotice: 'Door te verzenden ga ik akkoord met de verwerking van mijn gegevens voor de behandeling van mijn aanvraag. De gegevens worden niet aan derden doorgegeven.',
+  submit: 'Uw offerte',
+  submitHint: 'ontvangt u binnen enkele minuten',
+  submitting: 'Wordt verzonden...',
+  itemsTitle: 'Artikelen ({count})',
+  subtotalNet: 'Subtotaal (netto):',
+  totalNet: 'Totaal (netto):',
+  discountTotal: 'Korting {percent}:',
+  vatAmount: 'Btw {rate}:',
+  totalGross: 'Totaal (bruto):',
+  priceOnRequest: 'op aanvraag',
+  itemPosition: 'Pos.',
+  itemArticleNumber: 'Art.nr.',
+  itemDescription: 'Omschrijving',
+  itemQuantity: 'Aantal',
+  itemUnit: 'Eenheid',
+  itemUnitPrice: 'Stukprijs',
+  itemLineTotal: 'Totaalprijs',
+  itemDiscount: 'Korting',
+  itemQuantityOf: 'Aantal {description}',
+  decreaseQuantity: '{description}: aantal verlagen',
+  increaseQuantity: '{description}: aantal verhogen',
+  removeItem: '{description} verwijderen',
+  itemsEmpty: 'Geen artikelen geselecteerd.',
+  exportCsv: 'CSV exporteren',
+  exportXlsx: 'Excel exporteren',
+  print: 'Afdrukken / opslaan als PDF',
+  printInquiryNumber: 'Aanvraagnr.:',
+  printDate: 'Datum:',
+  printContact: 'Contact',
+  printDescription: 'Beschrijving',
+  submitSuccess: 'Uw offerte is succesvol aangevraagd.',
+  submitFailed: 'Fout bij het verzenden. Probeer het opnieuw.',
+  submitUnexpectedError: 'Er is een onverwachte fout opgetreden.',
+  submitQueued: 'Geen verbinding met de server. Uw aanvraag is opgeslagen en wordt later verzonden.',
+  submitNotQueued: 'Geen verbinding met de server. Aanvragen met bijlagen kunnen niet worden opgeslagen. Verstuur de aanvraag later opnieuw.',
+  submitTimeout: 'De server reageert niet. Probeer het later opnieuw.',
+
+  errorRequired: 'Vul dit veld in.',
+  errorRequiredCheckbox: 'Vink dit vakje aan.',
+  errorInvalidEmail: 'Voer een geldig e-mailadres in.',
+  errorInvalidZip: 'Ongeldige postcode – verwacht formaat: {example}',
+  errorInvalidHouseNumber: 'Ongeldig huisnummer – bijv. {example}',
+  errorInvalidVatId: 'Ongeldig btw-nummer – verwacht formaat: {example}',
+  errorVatIdChecksum: 'Ongeldig btw-nummer – controlecijfer klopt niet',
+  errorVatIdCountry: 'Btw-nummer past niet bij land {country}',
+  errorSummary: 'Controleer de gemarkeerde velden ({count}).',
+
+  bodyTo: 'Aan:',
+  bodySubject: 'Onderwerp:',
+  bodyName: 'Naam:',
+  bodyPhone: 'Telefoon:',
+  bodyCompany: 'Bedrijf:',
+  bodyCallbackRequested: '[wil teruggebeld worden]',
+  bodyShortened: 'De volledige tekst van aanvraag #{inquiryNumber} staat op het klembord – plak deze hier.',
+};
+
+const pl: Messages = {
+  close: 'Zamknij',
+  cancel: 'Anuluj',
+  apply: 'Zastosuj',
+  optional: '(opcjonalnie)',
+
+  callbackButton: 'Proszę o kontakt telefoniczny',
+  callbackButtonLong: 'Proszę o oddzwonienie',
+  callbackActive: 'Oddzwonienie: {phone}',
+  callbackDialogTitle: 'Prośba o oddzwonienie',
+  callbackDialogHint: 'Dzwonimy wyłącznie w Państwa godzinach pracy.',
+  phonePlaceholder: 'Państwa numer telefonu',
+  phoneCountryLabel: 'Numer kierunkowy kraju',
+  phoneInvalid: 'Proszę sprawdzić numer – długość nie pasuje do {code}.',
+  removePhone: 'Usuń numer telefonu',
+
+  emailTo: 'Do:',
+  emailSubject: 'Temat:',
+  contactIntro: 'Dzięki Państwa danym łatwiej się z Państwem skontaktujemy:',
+  nameLabel: 'Imię i nazwisko:',
+  phoneLabel: 'Telefon:',
+  companyLabel: 'Firma:',
+  copyText: 'Kopiuj tekst',
+  copySuccess: '✓ Tekst skopiowany!',
+  copyFailed: '✗ Kopiowanie zablokowane',
+  openEmail: 'Otwórz e-mail',
+  downloadEml: 'Plik e-mail (.eml)',
+  mailtoPasteHint: 'Zapytanie jest za długie, aby otworzyć je bezpośrednio w programie pocztowym. Pełny tekst skopiowano do schowka – wklej go do wiadomości (Ctrl+V).',
+  mailtoCopyHint: 'Zapytanie jest za długie, aby otworzyć je bezpośrednio w programie pocztowym. Skopiuj tekst przyciskiem „Kopiuj tekst” i wklej go do wiadomości.',
+  emailPreview: 'Podgląd wiadomości',
+
+  quoteTitle: 'Zapytanie ofertowe',
+  inquiryNumber: 'Nr zapytania {number}',
+  contactSection: 'Dane kontaktowe',
+  salutation: 'Zwrot',
+  salutationMr: 'Pan',
+  salutationMs: 'Pani',
+  firstName: 'Imię',
+  lastName: 'Nazwisko',
+  department: 'Dział',
+  email: 'E-mail',
+  company: 'Firma',
+  vatId: 'NIP UE',
+  street: 'Ulica',
+  houseNumber: 'Nr',
+  country: 'Kraj',
+  zip: 'Kod pocztowy',
+  city: 'Miejscowość',
+  cityPicker: 'Kilka miejscowości dla tego kodu',
+  cityPickerPlaceholder: 'Proszę wybrać miejscowość',
+  selectPlaceholder: 'Proszę wybrać',
+  noteSection: 'Uwagi dla Syskomp',
+  notePlaceholder: 'Opcjonalna uwaga lub komentarz...',
+  attachmentsSection: 'Załączniki',
+  attachmentsDrop: 'Przeciągnij tutaj szkic, zdjęcie lub plik CAD albo',
+  attachmentsBrowse: 'wybierz pliki',
+  attachmentsLimits: 'maks. {size} na plik, łącznie {total}',
+  attachmentsTypes: 'Dozwolone: {types}',
+  removeAttachment: 'Usuń {name}',
+  errorAttachmentType: '{name}: ten typ pliku jest niedozwolony.',
+  errorAttachmentSize: '{name}: plik jest większy niż {size}.',
+  errorAttachmentTotal: '{name}: łączny rozmiar załączników nie może przekraczać {size}.',
+  errorAttachmentCount: '{name}: maksymalnie {count} plików.',
+  privacyNotice: 'Wysyłając formularz, wyrażam zgodę na przetwarzanie moich danych w celu obsługi zapytania. Dane nie są przekazywane osobom trzecim.',
+  submit: 'Twoja oferta',
+  submitHint: 'w kilka minut',
+  submitting: 'Wysyłanie...',
+  itemsTitle: 'Pozycje ({count})',
+  subtotalNet: 'Suma częściowa (netto):',
+  totalNet: 'Razem (netto):',
+  discountTotal: 'Rabat {percent}:',
+  vatAmount: 'VAT {rate}:',
+  totalGross: 'Razem (brutto):',
+  priceOnRequest: 'na zapytanie',
+  itemPosition: 'Poz.',
+  itemArticleNumber: 'Nr art.',
+  itemDescription: 'Nazwa',
+  itemQuantity: 'Ilość',
+  itemUnit: 'Jednostka',
+  itemUnitPrice: 'Cena jedn.',
+  itemLineTotal: 'Wartość',
+  itemDiscount: 'Rabat',
+  itemQuantityOf: 'Ilość {description}',
+  decreaseQuantity: '{description}: zmniejsz ilość',
+  increaseQuantity: '{description}: zwiększ ilość',
+  removeItem: 'Usuń {description}',
+  itemsEmpty: 'Nie wybrano pozycji.',
+  exportCsv: 'Eksportuj CSV',
+  exportXlsx: 'Eksportuj Excel',
+  print: 'Drukuj / zapisz jako PDF',
+  printInquiryNumber: 'Nr zapytania:',
+  printDate: 'Data:',
+  printContact: 'Kontakt',
+  printDescription: 'Opis',
+  submitSuccess: 'Zapytanie ofertowe zostało wysłane.',
+  submitFailed: 'Błąd wysyłania. Proszę spróbować ponownie.',
+  submitUnexpectedError: 'Wystąpił nieoczekiwany błąd.',
+  submitQueued: 'Brak połączenia z serwerem. Zapytanie zostało zapisane i zostanie wysłane później.',
+  submitNotQueued: 'Brak połączenia z serwerem. Zapytań z załącznikami nie można zapisać. Wyślij zapytanie ponownie później.',
+  submitTimeout: 'Serwer nie odpowiada. Spróbuj ponownie później.',
+
+  errorRequired: 'Proszę wypełnić to pole.',
+  errorRequiredCheckbox: 'Proszę zaznaczyć to pole.',
+  errorInvalidEmail: 'Proszę podać prawidłowy adres e-mail.',
+  errorInvalidZip: 'Nieprawidłowy kod pocztowy – oczekiwany format: {example}',
+  errorInvalidHouseNumber: 'Nieprawidłowy numer domu – np. {example}',
+  errorInvalidVatId: 'Nieprawidłowy NIP UE – oczekiwany format: {example}',
+  errorVatIdChecksum: 'Nieprawidłowy NIP UE – cyfra kontrolna się nie zgadza',
+  errorVatIdCountry: 'NIP UE nie pasuje do kraju {country}',
+  errorSummary: 'Proszę sprawdzić zaznaczone pola ({count}).',
+
+  bodyTo: 'Do:',
+  bodySubject: 'Temat:',
+  bodyName: 'Imię i nazwisko:',
+  bodyPhone: 'Telefon:',
+  bodyCompany: 'Firma:',
+  bodyCallbackRequested: '[prosi o oddzwonienie]',
+  bodyShortened: 'Pełny tekst zapytania #{inquiryNumber} jest w schowku – wklej go tutaj.',
+};
+
+export const MESSAGES: Record<SupportedLocale, Messages> = { de, en, fr, nl, pl };
+
+export const DEFAULT_LOCALE: SupportedLocale = 'de';
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/**
+ * Map any BCP 47 tag (e.g. "de-AT", "fr-BE", navigator.language) to a supported locale.
+ * Unknown languages fall back to German.
+ */
+export const resolveLocale = (tag: string | undefined | null): SupportedLocale => {
+  const lang = (tag || '').toLowerCase().split(/[-_]/)[0];
+  // Own keys only - "constructor" must not resolve to Object.prototype
+  return (Object.prototype.hasOwnProperty.call(MESSAGES, lang) ? lang : DEFAULT_LOCALE) as SupportedLocale;
+};
+
+/** Replace `{name}` placeholders in a message */
+export const formatMessage = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+
+/** Catalogue for a locale with host overrides applied on top */
+export const getMessages = (locale: SupportedLocale, overrides?: Partial<Messages>): Messages =>
+  overrides ? { ...MESSAGES[locale], ...overrides } : MESSAGES[locale];
+
+// ─── Provider ────────────────────────────────────────────────
+
+export interface I18nOptions {
+  /** UI language (default: "de") */
+  locale?: SupportedLocale;
+  /** Language of text generated for Syskomp, e.g. the email body (default: "de") */
+  bodyLocale?: SupportedLocale;
+  /** Override single UI strings */
+  messages?: Partial<Messages>;
+  /** Override single strings of the generated text */
+  bodyMessages?: Partial<Messages>;
+}
+
+const I18nContext = createContext<I18nOptions>({});
+
+/**
+ * Sets locale and message overrides for all Syskomp modals below it.
+ * Props passed directly to a modal take precedence over the provider.
+ */
+export const SyskompI18nProvider: React.FC<I18nOptions & { children?: React.ReactNode }> = ({
+  children,
+  ...options
+}) => {
+  const parent = useContext(I18nContext);
+  const value = useMemo(
+    () => ({
+      locale: options.locale ?? parent.locale,
+      bodyLocale: options.bodyLocale ?? parent.bodyLocale,
+      messages: { ...parent.messages, ...options.messages },
+      bodyMessages: { ...parent.bodyMessages, ...options.bodyMessages },
+    }),
+    [parent, options.locale, options.bodyLocale, options.messages, options.bodyMessages]
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/**
+ * Resolve UI messages (`t`) and generated-text messages (`tb`)
+ * from component props, falling back to the nearest provider.
+ */
+export const useI18n = (props: I18nOptions = {}) => {
+  const ctx = useContext(I18nContext);
+  const locale = props.locale ?? ctx.locale ?? DEFAULT_LOCALE;
+  const bodyLocale = props.bodyLocale ?? ctx.bodyLocale ?? DEFAULT_LOCALE;
+
+  const t = useMemo(
+    () => getMessages(locale, { ...ctx.messages, ...props.messages }),
+    [locale, ctx.messages, props.messages]
+  );
+  const tb = useMemo(
+    () => getMessages(bodyLocale, { ...ctx.bodyMessages, ...props.bodyMessages }),
+    [bodyLocale, ctx.bodyMessages, props.bodyMessages]
+  );
+
+  return { locale, bodyLocale, t, tb };
+};
@@ -5,5 +5,128 @@
  */
 
 export { default as EmailModal } from './EmailModal';
+export type { EmailModalProps } from './EmailModal';
 export { default as QuoteModal } from './QuoteModal';
-export type { QuoteModalProps, QuoteDisplayItem, QuoteContactData } from './QuoteModal';
+export type { QuoteModalProps, QuoteDisplayItem, QuoteContactData, QuoteSubmitContext } from './QuoteModal';
+
+export {
+  generateInquiryNumber,
+  isValidInquiryNumber,
+  computeCheckCharacter,
+  useInquiryNumber,
+} from './inquiryNumber';
+export type { InquiryNumberOptions } from './inquiryNumber';
+
+export {
+  offlinePostalCodeLookup,
+  createOfflinePostalCodeLookup,
+  createRemotePostalCodeLookup,
+  combinePostalCodeLookups,
+  lookupPostalCode,
+  usePostalCodeLookup,
+} from './postalCode';
+export type { PostalCodeLookup, RemotePostalCodeLookupOptions } from './postalCode';
+export { POSTAL_CODES } from './postalCodeData';
+export type { PostalCodeDataset } from './postalCodeData';
+
+export { ADDRESS_RULES, normalizePostalCode, validateAddress, formatAddress } from './address';
+export type { AddressRule, PostalAddress, AddressError } from './address';
+
+export { PHONE_COUNTRIES, parsePhoneNumber, toE164, toInternationalPhone, phoneCountryFromLocale } from './phone';
+export type { PhoneCountry, ParsedPhoneNumber } from './phone';
+
+export { VAT_ID_RULES, validateVatId, normalizeVatId } from './vatId';
+export type { VatIdRule, VatIdResult, VatIdError } from './vatId';
+
+export { DEFAULT_QUOTE_FIELDS, resolveQuoteFields, groupQuoteFieldRows } from './quoteFields';
+
+export { useQuoteForm, sanitizeQuoteField, QUOTE_COUNTRIES } from './quoteForm';
+export type { QuoteForm, QuoteFormOptions, QuoteFormResult } from './quoteForm';
+export { useEmailComposer, copyToClipboard, openMailto, DEFAULT_MAILTO_MAX_LENGTH } from './emailComposer';
+export type {
+  EmailComposer, EmailComposerOptions, EmailContactData, EmailTemplateContact, EmailTemplateData, EmailTemplateItem, CopyStatus, MailtoFallback,
+} from './emailComposer';
+export {
+  renderTemplate, registerEmailTemplate, getEmailTemplate, resolveEmailTemplate, DEFAULT_EMAIL_TEMPLATE,
+} from './emailTemplate';
+export type { EmailTemplate, EmailTemplateDefinition } from './emailTemplate';
+export {
+  calculatePrices, clampQuantity, quantityLimits, flattenItems, formatPrice, formatPercent, formatQuantity, itemsNetTotal,
+  buildItemTable, formatItemsText, formatItemsHtml,
+} from './items';
+export type {
+  PricingOptions, PricedItem, PriceSummary, ItemTable, ItemTableColumn, ItemTableRow, ItemTableOptions,
+} from './items';
+export { buildEml, encodeQuotedPrintable, encodeHeaderValue } from './eml';
+export type { EmlMessage } from './eml';
+export { downloadFile } from './download';
+export { buildPrintDocument, printDocument, quoteContactLines } from './printView';
+export type { PrintViewData } from './printView';
+export { itemsToCsv, itemsToXlsx, XLSX_MIME_TYPE } from './itemExport';
+export type { ItemExportOptions } from './itemExport';
+export {
+  validateAttachments, acceptsFile, resolveAttachmentOptions, formatFileSize, DEFAULT_ATTACHMENT_OPTIONS,
+} from './attachments';
+export type { AttachmentOptions, AttachmentError, RejectedAttachment } from './attachments';
+export {
+  buildQuoteRequest, validateQuoteRequest, isQuoteRequest, QUOTE_REQUEST_SCHEMA, QUOTE_REQUEST_VERSION,
+} from './quoteRequest';
+export type {
+  QuoteRequest, QuoteRequestItem, QuoteRequestTotals, QuoteRequestAttachment, QuoteRequestInput,
+  QuoteRequestIssue, QuoteRequestValidation, JsonSchema, JsonSchemaType,
+} from './quoteRequest';
+export { createQuoteOutbox, useQuoteOutbox } from './outbox';
+export type { QuoteOutbox, QuoteOutboxOptions, QuoteOutboxEntry, QuoteOutboxStatus } from './outbox';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
+export type {
+  QuoteFieldName,
+  QuoteFieldConfig,
+  QuoteBuiltInFieldConfig,
+  QuoteCustomFieldConfig,
+  QuoteCustomFieldType,
+  QuoteFieldValue,
+  ResolvedQuoteField,
+} from './quoteFields';
+
+export { default as ModalShell } from './ModalShell';
+export type { ModalShellProps } from './ModalShell';
+export { default as FormField } from './FormField';
+export type { FormFieldProps } from './FormField';
+export { default as CallbackPhonePopover, sanitizePhone } from './CallbackPhonePopover';
+export type { CallbackPhonePopoverProps } from './CallbackPhonePopover';
+export { PrimaryButton, SecondaryButton } from './Buttons';
+export { default as AttachmentDropzone } from './AttachmentDropzone';
+export type { AttachmentDropzoneProps } from './AttachmentDropzone';
+export type { ButtonProps, SecondaryButtonProps } from './Buttons';
+export { loadFromStorage, saveToStorage } from './storage';
+
+export {
+  SyskompI18nProvider,
+  useI18n,
+  MESSAGES,
+  DEFAULT_LOCALE,
+  resolveLocale,
+  formatMessage,
+  getMessages,
+} from './i18n';
+export type { SupportedLocale, Messages, I18nOptions } from './i18n';
+
+export {
+  SyskompThemeProvider,
+  useTheme,
+  defaultTheme,
+  createTheme,
+  withAlpha,
+  darken,
+} from './theme';
+export type { SyskompTheme, SyskompThemeOverrides } from './theme';
+
+export {
+  ModalPortal,
+  useModalStack,
+  useBodyScrollLock,
+  getOpenModalCount,
+  MODAL_STACK_Z_STEP,
+} from './overlay';
+export type { OverlayOptions } from './overlay';
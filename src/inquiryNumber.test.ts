@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { generateInquiryNumber, isValidInquiryNumber, computeCheckCharacter } from './inquiryNumber';
+
+// 26 Oct 2025, 14:30:52 local time
+const now = new Date(2025, 9, 26, 14, 30, 52);
+
+describe('inquiryNumber', () => {
+  it('uses timestamp plus random suffix by default', () => {
+    expect(generateInquiryNumber({}, now)).toMatch(/^20251026-143052-[2-9A-HJ-NP-Z]{4}$/);
+  });
+
+  it('does not repeat within the same second', () => {
+    const numbers = new Set(Array.from({ length: 50 }, () => generateInquiryNumber({}, now)));
+    expect(numbers.size).toBe(50);
+  });
+
+  it('applies prefix, UTC and suffix options', () => {
+    const utc = new Date(Date.UTC(2025, 9, 26, 23, 59, 1));
+    expect(generateInquiryNumber({ prefix: 'KLT-', timeZone: 'utc', randomLength: 0 }, utc)).toBe('KLT-20251026-235901');
+    expect(generateInquiryNumber({ randomLength: 6 }, now)).toMatch(/^20251026-143052-\w{6}$/);
+  });
+
+  it('appends a verifiable check character', () => {
+    const number = generateInquiryNumber({ prefix: 'RF-', checkDigit: true }, now);
+    expect(isValidInquiryNumber(number, 'RF-')).toBe(true);
+    // A single mistyped character is detected
+    const typo = number.replace(/-(\w)(\w{3})-/, (_, c: string, rest: string) => `-${c === 'A' ? 'B' : 'A'}${rest}-`);
+    expect(isValidInquiryNumber(typo, 'RF-')).toBe(false);
+  });
+
+  it('computes ISO 7064 MOD 37,36 check characters', () => {
+    expect(computeCheckCharacter('20251026-143052')).toBe(computeCheckCharacter('20251026143052'));
+    expect(computeCheckCharacter('abc')).toBe(computeCheckCharacter('ABC'));
+  });
+
+  it('delegates to a custom generator', () => {
+    expect(generateInquiryNumber({ prefix: 'KLT-', generate: () => '4711' }, now)).toBe('KLT-4711');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Inquiry numbers ("Anfrage-Nr.")
+ * Shared reference scheme for the mailto flow (EmailModal subject) and the
+ * backend flow (QuoteModal onSubmit), so sales can match both.
+ *
+ * Default format: YYYYMMDD-HHMMSS-XXXX (e.g. 20251026-143052-K7QM)
+ * The timestamp alone collides when two customers click in the same second,
+ * so a random suffix is appended unless turned off.
+ */
+
+import { useState } from 'react';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface InquiryNumberOptions {
+  /** App prefix, e.g. "KLT-" or "RF-" (default: none) */
+  prefix?: string;
+  /** Time zone of the timestamp part (default: "local") */
+  timeZone?: 'local' | 'utc';
+  /** Length of the random suffix, 0 = no random suffix (default: 4) */
+  randomLength?: number;
+  /** Append an ISO 7064 MOD 37,36 check character to catch typos on the phone (default: false) */
+  checkDigit?: boolean;
+  /** Custom generator - replaces the built-in format completely (prefix is still applied) */
+  generate?: (now: Date) => string;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/** Characters of the random suffix - no 0/O and 1/I, which are confused when read out */
+const RANDOM_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatTimestamp = (date: Date, timeZone: 'local' | 'utc'): string => {
+  const utc = timeZone === 'utc';
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = pad((utc ? date.getUTCMonth() : date.getMonth()) + 1);
+  const day = pad(utc ? date.getUTCDate() : date.getDate());
+  const hours = pad(utc ? date.getUTCHours() : date.getHours());
+  const minutes = pad(utc ? date.getUTCMinutes() : date.getMinutes());
+  const seconds = pad(utc ? date.getUTCSeconds() : date.getSeconds());
+  return `${year}${month}${day}-${hours}${minutes}${seconds}`;
+};
+
+const randomSuffix = (length: number): string => {
+  const values = new Uint32Array(length);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < length; i++) values[i] = Math.floor(Math.random() * 0xffffffff);
+  }
+  return Array.from(values, (v) => RANDOM_ALPHABET[v % RANDOM_ALPHABET.length]).join('');
+};
+
+/**
+ * ISO 7064 MOD 37,36 check character over the alphanumeric characters of `value`
+ * (separators are ignored, letters are case-insensitive).
+ */
+export const computeCheckCharacter = (value: string): string => {
+  const chars = value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  let product = 36;
+  for (const char of chars) {
+    let sum = (product % 37) + CHECK_ALPHABET.indexOf(char);
+    sum %= 36;
+    if (sum === 0) sum = 36;
+    product = sum * 2;
+  }
+  return CHECK_ALPHABET[(37 - (product % 37)) % 36];
+};
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Generate a new inquiry number.
+ *
+ * @example
+ * generateInquiryNumber();                                   // "20251026-143052-K7QM"
+ * generateInquiryNumber({ prefix: 'KLT-', timeZone: 'utc' }); // "KLT-20251026-133052-K7QM"
+ * generateInquiryNumber({ randomLength: 0, checkDigit: true }); // "20251026-143052-7"
+ */
+export const generateInquiryNumber = (options: InquiryNumberOptions = {}, now: Date = new Date()): string => {
+  const { prefix = '', timeZone = 'local', randomLength = 4, checkDigit = false, generate } = options;
+  if (generate) return `${prefix}${generate(now)}`;
+
+  let number = formatTimestamp(now, timeZone);
+  if (randomLength > 0) number += `-${randomSuffix(randomLength)}`;
+  if (checkDigit) number += `-${computeCheckCharacter(number)}`;
+  return `${prefix}${number}`;
+};
+
+/**
+ * Verify the check character of a number generated with `checkDigit: true`.
+ * Pass the same `prefix` so it is excluded from the check.
+ */
+export const isValidInquiryNumber = (number: string, prefix = ''): boolean => {
+  if (prefix && !number.startsWith(prefix)) return false;
+  const body = number.slice(prefix.length);
+  const separator = body.lastIndexOf('-');
+  if (separator < 0) return false;
+  const check = body.slice(separator + 1).toUpperCase();
+  return check.length === 1 && computeCheckCharacter(body.slice(0, separator)) === check;
+};
+
+/**
+ * Inquiry number that stays fixed for the lifetime of the calling component.
+ * A `fixed` number (e.g. assigned by the host backend) takes precedence.
+ */
+export const useInquiryNumber = (options?: InquiryNumberOptions, fixed?: string): string => {
+  const [generated] = useState(() => generateInquiryNumber(options));
+  return fixed || generated;
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { itemsToCsv, itemsToXlsx } from './itemExport';
+import { readZip } from './test/readZip';
+import { MESSAGES } from './i18n';
+
+const labels = MESSAGES.de;
+
+const items = [
+  { articleNumber: 'SKR-50', description: 'Rollenförderer; 1000 mm', quantity: 2, unit: 'Stk', unitPrice: 1450.5 },
+  { description: 'Montage "vor Ort"', quantity: 1.5, unit: 'h' },
+];
+
+describe('itemsToCsv', () => {
+  it('writes German Excel CSV with line totals and grand total', () => {
+    expect(itemsToCsv(items, { labels })).toBe(
+      '\uFEFF' +
+        'Art.-Nr.;Bezeichnung;Menge;Einheit;Einzelpreis (EUR);Gesamtpreis (EUR)\r\n' +
+        'SKR-50;"Rollenförderer; 1000 mm";2;Stk;1450,50;2901,00\r\n' +
+        ';"Montage ""vor Ort""";1,5;h;;\r\n' +
+        'Gesamt (netto):;;;;;2901,00\r\n'
+    );
+  });
+
+  it('adds the discount column, VAT and gross total in the given currency', () => {
+    const csv = itemsToCsv(
+      [{ description: 'Stütze', quantity: 4, unitPrice: 92.5, discountPercent: 10 }],
+      { labels, currency: 'CHF', discountPercent: 5, vatRate: 8.1 }
+    );
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFBezeichnung;Menge;Rabatt (%);Einzelpreis (CHF);Gesamtpreis (CHF)',
+      'Stütze;4;10;92,50;333,00',
+      'Zwischensumme (netto):;;;;333,00',
+      'Rabatt 5\u00a0%:;;;;-16,65',
+      'Gesamt (netto):;;;;316,35',
+      'MwSt. 8,1\u00a0%:;;;;25,62',
+      'Gesamt (brutto):;;;;341,97',
+      '',
+    ]);
+  });
+
+  it('numbers the parts of assemblies with their total quantities', () => {
+    const csv = itemsToCsv(
+      [{ description: 'Rollenförderer', quantity: 2, children: [{ description: 'Tragrolle', quantity: 20, unitPrice: 8.5 }] }],
+      { labels }
+    );
+    expect(csv.split('\r\n').slice(0, 3)).toEqual([
+      '\uFEFFPos.;Bezeichnung;Menge;Einzelpreis (EUR);Gesamtpreis (EUR)',
+      '1;Rollenförderer;2;;340,00',
+      '1.1;Tragrolle;40;8,50;340,00',
+    ]);
+  });
+
+  it('leaves out prices and unused columns', () => {
+    expect(itemsToCsv([{ description: 'Stütze', quantity: 4, unitPrice: 92.5 }], { labels, showPrices: false })).toBe(
+      '\uFEFFBezeichnung;Menge\r\nStütze;4\r\n'
+    );
+  });
+
+  it('leaves out price columns and totals when no item has a price', () => {
+    expect(itemsToCsv([{ description: 'Montage', quantity: 1 }], { labels })).toBe(
+      '\uFEFFBezeichnung;Menge\r\nMontage;1\r\n'
+    );
+  });
+
+  it('formats percentages in the language of the labels', () => {
+    const csv = itemsToCsv(
+      [{ description: 'Support', quantity: 4, unitPrice: 92.5 }],
+      { labels: MESSAGES.en, locale: 'en', discountPercent: 2.5, vatRate: 8.1 }
+    );
+    expect(csv).toContain('\r\nDiscount 2.5%:;;;-9,25\r\n');
+    expect(csv).toContain('8.1%:;;;');
+  });
+});
+
+describe('itemsToXlsx', () => {
+  it('groups the parts of assemblies in an outline', () => {
+    const sheet = readZip(itemsToXlsx(
+      [{ description: 'Rollenförderer', quantity: 1, children: [{ description: 'Rahmen', quantity: 1, unitPrice: 300 }] }],
+      { labels }
+    ))['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<sheetPr><outlinePr summaryBelow="0"/></sheetPr><sheetFormatPr defaultRowHeight="15" outlineLevelRow="1"/>');
+    expect(sheet).toContain('<row r="2"><c r="A2" t="inlineStr" s="1">');
+    expect(sheet).toContain('<row r="3" outlineLevel="1"><c r="A3" t="inlineStr">');
+  });
+
+  it('builds a workbook with numeric cells and a bold total row', () => {
+    const files = readZip(itemsToXlsx(items, { labels, sheetName: 'Anfrage [1]' }));
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/styles.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Anfrage 1" sheetId="1" r:id="rId1"/>');
+
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="B1" t="inlineStr" s="1"><is><t xml:space="preserve">Bezeichnung</t></is></c>');
+    expect(sheet).toContain('<c r="C2" s="0"><v>2</v></c>');
+    expect(sheet).toContain('<c r="E2" s="2"><v>1450.5</v></c><c r="F2" s="2"><v>2901</v></c>');
+    expect(sheet).toContain('Montage &quot;vor Ort&quot;');
+    expect(sheet).toContain('<row r="4"><c r="A4" t="inlineStr" s="1"><is><t xml:space="preserve">Gesamt (netto):</t></is></c><c r="F4" s="3"><v>2901</v></c></row>');
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Item export
+ * The item list as CSV (German Excel: semicolons, decimal comma, UTF-8 BOM)
+ * and as .xlsx workbook - for importing the bill of materials into an ERP.
+ */
+
+import { formatMessage } from './i18n';
+import type { Messages } from './i18n';
+import { calculatePrices, flattenItems, formatPercent } from './items';
+import type { PricedItem, PricingOptions, QuoteDisplayItem } from './items';
+import { createZip } from './zip';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface ItemExportOptions extends PricingOptions {
+  /** Unit prices, line totals and the totals - only if an item has a price (default: true) */
+  showPrices?: boolean;
+  /** Language of the labels - number format of the percentages unless priceLocale is set (default: "de") */
+  locale?: string;
+  /** Column headers and the total labels */
+  labels: Pick<
+    Messages,
+    | 'itemPosition' | 'itemArticleNumber' | 'itemDescription' | 'itemQuantity' | 'itemUnit' | 'itemDiscount' | 'itemUnitPrice' | 'itemLineTotal'
+    | 'subtotalNet' | 'discountTotal' | 'totalNet' | 'vatAmount' | 'totalGross'
+  >;
+}
+
+// ─── Table ───────────────────────────────────────────────────
+
+type Cell = string | number | null;
+
+interface ExportTable {
+  header: string[];
+  /** Items and their parts, depth-first - assemblies are bold in the workbook */
+  rows: { cells: Cell[]; depth: number; assembly: boolean }[];
+  /** Total rows (subtotal and discount, net, VAT, gross) - only with prices */
+  totals: { cells: Cell[]; bold: boolean }[];
+  /** Indexes of the price columns */
+  priceColumns: number[];
+}
+
+/** Rows and columns shared by CSV and XLSX - optional columns only if used */
+const exportTable = (items: QuoteDisplayItem[], options: ItemExportOptions): ExportTable => {
+  const { labels } = options;
+  const prices = calculatePrices(items, options);
+  const all = flattenItems(items);
+  // Same rule as buildItemTable: no price columns and totals without any price
+  const showPrices = (options.showPrices ?? true) && all.some((i) => i.unitPrice != null);
+  const positions = all.length > items.length;
+  const articleNumbers = all.some((i) => !!i.articleNumber);
+  const units = all.some((i) => !!i.unit);
+  const discounts = showPrices && all.some((i) => !!i.discountPercent && !i.children?.length);
+  const currency = `(${prices.currency})`;
+
+  const header = [
+    ...(positions ? [labels.itemPosition] : []),
+    ...(articleNumbers ? [labels.itemArticleNumber] : []),
+    labels.itemDescription,
+    labels.itemQuantity,
+    ...(units ? [labels.itemUnit] : []),
+    ...(discounts ? [`${labels.itemDiscount} (%)`] : []),
+    ...(showPrices ? [`${labels.itemUnitPrice} ${currency}`, `${labels.itemLineTotal} ${currency}`] : []),
+  ];
+  // Parts carry their total quantity and a position like "1.2" below their assembly
+  const rowsOf = (priced: PricedItem[], parent: string, depth: number): ExportTable['rows'] =>
+    priced.flatMap((item, index) => {
+      const position = `${parent}${index + 1}`;
+      const assembly = !!item.children?.length;
+      const cells: Cell[] = [
+        ...(positions ? [position] : []),
+        ...(articleNumbers ? [item.articleNumber || ''] : []),
+        item.description,
+        item.totalQuantity,
+        ...(units ? [item.unit || ''] : []),
+        ...(discounts ? [(!assembly && item.discountPercent) || null] : []),
+        ...(showPrices ? [assembly ? null : item.unitPrice ?? null, item.lineTotal ?? null] : []),
+      ];
+      return [{ cells, depth, assembly }, ...rowsOf(item.children ?? [], `${position}.`, depth + 1)];
+    });
+  const rows = rowsOf(prices.items, '', 0);
+
+  const percent = (value: number) => formatPercent(value, options.priceLocale || options.locale || 'de');
+  const total = (label: string, amount: number, bold = false) => ({
+    cells: [label, ...Array<Cell>(header.length - 2).fill(null), amount],
+    bold,
+  });
+  const totals = !showPrices
+    ? []
+    : [
+      ...(prices.discount
+        ? [
+          total(labels.subtotalNet, prices.subtotal),
+          total(formatMessage(labels.discountTotal, { percent: percent(prices.discountPercent) }), -prices.discount),
+        ]
+        : []),
+      total(labels.totalNet, prices.net, true),
+      ...(prices.vatRate != null
+        ? [
+          total(formatMessage(labels.vatAmount, { rate: percent(prices.vatRate) }), prices.vat),
+          total(labels.totalGross, prices.gross, true),
+        ]
+        : []),
+    ];
+  const priceColumns = showPrices ? [header.length - 2, header.length - 1] : [];
+  return { header, rows, totals, priceColumns };
+};
+
+// ─── CSV ─────────────────────────────────────────────────────
+
+const csvValue = (cell: Cell, price: boolean): string => {
+  if (cell == null) return '';
+  if (typeof cell === 'number') return (price ? cell.toFixed(2) : String(cell)).replace('.', ',');
+  return /[";\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Items as CSV for German Excel and ERP imports: semicolon separator,
+ * decimal comma, CRLF lines and a UTF-8 BOM (so Excel detects the umlauts).
+ *
+ * @example
+ * itemsToCsv([{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }], { labels: t })
+ * // "\uFEFFBezeichnung;Menge;Einzelpreis (EUR);Gesamtpreis (EUR)\r\nRollenförderer;2;450,00;900,00\r\n…"
+ */
+export const itemsToCsv = (items: QuoteDisplayItem[], options: ItemExportOptions): string => {
+  const { header, rows, totals, priceColumns } = exportTable(items, options);
+  const line = (cells: Cell[]) => cells.map((cell, col) => csvValue(cell, priceColumns.includes(col))).join(';');
+  const lines = [header, ...rows.map((row) => row.cells), ...totals.map((row) => row.cells)];
+  return '\uFEFF' + lines.map(line).join('\r\n') + '\r\n';
+};
+
+// ─── XLSX ────────────────────────────────────────────────────
+
+const xml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles (index = s attribute): 0 default, 1 bold, 2 price, 3 bold price
+const STYLES_XML =
+  XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/** 0 → "A", 25 → "Z", 26 → "AA" */
+const columnName = (col: number): string =>
+  (col >= 26 ? columnName(Math.floor(col / 26) - 1) : '') + String.fromCharCode(65 + (col % 26));
+
+const sheetXml = ({ header, rows, totals, priceColumns }: ExportTable): string => {
+  const cell = (value: Cell, ref: string, bold: boolean, price: boolean) => {
+    if (value == null) return '';
+    if (typeof value === 'number') return `<c r="${ref}" s="${(price ? 2 : 0) + (bold ? 1 : 0)}"><v>${value}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"${bold ? ' s="1"' : ''}><is><t xml:space="preserve">${xml(value)}</t></is></c>`;
+  };
+  // Parts get an outline level - Excel shows +/- buttons to collapse assemblies
+  const row = (cells: Cell[], index: number, bold: boolean, depth = 0) =>
+    `<row r="${index}"${depth ? ` outlineLevel="${Math.min(depth, 7)}"` : ''}>` +
+    cells.map((value, col) => cell(value, `${columnName(col)}${index}`, bold, priceColumns.includes(col))).join('') +
+    '</row>';
+
+  const levels = Math.min(Math.max(0, ...rows.map((r) => r.depth)), 7);
+  const sheetRows = [
+    row(header, 1, true),
+    ...rows.map(({ cells, depth, assembly }, i) => row(cells, i + 2, assembly, depth)),
+    ...totals.map(({ cells, bold }, i) => row(cells, rows.length + 2 + i, bold)),
+  ];
+  return (
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Assemblies are above their parts - put the +/- buttons there
+    (levels ? '<sheetPr><outlinePr summaryBelow="0"/></sheetPr>' : '') +
+    (levels ? `<sheetFormatPr defaultRowHeight="15" outlineLevelRow="${levels}"/>` : '') +
+    `<sheetData>${sheetRows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+};
+
+/** Items as .xlsx workbook (one sheet, numeric quantities and prices) */
+export const itemsToXlsx = (items: QuoteDisplayItem[], options: ItemExportOptions & { sheetName?: string }): Uint8Array => {
+  // Excel sheet names: max. 31 characters, no []:*?/\
+  const sheetName = xml((options.sheetName || 'Items').replace(/[[\]:*?/\\]/g, '').slice(0, 31));
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: sheetXml(exportTable(items, options)) },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+  ]);
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
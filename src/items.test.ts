@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePrices, clampQuantity, formatItemsText, formatItemsHtml, formatQuantity, itemsNetTotal, formatPrice } from './items';
+import { MESSAGES } from './i18n';
+
+const labels = MESSAGES.de;
+
+const items = [
+  { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 2, unit: 'Stk', unitPrice: 450 },
+  { description: 'Stütze\nHöhe 800 mm', quantity: 4, unitPrice: 92.5 },
+  { articleNumber: 'MON', description: 'Montage', quantity: 1 },
+];
+
+describe('item formatting', () => {
+  it('formats prices, quantities and the net total', () => {
+    expect(formatPrice(1234.5)).toBe('1.234,50 EUR');
+    expect(formatQuantity(items[0])).toBe('2 Stk');
+    expect(formatQuantity(items[1])).toBe('4x');
+    expect(itemsNetTotal(items)).toBe(1270);
+  });
+});
+
+const conveyor = {
+  description: 'Rollenförderer 3 m',
+  quantity: 2,
+  children: [
+    { articleNumber: 'RAH-3000', description: 'Rahmen', quantity: 1, unitPrice: 300 },
+    { articleNumber: 'ROL-50', description: 'Tragrolle', quantity: 20, unit: 'Stk', unitPrice: 8.5 },
+    { description: 'Antrieb', quantity: 1, unitPrice: 450, discountPercent: 10 },
+  ],
+};
+
+describe('clampQuantity', () => {
+  it('snaps to the step and keeps the limits', () => {
+    const profile = { description: 'Profil', quantity: 1, unit: 'm', quantityStep: 0.5, maxQuantity: 6 };
+    expect(clampQuantity(profile, 1.3)).toBe(1.5);
+    expect(clampQuantity(profile, 0.1)).toBe(0.5);
+    expect(clampQuantity(profile, 0.1 + 0.2 + 2.5)).toBe(3);
+    expect(clampQuantity(profile, 10)).toBe(6);
+    expect(clampQuantity({ description: 'Palette', quantity: 10, minQuantity: 10, quantityStep: 5 }, 17)).toBe(15);
+    expect(clampQuantity({ description: 'Stütze', quantity: 4 }, 0)).toBe(1);
+  });
+});
+
+describe('calculatePrices', () => {
+  const priced = [
+    { description: 'Rollenförderer', quantity: 3, unitPrice: 33.33, discountPercent: 10 },
+    { description: 'Stütze', quantity: 4, unitPrice: 92.5 },
+    { description: 'Montage', quantity: 1 },
+  ];
+
+  it('applies line and order discounts and adds VAT', () => {
+    const prices = calculatePrices(priced, { discountPercent: 5, vatRate: 19 });
+    expect(prices.items.map((i) => i.lineTotal)).toEqual([89.99, 370, undefined]);
+    expect(prices).toMatchObject({
+      currency: 'EUR', subtotal: 459.99, discountPercent: 5, discount: 23, net: 436.99, vatRate: 19, vat: 83.03, gross: 520.02,
+      incomplete: true,
+    });
+  });
+
+  it('multiplies parts by the assembly quantity and sums them up per assembly', () => {
+    const prices = calculatePrices([conveyor, { description: 'Anschlagpuffer', quantity: 4, unitPrice: 12.5 }]);
+    expect(prices.items[0]).toMatchObject({ totalQuantity: 2, lineTotal: 1750 });
+    expect(prices.items[0].children!.map((i) => [i.totalQuantity, i.lineTotal])).toEqual([[2, 600], [40, 340], [2, 810]]);
+    expect(prices).toMatchObject({ subtotal: 1800, incomplete: false });
+  });
+
+  it('leaves out VAT without a rate', () => {
+    expect(calculatePrices(priced.slice(1, 2))).toMatchObject({ net: 370, vatRate: undefined, vat: 0, gross: 370, incomplete: false });
+  });
+});
+
+describe('formatItemsText', () => {
+  it('renders an aligned table with prices and net total', () => {
+    expect(formatItemsText(items, { labels })).toBe(
+      [
+        'Art.-Nr.  Bezeichnung     Menge  Einzelpreis  Gesamtpreis',
+        '---------------------------------------------------------',
+        'SKR-50    Rollenförderer  2 Stk   450,00 EUR   900,00 EUR',
+        '          Stütze             4x    92,50 EUR   370,00 EUR',
+        '          Höhe 800 mm',
+        'MON       Montage            1x  auf Anfrage',
+        '---------------------------------------------------------',
+        'Gesamt (netto):                              1.270,00 EUR',
+      ].join('\n')
+    );
+  });
+
+  it('leaves out empty columns and hidden prices', () => {
+    expect(formatItemsText([{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }], { labels, showPrices: false })).toBe(
+      'Bezeichnung     Menge\n---------------------\nRollenförderer     2x'
+    );
+  });
+
+  it('adds discounts, VAT and the gross total in the given currency', () => {
+    const text = formatItemsText(
+      [{ description: 'Rollenförderer', quantity: 2, unitPrice: 1450, discountPercent: 10 }],
+      { labels, currency: 'CHF', priceLocale: 'de-CH', discountPercent: 5, vatRate: 8.1 }
+    );
+    expect(text.split('\n')).toEqual([
+      'Bezeichnung     Menge  Rabatt   Einzelpreis   Gesamtpreis',
+      '---------------------------------------------------------',
+      'Rollenförderer     2x     10%  1’450.00 CHF  2’610.00 CHF',
+      '---------------------------------------------------------',
+      'Zwischensumme (netto):                       2’610.00 CHF',
+      'Rabatt 5%:                                    -130.50 CHF',
+      'Gesamt (netto):                              2’479.50 CHF',
+      'MwSt. 8.1%:                                    200.84 CHF',
+      'Gesamt (brutto):                             2’680.34 CHF',
+    ]);
+  });
+
+  it('formats amounts in the language of the text', () => {
+    expect(formatPrice(1234.5, { currency: 'PLN', locale: 'pl' })).toBe('1234,50 PLN');
+    expect(formatItemsText([{ description: 'Winkel', quantity: 1, unitPrice: 12345.6 }], { labels: MESSAGES.en, locale: 'en' }))
+      .toContain('12,345.60 EUR');
+  });
+
+  it('indents the parts of an assembly below its subtotal', () => {
+    expect(formatItemsText([conveyor, { description: 'Anschlagpuffer', quantity: 4, unitPrice: 12.5 }], { labels })).toBe(
+      [
+        'Art.-Nr.  Bezeichnung          Menge  Rabatt  Einzelpreis   Gesamtpreis',
+        '-----------------------------------------------------------------------',
+        '          Rollenförderer 3 m      2x                       1.750,00 EUR',
+        'RAH-3000    Rahmen                2x           300,00 EUR    600,00 EUR',
+        'ROL-50      Tragrolle         40 Stk             8,50 EUR    340,00 EUR',
+        '            Antrieb               2x    10\u00a0%   450,00 EUR    810,00 EUR',
+        '          Anschlagpuffer          4x            12,50 EUR     50,00 EUR',
+        '-----------------------------------------------------------------------',
+        'Gesamt (netto):                                            1.800,00 EUR',
+      ].join('\n')
+    );
+  });
+
+  it('is empty without items', () => {
+    expect(formatItemsText([], { labels })).toBe('');
+  });
+});
+
+describe('formatItemsHtml', () => {
+  it('renders an escaped table with the net total', () => {
+    const html = formatItemsHtml([{ description: 'Winkel <90°>', quantity: 3, unitPrice: 10 }], { labels });
+    expect(html).toMatch(/^<table/);
+    expect(html).toContain('Winkel &lt;90°&gt;');
+    expect(html).toContain('<th colspan="3" style="padding:2px 8px;text-align:left;vertical-align:top">Gesamt (netto):</th>');
+    expect(html).toContain('30,00 EUR');
+  });
+});
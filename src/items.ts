@@ -0,0 +1,390 @@
+/**
+ * Item lists
+ * The QuoteDisplayItem type, prices (currency, discounts, VAT) and the item
+ * table shared by QuoteModal, EmailModal bodies, print view and export.
+ */
+
+import { formatMessage } from './i18n';
+import type { Messages } from './i18n';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface QuoteDisplayItem {
+  description: string;
+  quantity: number;
+  /** Net price per unit (before the line discount) */
+  unitPrice?: number;
+  /** Article number, e.g. "SKR-50-1000" */
+  articleNumber?: string;
+  /** Quantity unit, e.g. "Stk" or "m" - shown as "2 Stk" instead of "2x" */
+  unit?: string;
+  /** Discount on this line in percent, e.g. 10 (dealer prices) */
+  discountPercent?: number;
+  /** Smallest quantity when editing (default: quantityStep, i.e. 1) */
+  minQuantity?: number;
+  /** Largest quantity when editing (default: unlimited) */
+  maxQuantity?: number;
+  /** Stepper increment when editing, e.g. 0.5 for meters (default: 1) */
+  quantityStep?: number;
+  /**
+   * Parts of an assembly, e.g. frame, rollers and drive of a conveyor. Their
+   * quantities are per assembly; the assembly's price is the sum of its parts.
+   */
+  children?: QuoteDisplayItem[];
+}
+
+export interface PricingOptions {
+  /** ISO 4217 currency code, e.g. "CHF" or "PLN" (default: "EUR") */
+  currency?: string;
+  /** Number format of amounts, e.g. "de-CH" (default: the language of the text) */
+  priceLocale?: string;
+  /** Discount on the whole order in percent - applied after the line discounts */
+  discountPercent?: number;
+  /** VAT rate in percent, e.g. 19 - adds VAT and the gross total to the net total */
+  vatRate?: number;
+}
+
+export interface PricedItem extends QuoteDisplayItem {
+  /** Quantity × quantities of the enclosing assemblies */
+  totalQuantity: number;
+  /**
+   * Total quantity × unit price minus the line discount - for assemblies the
+   * subtotal of the parts; undefined without price
+   */
+  lineTotal?: number;
+  children?: PricedItem[];
+}
+
+/** Computed figures of an item list - same values in the UI, the texts and the submit payload */
+export interface PriceSummary {
+  currency: string;
+  items: PricedItem[];
+  /** Sum of the line totals of the top-level items */
+  subtotal: number;
+  /** Global discount in percent (0 if none) */
+  discountPercent: number;
+  /** Global discount amount */
+  discount: number;
+  /** subtotal - discount */
+  net: number;
+  /** VAT rate in percent - undefined: net prices only */
+  vatRate?: number;
+  vat: number;
+  /** net + vat */
+  gross: number;
+  /** Some items have no price ("auf Anfrage") */
+  incomplete: boolean;
+}
+
+export interface ItemTableOptions extends PricingOptions {
+  /** Show prices, line totals and totals (default: true) */
+  showPrices?: boolean;
+  /** Language of the text - number format unless priceLocale is set (default: "de") */
+  locale?: string;
+  /** Column headers, total labels and "auf Anfrage" */
+  labels: Pick<
+    Messages,
+    | 'itemArticleNumber' | 'itemDescription' | 'itemQuantity' | 'itemDiscount' | 'itemUnitPrice' | 'itemLineTotal'
+    | 'subtotalNet' | 'discountTotal' | 'totalNet' | 'vatAmount' | 'totalGross' | 'priceOnRequest'
+  >;
+}
+
+export interface ItemTableRow {
+  /** One formatted cell per column */
+  cells: string[];
+  /** Nesting level - 0 for top-level items */
+  depth: number;
+  /** The item has parts - its line total is their subtotal */
+  assembly: boolean;
+  /** Position in the item tree, e.g. [0, 2] for the third part of the first item */
+  path: number[];
+}
+
+export interface ItemTableColumn {
+  key: 'articleNumber' | 'description' | 'quantity' | 'discount' | 'unitPrice' | 'lineTotal';
+  label: string;
+  align: 'left' | 'right';
+}
+
+/** Formatted item table - rendered as JSX, plain text or HTML */
+export interface ItemTable {
+  columns: ItemTableColumn[];
+  /** Items and their parts, depth-first */
+  rows: ItemTableRow[];
+  /** Lines below the table: subtotal and discount, net total, VAT and gross total */
+  summary: { label: string; amount: string; total: boolean }[];
+}
+
+// ─── Pricing ─────────────────────────────────────────────────
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const priceItem = (item: QuoteDisplayItem, multiplier: number): PricedItem => {
+  const { children, ...rest } = item;
+  const totalQuantity = multiplier * item.quantity;
+  if (children?.length) {
+    const parts = children.map((child) => priceItem(child, totalQuantity));
+    const priced = parts.filter((part) => part.lineTotal != null);
+    return {
+      ...rest,
+      totalQuantity,
+      lineTotal: priced.length ? round(priced.reduce((sum, part) => sum + part.lineTotal!, 0)) : undefined,
+      children: parts,
+    };
+  }
+  return {
+    ...rest,
+    totalQuantity,
+    lineTotal: item.unitPrice != null
+      ? round(totalQuantity * item.unitPrice * (1 - (item.discountPercent ?? 0) / 100))
+      : undefined,
+  };
+};
+
+/** Items and their parts, depth-first */
+export const flattenItems = <T extends QuoteDisplayItem>(items: T[]): T[] =>
+  items.flatMap((item) => [item, ...flattenItems((item.children ?? []) as T[])]);
+
+/**
+ * Line totals and net / VAT / gross totals, rounded to cents per line.
+ * Parts of assemblies are multiplied by the assembly quantity.
+ *
+ * @example
+ * calculatePrices([{ description: 'Rollenförderer', quantity: 2, unitPrice: 450, discountPercent: 10 }], { vatRate: 19 })
+ * // { subtotal: 810, net: 810, vat: 153.9, gross: 963.9, … }
+ */
+export const calculatePrices = (items: QuoteDisplayItem[], options: PricingOptions = {}): PriceSummary => {
+  const priced = items.map((item) => priceItem(item, 1));
+  const subtotal = round(priced.reduce((sum, i) => sum + (i.lineTotal ?? 0), 0));
+  const discountPercent = options.discountPercent ?? 0;
+  const discount = round((subtotal * discountPercent) / 100);
+  const net = round(subtotal - discount);
+  const vat = options.vatRate != null ? round((net * options.vatRate) / 100) : 0;
+  return {
+    currency: options.currency || 'EUR',
+    items: priced,
+    subtotal,
+    discountPercent,
+    discount,
+    net,
+    vatRate: options.vatRate,
+    vat,
+    gross: round(net + vat),
+    incomplete: flattenItems(items).some((i) => !i.children?.length && i.unitPrice == null),
+  };
+};
+
+/** Net total (after all discounts) - items without price are left out */
+export const itemsNetTotal = (items: QuoteDisplayItem[], options?: PricingOptions): number =>
+  calculatePrices(items, options).net;
+
+// ─── Quantities ──────────────────────────────────────────────
+
+/** Limits of an editable quantity */
+export const quantityLimits = (item: QuoteDisplayItem) => {
+  const step = item.quantityStep || 1;
+  return { min: item.minQuantity ?? step, max: item.maxQuantity ?? Infinity, step };
+};
+
+/**
+ * Snap a quantity to the item's steps (counted from the minimum, as in
+ * <input type="number">) and keep it within min / max.
+ *
+ * @example
+ * clampQuantity({ description: 'Profil', quantity: 1, unit: 'm', quantityStep: 0.5 }, 1.3) // 1.5
+ */
+export const clampQuantity = (item: QuoteDisplayItem, quantity: number): number => {
+  const { min, max, step } = quantityLimits(item);
+  const snapped = min + Math.round((quantity - min) / step) * step;
+  // 0.1 + 0.2 - keep the float noise out of the totals
+  return Math.min(Math.max(Number(snapped.toFixed(6)), min), max);
+};
+
+// ─── Formatting ──────────────────────────────────────────────
+
+/** "1.234,50 EUR", "1’234.50 CHF" (de-CH), "1 234,50 PLN" (pl) */
+export const formatPrice = (
+  price: number,
+  { currency = 'EUR', locale = 'de-DE' }: { currency?: string; locale?: string } = {}
+): string =>
+  price.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' ' + currency;
+
+/** "10 %" (de), "10%" (en) */
+export const formatPercent = (percent: number, locale = 'de-DE'): string =>
+  (percent / 100).toLocaleString(locale, { style: 'percent', maximumFractionDigits: 2 });
+
+/** "2 Stk" with a unit, "2x" without */
+export const formatQuantity = (item: QuoteDisplayItem): string =>
+  item.unit ? `${item.quantity} ${item.unit}` : `${item.quantity}x`;
+
+// ─── Table ───────────────────────────────────────────────────
+
+/**
+ * Columns, formatted rows and total lines of an item list. Article number
+ * and discount columns only appear if used; prices only with showPrices.
+ * Parts of assemblies follow their assembly with the total quantity
+ * (assembly quantity × part quantity); the assembly shows their subtotal.
+ */
+export const buildItemTable = (items: QuoteDisplayItem[], options: ItemTableOptions): ItemTable => {
+  const { showPrices = true, labels } = options;
+  const locale = options.priceLocale || options.locale || 'de';
+  const summary = calculatePrices(items, options);
+  const money = (amount: number) => formatPrice(amount, { currency: summary.currency, locale });
+  const all = flattenItems(items);
+  const prices = showPrices && all.some((i) => i.unitPrice != null);
+  const discounts = prices && all.some((i) => !!i.discountPercent && !i.children?.length);
+
+  const columns: ItemTableColumn[] = [
+    ...(all.some((i) => !!i.articleNumber)
+      ? [{ key: 'articleNumber' as const, label: labels.itemArticleNumber, align: 'left' as const }]
+      : []),
+    { key: 'description', label: labels.itemDescription, align: 'left' },
+    { key: 'quantity', label: labels.itemQuantity, align: 'right' },
+    ...(discounts ? [{ key: 'discount' as const, label: labels.itemDiscount, align: 'right' as const }] : []),
+    ...(prices
+      ? [
+        { key: 'unitPrice' as const, label: labels.itemUnitPrice, align: 'right' as const },
+        { key: 'lineTotal' as const, label: labels.itemLineTotal, align: 'right' as const },
+      ]
+      : []),
+  ];
+
+  const cell = (item: PricedItem, key: ItemTableColumn['key']): string => {
+    const assembly = !!item.children?.length;
+    switch (key) {
+      case 'articleNumber': return item.articleNumber || '';
+      case 'description': return item.description;
+      case 'quantity': return formatQuantity({ ...item, quantity: item.totalQuantity });
+      case 'discount': return item.discountPercent && !assembly ? formatPercent(item.discountPercent, locale) : '';
+      case 'unitPrice':
+        if (assembly) return '';
+        return item.unitPrice != null ? money(item.unitPrice) : labels.priceOnRequest;
+      case 'lineTotal': return item.lineTotal != null ? money(item.lineTotal) : '';
+    }
+  };
+
+  const rows = (priced: PricedItem[], parentPath: number[]): ItemTableRow[] =>
+    priced.flatMap((item, index) => {
+      const path = [...parentPath, index];
+      return [
+        {
+          cells: columns.map((column) => cell(item, column.key)),
+          depth: parentPath.length,
+          assembly: !!item.children?.length,
+          path,
+        },
+        ...rows(item.children ?? [], path),
+      ];
+    });
+
+  const totals: ItemTable['summary'] = [];
+  if (prices) {
+    if (summary.discount) {
+      totals.push({ label: labels.subtotalNet, amount: money(summary.subtotal), total: false });
+      totals.push({
+        label: formatMessage(labels.discountTotal, { percent: formatPercent(summary.discountPercent, locale) }),
+        amount: money(-summary.discount),
+        total: false,
+      });
+    }
+    totals.push({ label: labels.totalNet, amount: money(summary.net), total: true });
+    if (summary.vatRate != null) {
+      totals.push({
+        label: formatMessage(labels.vatAmount, { rate: formatPercent(summary.vatRate, locale) }),
+        amount: money(summary.vat),
+        total: false,
+      });
+      totals.push({ label: labels.totalGross, amount: money(summary.gross), total: true });
+    }
+  }
+
+  return { columns, rows: rows(summary.items, []), summary: totals };
+};
+
+/**
+ * Items as an aligned plain-text table (monospace) - header, one row per item
+ * (multi-line descriptions continue in their column) and the totals.
+ * Empty string for an empty list.
+ *
+ * @example
+ * Art.-Nr.  Bezeichnung     Menge  Einzelpreis  Gesamtpreis
+ * ----------------------------------------------------------
+ * SKR-50    Rollenförderer  2 Stk   450,00 EUR   900,00 EUR
+ * ----------------------------------------------------------
+ * Gesamt (netto):                                900,00 EUR
+ */
+export const formatItemsText = (items: QuoteDisplayItem[], options: ItemTableOptions): string => {
+  if (items.length === 0) return '';
+  const { columns, rows, summary } = buildItemTable(items, options);
+  const header = columns.map((column) => column.label);
+  const descriptionColumn = columns.findIndex((column) => column.key === 'description');
+  // Parts are indented below their assembly
+  const body = rows.map(({ cells, depth }) =>
+    cells.map((cell, col) => (col === descriptionColumn ? cell.replace(/^/gm, '  '.repeat(depth)) : cell))
+  );
+
+  const widths = columns.map((_, col) =>
+    Math.max(...[header, ...body].map((row) => Math.max(...row[col].split('\n').map((line) => line.length))))
+  );
+  const formatLine = (cells: string[]) =>
+    cells.map((cell, col) => (columns[col].align === 'right' ? cell.padStart(widths[col]) : cell.padEnd(widths[col])))
+      .join('  ')
+      .trimEnd();
+
+  const lines = [formatLine(header)];
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0) + 2 * (widths.length - 1);
+  const rule = '-'.repeat(totalWidth);
+  lines.push(rule);
+  for (const row of body) {
+    const [first, ...continuation] = row[descriptionColumn].split('\n');
+    lines.push(formatLine(row.map((cell, col) => (col === descriptionColumn ? first : cell))));
+    for (const line of continuation) {
+      lines.push(formatLine(row.map((_, col) => (col === descriptionColumn ? line : ''))));
+    }
+  }
+  if (summary.length) {
+    lines.push(rule);
+    for (const { label, amount } of summary) {
+      lines.push(`${label}  ${amount.padStart(totalWidth - label.length - 2)}`);
+    }
+  }
+  return lines.join('\n');
+};
+
+/** Escape text for HTML - line breaks become <br> */
+export const textToHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+/** Items as an HTML <table> (inline styles) - for the HTML clipboard flavor */
+export const formatItemsHtml = (items: QuoteDisplayItem[], options: ItemTableOptions): string => {
+  if (items.length === 0) return '';
+  const { columns, rows, summary } = buildItemTable(items, options);
+  const cell = (tag: 'th' | 'td', text: string, align: 'left' | 'right', colspan = 1, extra = '') =>
+    `<${tag}${colspan > 1 ? ` colspan="${colspan}"` : ''} style="padding:2px 8px;text-align:${align};vertical-align:top${extra}">` +
+    `${textToHtml(text)}</${tag}>`;
+
+  const header = columns.map((column) => cell('th', column.label, column.align)).join('');
+  const body = rows.map(({ cells, depth, assembly }) => {
+    const row = cells.map((text, col) => {
+      // Parts are indented below their bold assembly
+      const indent = columns[col].key === 'description' && depth ? `;padding-left:${8 + 16 * depth}px` : '';
+      return cell('td', text, columns[col].align, 1, indent + (assembly ? ';font-weight:bold' : ''));
+    });
+    return `<tr>${row.join('')}</tr>`;
+  });
+  const totals = summary.map(({ label, amount, total }) => {
+    const tag = total ? 'th' : 'td';
+    return `<tr>${cell(tag, label, 'left', columns.length - 1)}${cell(tag, amount, 'right')}</tr>`;
+  });
+
+  return (
+    '<table style="border-collapse:collapse">' +
+    `<thead><tr>${header}</tr></thead>` +
+    `<tbody>${body.join('')}${totals.join('')}</tbody>` +
+    '</table>'
+  );
+};
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { createQuoteOutbox, useQuoteOutbox } from './outbox';
+import type { QuoteOutbox } from './outbox';
+import { buildQuoteRequest } from './quoteRequest';
+import { calculatePrices } from './items';
+
+const request = (inquiryNumber: string) =>
+  buildQuoteRequest({
+    inquiryNumber,
+    contact: {
+      salutation: '', firstName: 'Max', lastName: 'Mustermann', company: 'Test GmbH', vatId: '', street: 'Musterstr',
+      houseNumber: '42', zip: '12345', city: 'Berlin', country: 'DE', department: '', phone: '', phoneE164: '',
+      email: 'max@test.de', note: '',
+    },
+    prices: calculatePrices([]),
+    locale: 'de',
+    createdAt: new Date('2026-03-14T09:30:00Z'),
+  });
+
+const stored = () => JSON.parse(localStorage.getItem('syskomp-quote-outbox') || '{"entries":[]}').entries;
+
+let outboxes: QuoteOutbox[] = [];
+const create = (send: Parameters<typeof createQuoteOutbox>[0]['send']) => {
+  const outbox = createQuoteOutbox({ send, retryDelay: 1000, maxRetryDelay: 3000 });
+  outboxes.push(outbox);
+  return outbox;
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  outboxes.forEach((outbox) => outbox.dispose());
+  outboxes = [];
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createQuoteOutbox', () => {
+  it('retries with growing delays until the request is delivered', async () => {
+    const send = vi.fn()
+      .mockRejectedValueOnce(new Error('HTTP 503'))
+      .mockRejectedValueOnce(new Error('HTTP 503'))
+      .mockResolvedValue({ success: true });
+    const outbox = create(send);
+
+    outbox.enqueue(request('A-1'));
+    expect(stored()).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getEntries()[0]).toMatchObject({ status: 'pending', attempts: 1, error: 'HTTP 503' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send).toHaveBeenLastCalledWith(request('A-1'));
+
+    expect(outbox.getEntries()[0]).toMatchObject({ id: 'A-1', status: 'delivered', attempts: 2 });
+    expect(stored()).toEqual([]);
+  });
+
+  it('does not retry rejected requests', async () => {
+    const send = vi.fn().mockResolvedValue({ success: false, message: 'Ungültige E-Mail' });
+    const outbox = create(send);
+
+    outbox.enqueue(request('A-1'));
+    await outbox.flush();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getEntries()[0]).toMatchObject({ status: 'rejected', error: 'Ungültige E-Mail' });
+  });
+
+  it('sends stored requests after a page reload', async () => {
+    const first = create(vi.fn().mockRejectedValue(new Error('offline')));
+    first.enqueue(request('A-1'));
+    first.enqueue(request('A-2'));
+    first.dispose();
+
+    const send = vi.fn().mockResolvedValue({ success: true });
+    const reloaded = create(send);
+    expect(reloaded.getEntries().map((entry) => entry.id)).toEqual(['A-1', 'A-2']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send.mock.calls.map(([sent]) => sent.inquiryNumber)).toEqual(['A-1', 'A-2']);
+    expect(stored()).toEqual([]);
+  });
+
+  it('shares the queue with other tabs', async () => {
+    const sync = () => window.dispatchEvent(new StorageEvent('storage', { key: 'syskomp-quote-outbox' }));
+    const sendA = vi.fn().mockResolvedValue({ success: true });
+    const tabA = create(sendA);
+    const tabB = create(vi.fn().mockRejectedValue(new Error('HTTP 503')));
+
+    tabA.enqueue(request('A-1'));
+    tabB.enqueue(request('B-1'));
+    expect(stored().map((entry: { id: string }) => entry.id)).toEqual(['A-1', 'B-1']);
+
+    sync();
+    expect(tabA.getEntries().map((entry) => entry.id)).toEqual(['A-1', 'B-1']);
+    expect(tabB.getEntries().map((entry) => entry.id)).toEqual(['B-1', 'A-1']);
+
+    // Tab A delivers both before tab B retries
+    await tabA.flush();
+    expect(sendA).toHaveBeenCalledTimes(2);
+    expect(stored()).toEqual([]);
+    sync();
+    expect(tabB.getEntries()).toEqual([]);
+  });
+
+  it('does not write back an entry another tab delivered', async () => {
+    const sync = () => window.dispatchEvent(new StorageEvent('storage', { key: 'syskomp-quote-outbox' }));
+    let deliver = (_: { success: boolean }) => {};
+    const tabA = create(vi.fn(() => new Promise<{ success: boolean }>((resolve) => { deliver = resolve; })));
+    const tabB = create(vi.fn().mockRejectedValue(new Error('HTTP 503')));
+
+    tabA.enqueue(request('N-1'));
+    const sending = tabA.flush();
+    sync();
+    expect(tabB.getEntries()[0]).toMatchObject({ id: 'N-1', status: 'sending' });
+
+    deliver({ success: true });
+    await sending;
+    sync();
+    expect(tabB.getEntries()).toEqual([]);
+
+    tabB.enqueue(request('N-2'));
+    expect(stored().map((entry: { id: string }) => entry.id)).toEqual(['N-2']);
+  });
+
+  it('sends a request once when the timers of two tabs fire together', async () => {
+    const sendA = vi.fn().mockResolvedValue({ success: true });
+    const sendB = vi.fn().mockResolvedValue({ success: true });
+    const tabA = create(sendA);
+    const tabB = create(sendB);
+
+    tabA.enqueue(request('A-1'));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'syskomp-quote-outbox' }));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sendA.mock.calls.length + sendB.mock.calls.length).toBe(1);
+    expect(stored()).toEqual([]);
+  });
+
+  it('retries sends interrupted by a page unload or a crash', async () => {
+    const closed = create(vi.fn(() => new Promise<never>(() => {})));
+    closed.enqueue(request('A-1'));
+    void closed.flush();
+    expect(stored()[0]).toMatchObject({ status: 'sending' });
+    window.dispatchEvent(new Event('pagehide'));
+    expect(stored()[0]).toMatchObject({ status: 'pending' });
+    closed.dispose();
+
+    const crashed = create(vi.fn(() => new Promise<never>(() => {})));
+    void crashed.flush();
+    crashed.dispose();
+    expect(stored()[0]).toMatchObject({ status: 'sending' });
+
+    const send = vi.fn().mockResolvedValue({ success: true });
+    create(send);
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000 - 1);
+    expect(send).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(stored()).toEqual([]);
+  });
+
+  it('waits while offline and sends when the connection returns', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const send = vi.fn().mockResolvedValue({ success: true });
+    const outbox = create(send);
+
+    outbox.enqueue(request('A-1'));
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(send).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getEntries()[0].status).toBe('delivered');
+  });
+});
+
+describe('useQuoteOutbox', () => {
+  it('reports waiting requests', async () => {
+    const send = vi.fn().mockResolvedValue({ success: true });
+    const outbox = create(send);
+    const { result } = renderHook(() => useQuoteOutbox(outbox));
+    expect(result.current.waiting).toBe(0);
+
+    act(() => outbox.enqueue(request('A-1')));
+    expect(result.current.waiting).toBe(1);
+
+    await act(() => result.current.flush());
+    expect(result.current.waiting).toBe(0);
+    expect(result.current.entries[0].status).toBe('delivered');
+
+    act(() => result.current.remove('A-1'));
+    expect(result.current.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Quote outbox
+ * Keeps quote requests that could not be sent (offline, server unreachable)
+ * in localStorage and retries them with backoff - also after a page reload.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { loadFromStorage, saveToStorage } from './storage';
+import type { QuoteRequest } from './quoteRequest';
+
+// ─── Public Types ────────────────────────────────────────────
+
+/** pending → sending → delivered / rejected; a failed send goes back to pending */
+export type QuoteOutboxStatus = 'pending' | 'sending' | 'delivered' | 'rejected';
+
+export interface QuoteOutboxEntry {
+  /** Inquiry number of the request */
+  id: string;
+  request: QuoteRequest;
+  status: QuoteOutboxStatus;
+  /** Failed send attempts so far */
+  attempts: number;
+  /** Time of the next retry in ms since epoch */
+  nextAttemptAt: number;
+  /** Message of the last failure or of the rejection */
+  error?: string;
+  /** Tab sending the entry - set while `sending` */
+  owner?: string;
+  /** Time the owner started sending in ms since epoch */
+  claimedAt?: number;
+}
+
+export interface QuoteOutboxOptions {
+  /**
+   * Delivers a stored request. Throw (network error, 5xx) to retry later;
+   * `success: false` rejects the request for good.
+   */
+  send: (request: QuoteRequest) => Promise<{ success: boolean; message?: string }>;
+  /** localStorage key - one per outbox (default: "syskomp-quote-outbox") */
+  storageKey?: string;
+  /** Delay before the first retry in ms, doubled per failed attempt (default: 5 s) */
+  retryDelay?: number;
+  /** Longest delay between two retries in ms (default: 5 min) */
+  maxRetryDelay?: number;
+  /**
+   * A send another tab started but never finished (crashed) is taken over
+   * after this time in ms (default: 2 min)
+   */
+  claimTimeout?: number;
+}
+
+export interface QuoteOutbox {
+  /** Store a request whose submit just failed - first retry after `retryDelay` or when back online */
+  enqueue: (request: QuoteRequest) => void;
+  /** Send all pending requests now, e.g. from a "Jetzt senden" button */
+  flush: () => Promise<void>;
+  /** Drop an entry, e.g. after showing it as delivered */
+  remove: (id: string) => void;
+  /** Current entries in queue order - same array until something changes */
+  getEntries: () => QuoteOutboxEntry[];
+  subscribe: (listener: () => void) => () => void;
+  /** Stop the retry timer and the online / storage listeners */
+  dispose: () => void;
+}
+
+// ─── Outbox ──────────────────────────────────────────────────
+
+const DEFAULT_STORAGE_KEY = 'syskomp-quote-outbox';
+
+/** The browser knows it has no connection - `navigator.onLine` is only reliable when false */
+export const isBrowserOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const isWaiting = (entry: QuoteOutboxEntry) => entry.status === 'pending' || entry.status === 'sending';
+
+/**
+ * Create the outbox once per app, outside of components, so stored requests
+ * are retried right after a page reload. Pass it to `QuoteModal` / `useQuoteForm`
+ * as `outbox`.
+ *
+ * @example
+ * export const quoteOutbox = createQuoteOutbox({
+ *   send: async (request) => {
+ *     const res = await fetch('/api/quotes', { method: 'POST', body: JSON.stringify(request) });
+ *     if (res.status >= 500) throw new Error(`HTTP ${res.status}`);
+ *     return { success: res.ok };
+ *   },
+ * });
+ */
+export const createQuoteOutbox = (options: QuoteOutboxOptions): QuoteOutbox => {
+  const {
+    send, storageKey = DEFAULT_STORAGE_KEY, retryDelay = 5000, maxRetryDelay = 5 * 60 * 1000, claimTimeout = 2 * 60 * 1000,
+  } = options;
+  const listeners = new Set<() => void>();
+  // Marks the sends of this tab in the shared storage
+  const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  // Entries this tab is sending right now
+  const inFlight = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | null = null;
+  let disposed = false;
+
+  const readStored = (): QuoteOutboxEntry[] =>
+    loadFromStorage<{ entries: QuoteOutboxEntry[] }>(storageKey).entries ?? [];
+
+  let entries: QuoteOutboxEntry[] = readStored();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /** The send of another tab that never finished it (crashed) may be taken over */
+  const isAbandoned = (entry: QuoteOutboxEntry) =>
+    entry.status === 'sending' && !inFlight.has(entry.id) && (entry.claimedAt ?? 0) + claimTimeout <= Date.now();
+
+  /** Ready to send - `all` ignores the backoff */
+  const isDue = (entry: QuoteOutboxEntry, all: boolean) =>
+    entry.status === 'pending' ? all || entry.nextAttemptAt <= Date.now() : isAbandoned(entry);
+
+  // Storage holds the waiting entries of all tabs. This tab keeps its own
+  // version only of the entries it is sending and of the finished ones it shows.
+  const sync = () => {
+    const stored = readStored();
+    const storedById = new Map(stored.map((entry) => [entry.id, entry]));
+    const kept = entries.flatMap((entry) => {
+      if (inFlight.has(entry.id)) return [entry];
+      const current = storedById.get(entry.id);
+      if (current) return [current];
+      return isWaiting(entry) ? [] : [entry];
+    });
+    const keptIds = new Set(kept.map((entry) => entry.id));
+    entries = [...kept, ...stored.filter((entry) => !keptIds.has(entry.id))];
+    notify();
+  };
+
+  /** Store the new state of one entry (undefined: removed) - the other stored entries stay as they are */
+  const write = (id: string, entry?: QuoteOutboxEntry) => {
+    const stored = readStored();
+    const index = stored.findIndex((existing) => existing.id === id);
+    // Delivered and rejected entries are only kept for this page
+    const next = entry && isWaiting(entry) ? [entry] : [];
+    saveToStorage(storageKey, {
+      entries: index < 0 ? [...stored, ...next] : [...stored.slice(0, index), ...next, ...stored.slice(index + 1)],
+    });
+    if (!entry) entries = entries.filter((existing) => existing.id !== id);
+    else if (entries.some((existing) => existing.id === id)) entries = entries.map((existing) => (existing.id === id ? entry : existing));
+    else entries = [...entries, entry];
+    sync();
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    // Offline: the online event resumes
+    if (disposed || isBrowserOffline()) return;
+    const due = entries.flatMap((entry) => {
+      if (entry.status === 'pending') return [entry.nextAttemptAt];
+      return entry.status === 'sending' && !inFlight.has(entry.id) ? [(entry.claimedAt ?? 0) + claimTimeout] : [];
+    });
+    if (due.length === 0) return;
+    timer = setTimeout(() => { void run(false); }, Math.max(0, Math.min(...due) - Date.now()));
+  };
+
+  /**
+   * Mark an entry as sent by this tab. Re-reads storage first: undefined if
+   * another tab delivered, removed or claimed it meanwhile.
+   */
+  const claim = (id: string, all: boolean): QuoteOutboxEntry | undefined => {
+    const stored = readStored().find((entry) => entry.id === id);
+    if (!stored || !isDue(stored, all)) {
+      sync();
+      return undefined;
+    }
+    const claimed: QuoteOutboxEntry = { ...stored, status: 'sending', owner: tabId, claimedAt: Date.now() };
+    inFlight.add(id);
+    write(id, claimed);
+    return claimed;
+  };
+
+  /** Finish a send of this tab */
+  const release = (entry: QuoteOutboxEntry, changes: Partial<QuoteOutboxEntry>) => {
+    inFlight.delete(entry.id);
+    write(entry.id, { ...entry, owner: undefined, claimedAt: undefined, ...changes });
+  };
+
+  const deliver = async (entry: QuoteOutboxEntry) => {
+    try {
+      const res = await send(entry.request);
+      release(entry, res.success ? { status: 'delivered', error: undefined } : { status: 'rejected', error: res.message });
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      release(entry, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + Math.min(retryDelay * 2 ** (attempts - 1), maxRetryDelay),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  /** Send the due entries one after another - `all` ignores the backoff */
+  const run = (all: boolean): Promise<void> => {
+    if (running) return running;
+    running = (async () => {
+      const ids = entries.filter((entry) => isDue(entry, all)).map((entry) => entry.id);
+      for (const id of ids) {
+        if (disposed || isBrowserOffline()) break;
+        const entry = claim(id, all);
+        if (entry) await deliver(entry);
+      }
+    })().finally(() => {
+      running = null;
+      schedule();
+    });
+    return running;
+  };
+
+  // Another tab changed the outbox
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey) return;
+    sync();
+    schedule();
+  };
+
+  // A send interrupted by the page unload is retried by the next page load or another tab
+  const handlePageHide = () => {
+    entries
+      .filter((entry) => inFlight.has(entry.id))
+      .forEach((entry) => release(entry, { status: 'pending', nextAttemptAt: Date.now() }));
+  };
+
+  const handleOnline = () => { void run(true); };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener('pagehide', handlePageHide);
+  }
+  schedule();
+
+  return {
+    enqueue: (request) => {
+      const entry: QuoteOutboxEntry = {
+        id: request.inquiryNumber,
+        request,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: Date.now() + retryDelay,
+      };
+      // Submitting the same inquiry again replaces the stored request
+      entries = entries.filter((existing) => existing.id !== entry.id);
+      write(entry.id, entry);
+      schedule();
+    },
+    flush: () => run(true),
+    remove: (id) => write(id),
+    getEntries: () => entries,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    dispose: () => {
+      disposed = true;
+      clearTimeout(timer);
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('storage', handleStorage);
+        window.removeEventListener('pagehide', handlePageHide);
+      }
+    },
+  };
+};
+
+// ─── Hook ────────────────────────────────────────────────────
+
+/**
+ * Delivery status of an outbox for the host UI, e.g. a badge
+ * "2 Anfragen werden nachgesendet".
+ *
+ * @example
+ * const { waiting, entries, flush } = useQuoteOutbox(quoteOutbox);
+ */
+export const useQuoteOutbox = (outbox: QuoteOutbox) => {
+  const entries = useSyncExternalStore(outbox.subscribe, outbox.getEntries, outbox.getEntries);
+  return {
+    entries,
+    /** Requests not delivered yet (pending or sending) */
+    waiting: entries.filter(isWaiting).length,
+    flush: outbox.flush,
+    remove: outbox.remove,
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import React from 'react';
+import QuoteModal from './QuoteModal';
+import EmailModal from './EmailModal';
+import { getOpenModalCount } from './overlay';
+
+const quoteProps = {
+  items: [{ description: 'Rollenförderer SKR-50', quantity: 2, unitPrice: 450 }],
+  onSubmit: vi.fn().mockResolvedValue({ success: true }),
+};
+
+const emailProps = {
+  title: 'CAD Anfrage',
+  emailTo: 'cad-data@syskomp-group.com',
+  bodyWithoutContact: 'CAD-Daten bitte',
+};
+
+const overlayOf = (name: string) => screen.getByRole('dialog', { name }).parentElement as HTMLElement;
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('overlay', () => {
+  it('renders into document.body by default', () => {
+    const { container } = render(<QuoteModal {...quoteProps} onClose={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+    expect(overlayOf('Angebot anfordern').parentElement).toBe(document.body);
+  });
+
+  it('renders into a custom container', () => {
+    const target = document.createElement('div');
+    document.body.appendChild(target);
+    render(<QuoteModal {...quoteProps} onClose={vi.fn()} container={target} />);
+    expect(target).toContainElement(screen.getByRole('dialog'));
+    target.remove();
+  });
+
+  it('renders in place with disablePortal', () => {
+    const { container } = render(<EmailModal {...emailProps} onClose={vi.fn()} disablePortal />);
+    expect(container).toContainElement(screen.getByRole('dialog'));
+  });
+
+  it('locks body scroll until the last modal closes', () => {
+    const { rerender, unmount } = render(
+      <>
+        <QuoteModal {...quoteProps} onClose={vi.fn()} />
+        <EmailModal {...emailProps} onClose={vi.fn()} />
+      </>
+    );
+    expect(document.body.style.overflow).toBe('hidden');
+    expect(document.body.style.position).toBe('fixed');
+
+    rerender(<QuoteModal {...quoteProps} onClose={vi.fn()} />);
+    expect(document.body.style.overflow).toBe('hidden');
+
+    unmount();
+    expect(document.body.style.overflow).toBe('');
+    expect(document.body.style.position).toBe('');
+  });
+
+  it('does not lock scroll with lockScroll={false}', () => {
+    render(<QuoteModal {...quoteProps} onClose={vi.fn()} lockScroll={false} />);
+    expect(document.body.style.overflow).toBe('');
+  });
+
+  it('stacks a modal opened from another modal above it', async () => {
+    const user = userEvent.setup();
+    const Host = () => {
+      const [showQuote, setShowQuote] = React.useState(true);
+      const [showCad, setShowCad] = React.useState(false);
+      return (
+        <>
+          {showQuote && (
+            <QuoteModal
+              {...quoteProps}
+              description="CAD-Daten gibt es hier"
+              onClose={() => setShowQuote(false)}
+            />
+          )}
+          <button onClick={() => setShowCad(true)}>CAD anfragen</button>
+          {showCad && <EmailModal {...emailProps} onClose={() => setShowCad(false)} />}
+        </>
+      );
+    };
+    render(<Host />);
+    await user.click(screen.getByText('CAD anfragen'));
+
+    expect(getOpenModalCount()).toBe(2);
+    const quoteZ = Number(overlayOf('Angebot anfordern').style.zIndex);
+    const cadZ = Number(overlayOf('CAD Anfrage').style.zIndex);
+    expect(cadZ).toBeGreaterThan(quoteZ);
+
+    // Escape closes only the topmost modal
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog', { name: 'CAD Anfrage' })).not.toBeInTheDocument();
+    expect(screen.getByRole('dialog', { name: 'Angebot anfordern' })).toBeInTheDocument();
+    expect(getOpenModalCount()).toBe(1);
+  });
+});
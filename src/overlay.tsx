@@ -0,0 +1,137 @@
+/**
+ * Overlay infrastructure for Syskomp modals
+ * Portal rendering, body scroll lock and a stack manager for nested modals.
+ *
+ * Rendering into a portal keeps the modals out of host layouts that use
+ * transforms or their own z-index stacks (e.g. the 3D configurator canvas).
+ */
+
+import React, { useEffect, useId, useSyncExternalStore } from 'react';
+import { createPortal } from 'react-dom';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface OverlayOptions {
+  /** Element the modal is rendered into (default: document.body) */
+  container?: Element | null;
+  /** Render in place instead of into a portal (default: false) */
+  disablePortal?: boolean;
+  /** Lock page scrolling while the modal is open (default: true) */
+  lockScroll?: boolean;
+}
+
+// ─── Portal ──────────────────────────────────────────────────
+
+/** Renders children into `container` (default: document.body) */
+export const ModalPortal: React.FC<Pick<OverlayOptions, 'container' | 'disablePortal'> & { children?: React.ReactNode }> = ({
+  container,
+  disablePortal = false,
+  children,
+}) => {
+  if (disablePortal || typeof document === 'undefined') return <>{children}</>;
+  return createPortal(children, container || document.body);
+};
+
+// ─── Modal Stack ─────────────────────────────────────────────
+
+/** z-index distance between stacked modals */
+export const MODAL_STACK_Z_STEP = 10;
+
+let stack: string[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Number of Syskomp modals currently open */
+export const getOpenModalCount = (): number => stack.length;
+
+/**
+ * Registers the calling modal on the shared stack while mounted.
+ * `depth` is 0 for the first modal, 1 for a modal opened on top of it, ...
+ * Only the topmost modal should react to Escape.
+ */
+export const useModalStack = () => {
+  const id = useId();
+
+  useEffect(() => {
+    stack = [...stack, id];
+    emit();
+    return () => {
+      stack = stack.filter((entry) => entry !== id);
+      emit();
+    };
+  }, [id]);
+
+  const index = useSyncExternalStore(subscribe, () => stack.indexOf(id), () => -1);
+
+  return {
+    depth: Math.max(index, 0),
+    isTopmost: () => stack[stack.length - 1] === id,
+  };
+};
+
+// ─── Body Scroll Lock ────────────────────────────────────────
+
+let lockCount = 0;
+let savedBodyStyle: {
+  overflow: string;
+  position: string;
+  top: string;
+  width: string;
+  paddingRight: string;
+  scrollY: number;
+} | null = null;
+
+const lockBody = () => {
+  lockCount++;
+  if (lockCount > 1) return;
+
+  const body = document.body;
+  const scrollY = window.scrollY || 0;
+  const scrollbarWidth = window.innerWidth - document.documentElement.clientWidth;
+  savedBodyStyle = {
+    overflow: body.style.overflow,
+    position: body.style.position,
+    top: body.style.top,
+    width: body.style.width,
+    paddingRight: body.style.paddingRight,
+    scrollY,
+  };
+
+  // position: fixed is what stops iOS Safari from scrolling the page behind;
+  // overflow: hidden alone is ignored there
+  body.style.overflow = 'hidden';
+  body.style.position = 'fixed';
+  body.style.top = `-${scrollY}px`;
+  body.style.width = '100%';
+  // Keep the layout from jumping when the scrollbar disappears
+  if (scrollbarWidth > 0) body.style.paddingRight = `${scrollbarWidth}px`;
+};
+
+const unlockBody = () => {
+  lockCount = Math.max(0, lockCount - 1);
+  if (lockCount > 0 || !savedBodyStyle) return;
+
+  const body = document.body;
+  const { scrollY, ...style } = savedBodyStyle;
+  Object.assign(body.style, style);
+  savedBodyStyle = null;
+  if (scrollY > 0) window.scrollTo(0, scrollY);
+};
+
+/**
+ * Prevents the page behind from scrolling while active.
+ * Reference-counted, so stacked modals unlock only when the last one closes.
+ */
+export const useBodyScrollLock = (active = true) => {
+  useEffect(() => {
+    if (!active || typeof document === 'undefined') return;
+    lockBody();
+    return unlockBody;
+  }, [active]);
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parsePhoneNumber, toE164, toInternationalPhone, phoneCountryFromLocale } from './phone';
+
+describe('phone', () => {
+  it('reads national numbers with the calling code of the country', () => {
+    expect(parsePhoneNumber('0172 1234567', 'DE')).toEqual({
+      e164: '+491721234567', international: '+49 172 1234567', country: 'DE', valid: true,
+    });
+    expect(parsePhoneNumber('079 123 45 67', 'CH')?.e164).toBe('+41791234567');
+    // No trunk prefix in Poland
+    expect(parsePhoneNumber('512 345 678', 'PL')?.international).toBe('+48 512 345 678');
+  });
+
+  it('keeps the calling code of international numbers', () => {
+    expect(parsePhoneNumber('+41 (0)79 123 45 67', 'DE')).toMatchObject({ e164: '+41791234567', country: 'CH', valid: true });
+    expect(parsePhoneNumber('00420 601 123 456', 'DE')).toMatchObject({ e164: '+420601123456', country: 'CZ' });
+    const us = parsePhoneNumber('+1 212 555 0100', 'DE');
+    expect(us).toMatchObject({ e164: '+12125550100', international: '+1 212 555 0100', valid: true });
+    expect(us?.country).toBeUndefined();
+  });
+
+  it('flags implausible lengths per country', () => {
+    expect(parsePhoneNumber('079 123 45', 'CH')?.valid).toBe(false);
+    expect(parsePhoneNumber('0711/123-456', 'DE')?.valid).toBe(true);
+    expect(parsePhoneNumber('+45 1234', 'DE')?.valid).toBe(false);
+    expect(parsePhoneNumber('', 'DE')).toBeNull();
+  });
+
+  it('converts for storage and display', () => {
+    expect(toE164('0711 123456', 'DE')).toBe('+49711123456');
+    expect(toE164('')).toBe('');
+    expect(toInternationalPhone('0711 123456', 'DE')).toBe('+49 711 123456');
+    // Implausible input is passed through unchanged
+    expect(toInternationalPhone('12', 'DE')).toBe('12');
+  });
+
+  it('derives the default country from the browser locale', () => {
+    expect(phoneCountryFromLocale('de-CH')).toBe('CH');
+    expect(phoneCountryFromLocale('fr')).toBe('FR');
+    expect(phoneCountryFromLocale('en-US')).toBe('DE');
+    expect(phoneCountryFromLocale(undefined)).toBe('DE');
+  });
+});
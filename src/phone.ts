@@ -0,0 +1,152 @@
+/**
+ * Phone number normalization
+ * Turns what the customer typed ("0172 1234567", "+41 (0)79 123 45 67")
+ * into E.164 ("+491721234567") plus a readable international form
+ * ("+49 172 1234567"), so sales can tell a Swiss from a German number.
+ */
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface PhoneCountry {
+  /** International calling code without "+" */
+  callingCode: string;
+  /** Allowed length of the national significant number (digits after the calling code) */
+  minLength: number;
+  maxLength: number;
+  /** National trunk prefix that is dropped in international format */
+  trunkPrefix?: string;
+}
+
+export interface ParsedPhoneNumber {
+  /** "+491721234567" */
+  e164: string;
+  /** "+49 172 1234567" - keeps the customer's grouping */
+  international: string;
+  /** ISO country the calling code belongs to (undefined for codes not in PHONE_COUNTRIES) */
+  country?: string;
+  /** Plausible length for the country */
+  valid: boolean;
+}
+
+// ─── Countries ───────────────────────────────────────────────
+
+/** Countries of the QuoteModal "Land" dropdown */
+export const PHONE_COUNTRIES: Record<string, PhoneCountry> = {
+  DE: { callingCode: '49', minLength: 6, maxLength: 13, trunkPrefix: '0' },
+  AT: { callingCode: '43', minLength: 4, maxLength: 13, trunkPrefix: '0' },
+  CH: { callingCode: '41', minLength: 9, maxLength: 9, trunkPrefix: '0' },
+  NL: { callingCode: '31', minLength: 9, maxLength: 9, trunkPrefix: '0' },
+  BE: { callingCode: '32', minLength: 8, maxLength: 9, trunkPrefix: '0' },
+  FR: { callingCode: '33', minLength: 9, maxLength: 9, trunkPrefix: '0' },
+  PL: { callingCode: '48', minLength: 9, maxLength: 9 },
+  CZ: { callingCode: '420', minLength: 9, maxLength: 9 },
+  DK: { callingCode: '45', minLength: 8, maxLength: 8 },
+  LU: { callingCode: '352', minLength: 4, maxLength: 11 },
+};
+
+const DEFAULT_COUNTRY = 'DE';
+
+/** Language → country for browser locales without a region ("de", "fr", …) */
+const LANGUAGE_COUNTRIES: Record<string, string> = {
+  de: 'DE', fr: 'FR', nl: 'NL', pl: 'PL', cs: 'CZ', da: 'DK', lb: 'LU',
+};
+
+/**
+ * Phone country for a BCP 47 tag: the region if supported ("de-CH" → "CH"),
+ * else the main country of the language ("fr" → "FR"), else "DE".
+ */
+export const phoneCountryFromLocale = (tag: string | undefined | null): string => {
+  const [language, region] = (tag || '').split(/[-_]/);
+  const upper = region?.toUpperCase();
+  if (upper && PHONE_COUNTRIES[upper]) return upper;
+  return LANGUAGE_COUNTRIES[language?.toLowerCase()] || DEFAULT_COUNTRY;
+};
+
+/** Country for calling code digits at the start of `digits` (longest match) */
+const countryForDigits = (digits: string): string | undefined => {
+  let match: string | undefined;
+  for (const [country, { callingCode }] of Object.entries(PHONE_COUNTRIES)) {
+    if (digits.startsWith(callingCode) && (!match || callingCode.length > PHONE_COUNTRIES[match].callingCode.length)) {
+      match = country;
+    }
+  }
+  return match;
+};
+
+/** Drop the first `count` digits of `text`, keeping the separators after them */
+const dropDigits = (text: string, count: number): string => {
+  let seen = 0;
+  let i = 0;
+  while (i < text.length && seen < count) {
+    if (/\d/.test(text[i])) seen++;
+    i++;
+  }
+  return text.slice(i);
+};
+
+// ─── Public API ──────────────────────────────────────────────
+
+/**
+ * Parse a phone number. National numbers are read with the calling code of
+ * `defaultCountry`; "+…" and "00…" numbers keep their own code.
+ * Returns null for empty input.
+ *
+ * @example
+ * parsePhoneNumber('079 123 45 67', 'CH')
+ * // { e164: '+41791234567', international: '+41 79 123 45 67', country: 'CH', valid: true }
+ */
+export const parsePhoneNumber = (input: string, defaultCountry: string = DEFAULT_COUNTRY): ParsedPhoneNumber | null => {
+  // "(0)" is the optional trunk prefix in "+49 (0)711 …" - never dialled internationally
+  const text = input.replace(/\(0\)/g, ' ').replace(/[^0-9+\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  const digits = text.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const international = text.startsWith('+') || text.startsWith('00');
+  if (international) {
+    const withoutPrefix = text.startsWith('+') ? text.slice(1) : text.slice(2);
+    const allDigits = withoutPrefix.replace(/\D/g, '');
+    const country = countryForDigits(allDigits);
+    if (!country) {
+      // Unknown calling code - E.164 allows at most 15 digits
+      return {
+        e164: `+${allDigits}`,
+        international: `+${withoutPrefix.trim()}`,
+        valid: allDigits.length >= 7 && allDigits.length <= 15,
+      };
+    }
+    const { callingCode, minLength, maxLength } = PHONE_COUNTRIES[country];
+    const national = allDigits.slice(callingCode.length);
+    const rest = dropDigits(withoutPrefix, callingCode.length).trim();
+    return {
+      e164: `+${callingCode}${national}`,
+      international: `+${callingCode} ${rest}`,
+      country,
+      valid: national.length >= minLength && national.length <= maxLength,
+    };
+  }
+
+  const country = PHONE_COUNTRIES[defaultCountry.toUpperCase()] ? defaultCountry.toUpperCase() : DEFAULT_COUNTRY;
+  const { callingCode, minLength, maxLength, trunkPrefix } = PHONE_COUNTRIES[country];
+  const hasTrunk = !!trunkPrefix && digits.startsWith(trunkPrefix);
+  const national = hasTrunk ? digits.slice(trunkPrefix!.length) : digits;
+  const rest = hasTrunk ? dropDigits(text, trunkPrefix!.length).trim() : text;
+  return {
+    e164: `+${callingCode}${national}`,
+    international: `+${callingCode} ${rest}`,
+    country,
+    valid: national.length >= minLength && national.length <= maxLength,
+  };
+};
+
+/** E.164 form of `input`, or '' if empty */
+export const toE164 = (input: string, defaultCountry?: string): string =>
+  parsePhoneNumber(input, defaultCountry)?.e164 ?? '';
+
+/**
+ * Readable international form of `input` if it parses as a plausible number,
+ * otherwise `input` unchanged (e.g. numbers saved before normalization).
+ */
+export const toInternationalPhone = (input: string, defaultCountry?: string): string => {
+  const parsed = parsePhoneNumber(input, defaultCountry);
+  return parsed?.valid ? parsed.international : input;
+};
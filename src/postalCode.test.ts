@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import {
+  offlinePostalCodeLookup,
+  createOfflinePostalCodeLookup,
+  createRemotePostalCodeLookup,
+  combinePostalCodeLookups,
+  lookupPostalCode,
+  usePostalCodeLookup,
+} from './postalCode';
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body }) as Response;
+
+describe('postalCode', () => {
+  it('resolves bundled DE / AT / CH codes offline', async () => {
+    expect(await offlinePostalCodeLookup('DE', '80331')).toEqual(['München']);
+    expect(await offlinePostalCodeLookup('at', '1010')).toEqual(['Wien']);
+    expect(await offlinePostalCodeLookup('CH', '8001')).toEqual(['Zürich']);
+    expect(await offlinePostalCodeLookup('DE', '00000')).toEqual([]);
+  });
+
+  it('returns every place of a shared code', async () => {
+    const lookup = createOfflinePostalCodeLookup({ DE: { '99999': ['Nordheim', 'Südheim'] } });
+    expect(await lookup('DE', '99999')).toEqual(['Nordheim', 'Südheim']);
+  });
+
+  it('reads all places from the remote API', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      places: [{ 'place name': 'Nordheim' }, { 'place name': 'Südheim' }],
+    }));
+    const lookup = createRemotePostalCodeLookup({ baseUrl: '/api/plz/', fetch: fetchMock });
+
+    expect(await lookup('DE', '99999')).toEqual(['Nordheim', 'Südheim']);
+    expect(fetchMock).toHaveBeenCalledWith('/api/plz/de/99999', expect.anything());
+  });
+
+  it('treats 404 as unknown and other errors as failures', async () => {
+    const notFound = createRemotePostalCodeLookup({ fetch: vi.fn().mockResolvedValue(jsonResponse(404, {})) });
+    const broken = createRemotePostalCodeLookup({ fetch: vi.fn().mockResolvedValue(jsonResponse(502, {})) });
+    expect(await notFound('DE', '99999')).toEqual([]);
+    await expect(broken('DE', '99999')).rejects.toThrow('502');
+  });
+
+  it('falls back to the next provider when one is empty or fails', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('offline'));
+    const remote = vi.fn().mockResolvedValue(['Nordheim']);
+    const lookup = combinePostalCodeLookups(offlinePostalCodeLookup, failing, remote);
+
+    expect(await lookup('DE', '80331')).toEqual(['München']);
+    expect(remote).not.toHaveBeenCalled();
+    expect(await lookup('DE', '99999')).toEqual(['Nordheim']);
+  });
+
+  it('caches results per provider but not failures', async () => {
+    const lookup = vi.fn()
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValue(['Nordheim']);
+
+    await expect(lookupPostalCode(lookup, 'DE', '99999')).rejects.toThrow('network');
+    expect(await lookupPostalCode(lookup, 'DE', '99999')).toEqual(['Nordheim']);
+    expect(await lookupPostalCode(lookup, 'de', ' 99999 ')).toEqual(['Nordheim']);
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a shared lookup running when one caller aborts', async () => {
+    let resolve = (_: string[]) => {};
+    const lookup = vi.fn((_country: string, _code: string, options?: { signal?: AbortSignal }) =>
+      new Promise<string[]>((r, reject) => {
+        resolve = r;
+        options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const aborted = lookupPostalCode(lookup, 'DE', '88888', { signal: first.signal });
+    const waiting = lookupPostalCode(lookup, 'DE', '88888', { signal: second.signal });
+    first.abort();
+    await expect(aborted).rejects.toBeDefined();
+    resolve(['Südheim']);
+    expect(await waiting).toEqual(['Südheim']);
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    // No caller left: the provider call is aborted and not cached
+    const last = new AbortController();
+    const pending = lookupPostalCode(lookup, 'DE', '77777', { signal: last.signal });
+    last.abort();
+    await expect(pending).rejects.toBeDefined();
+    expect(lookup.mock.calls[1][2]?.signal?.aborted).toBe(true);
+  });
+
+  it('does not loop with an inline lookup function', async () => {
+    const lookup = vi.fn().mockResolvedValue(['Stuttgart']);
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return usePostalCodeLookup((country, code) => lookup(country, code), 'DE', '70173', 0);
+    });
+
+    await waitFor(() => expect(result.current).toEqual(['Stuttgart']));
+    expect(renders).toBeLessThan(5);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+});
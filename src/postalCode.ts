@@ -0,0 +1,210 @@
+/**
+ * Postal code lookup ("PLZ → Ort")
+ * Pluggable providers for the city auto-fill in QuoteModal.
+ *
+ * The default is the bundled offline dataset - no customer data leaves the
+ * page. A remote provider (Zippopotam.us or a host proxy) can be added
+ * explicitly, e.g. behind the offline one as a fallback.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { POSTAL_CODES } from './postalCodeData';
+import type { PostalCodeDataset } from './postalCodeData';
+
+// ─── Public Types ────────────────────────────────────────────
+
+/**
+ * Resolves a postal code to the place names it belongs to.
+ * Returns an empty array if the code is unknown; may reject on network errors.
+ */
+export type PostalCodeLookup = (
+  country: string,
+  postalCode: string,
+  options?: { signal?: AbortSignal }
+) => Promise<string[]>;
+
+export interface RemotePostalCodeLookupOptions {
+  /** API base URL - point this to a host proxy to keep requests first-party (default: Zippopotam.us) */
+  baseUrl?: string;
+  /** Custom fetch, e.g. with auth headers (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+// ─── Providers ───────────────────────────────────────────────
+
+/** Offline lookup over a dataset in the `POSTAL_CODES` format */
+export const createOfflinePostalCodeLookup = (dataset: PostalCodeDataset): PostalCodeLookup =>
+  async (country, postalCode) => {
+    const entry = dataset[country.toUpperCase()]?.[postalCode.trim()];
+    if (!entry) return [];
+    return Array.isArray(entry) ? [...entry] : [entry];
+  };
+
+/** Offline lookup over the bundled DE / AT / CH dataset (default provider) */
+export const offlinePostalCodeLookup: PostalCodeLookup = createOfflinePostalCodeLookup(POSTAL_CODES);
+
+/**
+ * Remote lookup via the Zippopotam.us API format (`{baseUrl}/{country}/{code}`).
+ * Returns all places of the code, not just the first one.
+ */
+export const createRemotePostalCodeLookup = (options: RemotePostalCodeLookupOptions = {}): PostalCodeLookup => {
+  const baseUrl = (options.baseUrl || 'https://api.zippopotam.us').replace(/\/$/, '');
+  return async (country, postalCode, { signal } = {}) => {
+    const doFetch = options.fetch || fetch;
+    const res = await doFetch(
+      `${baseUrl}/${encodeURIComponent(country.toLowerCase())}/${encodeURIComponent(postalCode.trim())}`,
+      { signal }
+    );
+    if (res.status === 404) return [];
+    if (!res.ok) throw new Error(`Postal code lookup failed: ${res.status}`);
+    const data = await res.json();
+    const places: unknown[] = Array.isArray(data?.places) ? data.places : [];
+    return places
+      .map((place) => (place as Record<string, unknown>)?.['place name'])
+      .filter((name): name is string => typeof name === 'string' && name.length > 0);
+  };
+};
+
+/**
+ * Tries the lookups in order and returns the first non-empty result.
+ * A failing provider is skipped.
+ *
+ * @example
+ * combinePostalCodeLookups(offlinePostalCodeLookup, createRemotePostalCodeLookup({ baseUrl: '/api/plz' }))
+ */
+export const combinePostalCodeLookups = (...lookups: PostalCodeLookup[]): PostalCodeLookup =>
+  async (country, postalCode, options) => {
+    for (const lookup of lookups) {
+      try {
+        const places = await lookup(country, postalCode, options);
+        if (places.length) return places;
+      } catch (err) {
+        if (options?.signal?.aborted) throw err;
+      }
+    }
+    return [];
+  };
+
+// ─── Cache ───────────────────────────────────────────────────
+
+/** One provider call, shared by all callers of the same code */
+interface SharedLookup {
+  promise: Promise<string[]>;
+  /** Aborts the provider call once every caller has given up */
+  controller: AbortController;
+  callers: number;
+  settled: boolean;
+}
+
+const caches = new WeakMap<PostalCodeLookup, Map<string, SharedLookup>>();
+
+/**
+ * Lookup with a per-provider cache (shared across modal instances).
+ * Failed or aborted lookups are not cached. A caller's signal only ends its
+ * own wait - the provider call is aborted when no caller is left.
+ */
+export const lookupPostalCode = (
+  lookup: PostalCodeLookup,
+  country: string,
+  postalCode: string,
+  options?: { signal?: AbortSignal }
+): Promise<string[]> => {
+  let cache = caches.get(lookup);
+  if (!cache) {
+    cache = new Map();
+    caches.set(lookup, cache);
+  }
+  const key = `${country.toUpperCase()}:${postalCode.trim()}`;
+  let shared = cache.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: SharedLookup = {
+      promise: lookup(country, postalCode, { signal: controller.signal }),
+      controller,
+      callers: 0,
+      settled: false,
+    };
+    entry.promise.then(
+      () => { entry.settled = true; },
+      () => {
+        entry.settled = true;
+        if (cache!.get(key) === entry) cache!.delete(key);
+      }
+    );
+    cache.set(key, entry);
+    shared = entry;
+  }
+
+  const entry = shared;
+  entry.callers++;
+  const signal = options?.signal;
+  if (!signal) return entry.promise;
+
+  const release = () => {
+    entry.callers--;
+    if (entry.callers === 0 && !entry.settled) {
+      entry.controller.abort();
+      if (cache!.get(key) === entry) cache!.delete(key);
+    }
+  };
+  if (signal.aborted) {
+    release();
+    return Promise.reject(signal.reason);
+  }
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      release();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    entry.promise.then(
+      (places) => { signal.removeEventListener('abort', handleAbort); resolve(places); },
+      (error) => { signal.removeEventListener('abort', handleAbort); reject(error); }
+    );
+  });
+};
+
+// ─── Hook ────────────────────────────────────────────────────
+
+/** Minimum postal code length before a lookup is started */
+const MIN_LENGTH = 4;
+
+/**
+ * Debounced, cached lookup of the places for `postalCode`.
+ * Pass `false` as lookup to disable it (always returns []). The cache is kept
+ * per lookup function - pass a stable one (module constant, useMemo) to share it.
+ */
+export const usePostalCodeLookup = (
+  lookup: PostalCodeLookup | false,
+  country: string,
+  postalCode: string,
+  delay = 400
+): string[] => {
+  const [places, setPlaces] = useState<string[]>([]);
+  // Latest lookup without restarting the effect - an inline function would
+  // otherwise start a new lookup on every render
+  const lookupRef = useRef(lookup);
+  lookupRef.current = lookup;
+  const enabled = lookup !== false;
+
+  useEffect(() => {
+    const code = postalCode.trim();
+    const countryCode = country.trim();
+    // Keep the same array if already empty - no extra render
+    setPlaces((current) => (current.length ? [] : current));
+    if (!enabled || code.length < MIN_LENGTH || !countryCode) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const current = lookupRef.current;
+      if (!current) return;
+      try {
+        const result = await lookupPostalCode(current, countryCode, code, { signal: controller.signal });
+        if (!controller.signal.aborted) setPlaces(result);
+      } catch { /* ignore abort / network errors */ }
+    }, delay);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [enabled, country, postalCode, delay]);
+
+  return places;
+};
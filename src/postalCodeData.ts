@@ -0,0 +1,90 @@
+/**
+ * Bundled offline postal code dataset for DE / AT / CH
+ *
+ * Compact by design (the library ships inside configurator bundles): the
+ * central postal codes of larger towns. Hosts that need full coverage can pass
+ * a complete dataset (e.g. a GeoNames export) to `createOfflinePostalCodeLookup`.
+ *
+ * Format: country (ISO 3166-1 alpha-2) → postal code → place name(s).
+ * Codes shared by several places list all of them.
+ */
+
+export type PostalCodeDataset = Record<string, Record<string, string | string[]>>;
+
+export const POSTAL_CODES: PostalCodeDataset = {
+  DE: {
+    '01067': 'Dresden',
+    '04109': 'Leipzig',
+    '06108': 'Halle (Saale)',
+    '10115': 'Berlin',
+    '14467': 'Potsdam',
+    '18055': 'Rostock',
+    '20095': 'Hamburg',
+    '23552': 'Lübeck',
+    '24103': 'Kiel',
+    '26122': 'Oldenburg',
+    '28195': 'Bremen',
+    '30159': 'Hannover',
+    '33602': 'Bielefeld',
+    '34117': 'Kassel',
+    '38100': 'Braunschweig',
+    '39104': 'Magdeburg',
+    '40213': 'Düsseldorf',
+    '41061': 'Mönchengladbach',
+    '42103': 'Wuppertal',
+    '44135': 'Dortmund',
+    '44787': 'Bochum',
+    '45127': 'Essen',
+    '45879': 'Gelsenkirchen',
+    '47051': 'Duisburg',
+    '48143': 'Münster',
+    '49074': 'Osnabrück',
+    '50667': 'Köln',
+    '52062': 'Aachen',
+    '53111': 'Bonn',
+    '55116': 'Mainz',
+    '60311': 'Frankfurt am Main',
+    '65183': 'Wiesbaden',
+    '66111': 'Saarbrücken',
+    '68159': 'Mannheim',
+    '69117': 'Heidelberg',
+    '70173': 'Stuttgart',
+    '76133': 'Karlsruhe',
+    '79098': 'Freiburg im Breisgau',
+    '80331': 'München',
+    '86150': 'Augsburg',
+    '89073': 'Ulm',
+    '90402': 'Nürnberg',
+    '93047': 'Regensburg',
+    '97070': 'Würzburg',
+    '99084': 'Erfurt',
+  },
+  AT: {
+    '1010': 'Wien',
+    '3100': 'St. Pölten',
+    '4020': 'Linz',
+    '4600': 'Wels',
+    '5020': 'Salzburg',
+    '6020': 'Innsbruck',
+    '6900': 'Bregenz',
+    '7000': 'Eisenstadt',
+    '8010': 'Graz',
+    '9020': 'Klagenfurt am Wörthersee',
+    '9500': 'Villach',
+  },
+  CH: {
+    '1003': 'Lausanne',
+    '1201': 'Genève',
+    '1700': 'Fribourg',
+    '2502': 'Biel/Bienne',
+    '3011': 'Bern',
+    '4001': 'Basel',
+    '6003': 'Luzern',
+    '6900': 'Lugano',
+    '7000': 'Chur',
+    '8001': 'Zürich',
+    '8200': 'Schaffhausen',
+    '8400': 'Winterthur',
+    '9000': 'St. Gallen',
+  },
+};
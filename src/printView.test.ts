@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildPrintDocument, printDocument, quoteContactLines } from './printView';
+import { MESSAGES } from './i18n';
+
+const t = MESSAGES.de;
+
+const items = [
+  { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 2, unit: 'Stk', unitPrice: 450 },
+  { description: 'Montage <vor Ort>', quantity: 1 },
+];
+
+describe('buildPrintDocument', () => {
+  const html = buildPrintDocument({
+    title: 'Angebot anfordern',
+    inquiryNumber: '20260101-120000-ABCD',
+    date: '19.10.2026',
+    contactLines: ['Herr Max Mustermann', 'Test GmbH'],
+    description: 'Förderstrecke 3 m',
+    items,
+    note: 'Bitte bis Freitag',
+    privacyNotice: t.privacyNotice,
+    labels: t,
+  });
+
+  it('is an A4 document with header, inquiry number and date', () => {
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('@page { size: A4;');
+    expect(html).toContain('<div class="brand">SYSKOMP</div>');
+    expect(html).toContain('Anfrage-Nr.: #20260101-120000-ABCD<br>Datum: 19.10.2026');
+  });
+
+  it('contains contact, description, note and privacy note', () => {
+    expect(html).toContain('<h2>Kontakt</h2><div class="block">Herr Max Mustermann<br>Test GmbH</div>');
+    expect(html).toContain('Förderstrecke 3 m');
+    expect(html).toContain('<h2>Hinweis für Syskomp</h2>');
+    expect(html).toContain(`<footer>${t.privacyNotice}</footer>`);
+  });
+
+  it('lists items with unit prices, line totals and the net total', () => {
+    expect(html).toContain('<th class="right">Einzelpreis</th><th class="right">Gesamtpreis</th>');
+    expect(html).toContain('<td class="right">450,00 EUR</td><td class="right">900,00 EUR</td>');
+    expect(html).toContain('Montage &lt;vor Ort&gt;');
+    expect(html).toContain('<td class="right">auf Anfrage</td><td class="right"></td>');
+    expect(html).toContain('<tr class="sum first total"><td colspan="4">Gesamt (netto):</td><td class="right">900,00 EUR</td></tr>');
+  });
+
+  it('adds the discount, VAT and gross total in the given currency', () => {
+    const swiss = buildPrintDocument({
+      title: 'Angebot', inquiryNumber: '1', items, currency: 'CHF', priceLocale: 'de-CH', discountPercent: 5, vatRate: 8.1, labels: t,
+    });
+    expect(swiss).toContain('<tr class="sum first"><td colspan="4">Zwischensumme (netto):</td><td class="right">900.00 CHF</td></tr>');
+    expect(swiss).toContain('<tr class="sum total"><td colspan="4">Gesamt (netto):</td><td class="right">855.00 CHF</td></tr>');
+    expect(swiss).toContain('<tr class="sum total"><td colspan="4">Gesamt (brutto):</td><td class="right">924.26 CHF</td></tr>');
+  });
+
+  it('leaves out prices and empty sections', () => {
+    const plain = buildPrintDocument({ title: 'CAD', inquiryNumber: '1', items, showPrices: false, labels: t });
+    expect(plain).not.toContain('Einzelpreis');
+    expect(plain).not.toContain('class="sum');
+    expect(plain).not.toContain('<h2>Kontakt</h2>');
+    expect(plain).not.toContain('<footer>');
+  });
+});
+
+describe('quoteContactLines', () => {
+  it('formats name, company, VAT ID, address, email and phone', () => {
+    expect(
+      quoteContactLines(
+        {
+          salutation: 'Frau', firstName: 'Anna', lastName: 'Muster', department: '', company: 'Test GmbH',
+          vatId: 'DE123456788', street: 'Musterstr', houseNumber: '42', zip: '12345', city: 'Berlin', country: 'DE',
+          email: 'anna@test.de', phone: '+49 30 1234567', phoneE164: '+49301234567', note: '',
+        },
+        MESSAGES.en
+      )
+    ).toEqual([
+      'Ms Anna Muster', 'Test GmbH', 'VAT ID: DE123456788', 'Musterstr 42', '12345 Berlin', 'DE', 'anna@test.de', '+49 30 1234567',
+    ]);
+  });
+});
+
+describe('printDocument', () => {
+  it('prints from a hidden iframe', () => {
+    const print = vi.fn();
+    const frames: HTMLIFrameElement[] = [];
+    const appendChild = vi.spyOn(document.body, 'appendChild').mockImplementation(function (this: HTMLElement, node) {
+      const appended = Node.prototype.appendChild.call(this, node);
+      if (node instanceof HTMLIFrameElement) {
+        frames.push(node);
+        node.contentWindow!.print = print;
+      }
+      return appended;
+    });
+
+    printDocument('<!DOCTYPE html><html><body><p>Angebot</p></body></html>');
+    expect(print).toHaveBeenCalledTimes(1);
+    expect(frames[0].getAttribute('aria-hidden')).toBe('true');
+    expect(frames[0].contentDocument!.body.textContent).toBe('Angebot');
+
+    frames[0].contentWindow!.dispatchEvent(new Event('afterprint'));
+    expect(frames[0].isConnected).toBe(false);
+    appendChild.mockRestore();
+  });
+
+  it('removes the frame without afterprint', () => {
+    vi.useFakeTimers();
+    const frames = (): HTMLIFrameElement[] => Array.from(document.querySelectorAll('iframe'));
+    let blocked = false;
+    const appendChild = vi.spyOn(document.body, 'appendChild').mockImplementation(function (this: HTMLElement, node) {
+      const appended = Node.prototype.appendChild.call(this, node);
+      if (node instanceof HTMLIFrameElement) {
+        node.contentWindow!.print = () => { if (blocked) throw new Error('blocked'); };
+      }
+      return appended;
+    });
+
+    // Focus back on the page after the dialog
+    printDocument('<p>Angebot</p>');
+    expect(frames()).toHaveLength(1);
+    window.dispatchEvent(new Event('focus'));
+    expect(frames()).toHaveLength(0);
+
+    // Neither afterprint nor focus
+    printDocument('<p>Angebot</p>');
+    vi.advanceTimersByTime(60_000);
+    expect(frames()).toHaveLength(0);
+
+    // print() throws
+    blocked = true;
+    expect(() => printDocument('<p>Angebot</p>')).toThrow('blocked');
+    expect(frames()).toHaveLength(0);
+
+    appendChild.mockRestore();
+    vi.useRealTimers();
+  });
+});
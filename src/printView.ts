@@ -0,0 +1,179 @@
+/**
+ * Print view
+ * A4 summary of an inquiry (header, inquiry number, contact, description,
+ * item table, privacy note) printed from a hidden iframe - the browser's
+ * print dialog doubles as "save as PDF", no PDF library needed.
+ */
+
+import { formatMessage } from './i18n';
+import type { Messages } from './i18n';
+import { defaultTheme } from './theme';
+import type { SyskompTheme } from './theme';
+import { buildItemTable, textToHtml } from './items';
+import type { PricingOptions, QuoteDisplayItem } from './items';
+import { formatAddress } from './address';
+import type { QuoteContactData } from './quoteForm';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface PrintViewData extends PricingOptions {
+  title: string;
+  inquiryNumber: string;
+  /** Formatted date (default: today in `locale`) */
+  date?: string;
+  /** Language of the document, e.g. "de" */
+  locale?: string;
+  /** Contact block, one line each (name, company, address, email …) */
+  contactLines?: string[];
+  /** Product description / configuration summary */
+  description?: string;
+  items?: QuoteDisplayItem[];
+  /** Unit prices, line totals and the totals (default: true) */
+  showPrices?: boolean;
+  /** Free-text note of the customer */
+  note?: string;
+  /** Printed at the bottom */
+  privacyNotice?: string;
+  /** Messages of the UI locale - the print is for the customer */
+  labels: Messages;
+}
+
+// ─── Document ────────────────────────────────────────────────
+
+const printStyles = ({ colors, typography }: SyskompTheme) => `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: ${typography.fontFamily}; font-size: 10pt; line-height: 1.45; color: #111; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; padding-bottom: 8px; border-bottom: 2px solid ${colors.skBlau}; margin-bottom: 16px; }
+  .brand { font-size: 20pt; font-weight: 700; letter-spacing: 0.04em; color: ${colors.skBlau}; }
+  .meta { text-align: right; font-size: 9pt; color: ${colors.muted}; }
+  h1 { font-size: 14pt; margin: 0 0 12px 0; color: ${colors.skBlau}; }
+  h2 { font-size: 10.5pt; margin: 16px 0 6px 0; color: ${colors.skBlau}; }
+  .block { white-space: pre-line; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  th, td { padding: 4px 6px; text-align: left; vertical-align: top; border-bottom: 1px solid ${colors.surfaceBorder}; }
+  th { font-size: 9pt; color: ${colors.muted}; border-bottom: 1px solid ${colors.inputBorder}; }
+  .right { text-align: right; white-space: nowrap; }
+  .assembly td { font-weight: 600; }
+  .sum td { border-bottom: none; }
+  .sum.first td { border-top: 2px solid ${colors.inputBorder}; }
+  .sum.total td { font-weight: 700; }
+  footer { margin-top: 24px; padding-top: 8px; border-top: 1px solid ${colors.surfaceBorder}; font-size: 8pt; color: ${colors.muted}; }
+`;
+
+const itemTable = (items: QuoteDisplayItem[], data: PrintViewData): string => {
+  const { columns, rows, summary } = buildItemTable(items, data);
+  const cell = (tag: 'th' | 'td', text: string, align: 'left' | 'right', depth = 0) =>
+    `<${tag}${align === 'right' ? ' class="right"' : ''}${depth ? ` style="padding-left:${6 + 16 * depth}px"` : ''}>` +
+    `${textToHtml(text)}</${tag}>`;
+  const head = columns.map((column) => cell('th', column.label, column.align)).join('');
+  // Parts are indented below their assembly
+  const body = rows.map(({ cells, depth, assembly }) =>
+    `<tr${assembly ? ' class="assembly"' : ''}>` +
+    cells.map((text, col) => cell('td', text, columns[col].align, columns[col].key === 'description' ? depth : 0)).join('') +
+    '</tr>'
+  );
+  const totals = summary.map(({ label, amount, total }, idx) =>
+    `<tr class="sum${idx === 0 ? ' first' : ''}${total ? ' total' : ''}">` +
+    `<td colspan="${columns.length - 1}">${textToHtml(label)}</td>${cell('td', amount, 'right')}</tr>`
+  );
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body.join('')}${totals.join('')}</tbody></table>`;
+};
+
+/**
+ * Complete HTML document of the print view (A4 print styles included).
+ *
+ * @example
+ * printDocument(buildPrintDocument({ title: 'Angebot', inquiryNumber, items, labels: t }));
+ */
+export const buildPrintDocument = (data: PrintViewData, theme: SyskompTheme = defaultTheme): string => {
+  const { labels: t, items = [], locale = 'de' } = data;
+  const date = data.date ?? new Date().toLocaleDateString(locale);
+  const section = (title: string, content: string) => `<h2>${textToHtml(title)}</h2>${content}`;
+  const text = (value: string) => `<div class="block">${textToHtml(value)}</div>`;
+
+  const body = [
+    '<header>',
+    '<div class="brand">SYSKOMP</div>',
+    `<div class="meta">${textToHtml(t.printInquiryNumber)} #${textToHtml(data.inquiryNumber)}<br>` +
+      `${textToHtml(t.printDate)} ${textToHtml(date)}</div>`,
+    '</header>',
+    `<h1>${textToHtml(data.title)}</h1>`,
+    data.contactLines?.length ? section(t.printContact, text(data.contactLines.join('\n'))) : '',
+    data.description?.trim() ? section(t.printDescription, text(data.description.trim())) : '',
+    items.length ? section(formatMessage(t.itemsTitle, { count: items.length }), itemTable(items, data)) : '',
+    data.note?.trim() ? section(t.noteSection, text(data.note.trim())) : '',
+    data.privacyNotice ? `<footer>${textToHtml(data.privacyNotice)}</footer>` : '',
+  ].join('\n');
+
+  return (
+    `<!DOCTYPE html>\n<html lang="${locale}">\n<head>\n<meta charset="utf-8">\n` +
+    `<title>${textToHtml(`${data.title} #${data.inquiryNumber}`)}</title>\n` +
+    `<style>${printStyles(theme)}</style>\n</head>\n<body>\n${body}\n</body>\n</html>`
+  );
+};
+
+/** Contact block of a QuoteModal inquiry: name, department, company, VAT ID, address, email, phone */
+export const quoteContactLines = (contact: QuoteContactData, t: Messages): string[] => {
+  const salutation = contact.salutation === 'Frau' ? t.salutationMs : contact.salutation === 'Herr' ? t.salutationMr : '';
+  return [
+    [salutation, contact.firstName, contact.lastName].filter((part) => part.trim()).join(' '),
+    contact.department,
+    contact.company,
+    contact.vatId ? `${t.vatId}: ${contact.vatId}` : '',
+    ...formatAddress(contact),
+    contact.email,
+    contact.phone,
+  ].filter((line) => line.trim());
+};
+
+// ─── Printing ────────────────────────────────────────────────
+
+/** Longest time the hidden print frame stays in the page */
+const PRINT_FRAME_TIMEOUT = 60_000;
+
+/** Print an HTML document via a hidden iframe - the host page stays untouched */
+export const printDocument = (html: string): void => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  Object.assign(frame.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' });
+  document.body.appendChild(frame);
+
+  const view = frame.contentWindow;
+  const doc = frame.contentDocument;
+  if (!view || !doc) {
+    frame.remove();
+    return;
+  }
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  // Safari returns from print() before the dialog closes - remove the
+  // frame afterwards, not right away. afterprint does not fire everywhere
+  // (embedded / headless browsers), so focus returning to the page or a
+  // timeout removes it as well
+  let removed = false;
+  const cleanup = () => {
+    if (removed) return;
+    removed = true;
+    clearTimeout(timer);
+    window.removeEventListener('focus', cleanup);
+    frame.remove();
+  };
+  const timer = setTimeout(cleanup, PRINT_FRAME_TIMEOUT);
+  view.addEventListener('afterprint', cleanup);
+
+  let printed = false;
+  try {
+    view.focus();
+    view.print();
+    printed = true;
+  } finally {
+    if (printed) window.addEventListener('focus', cleanup);
+    else cleanup();
+  }
+};
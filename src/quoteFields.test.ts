@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_QUOTE_FIELDS, resolveQuoteFields, groupQuoteFieldRows, initialCustomValues } from './quoteFields';
+
+describe('quoteFields', () => {
+  it('resolves to the standard layout by default', () => {
+    const rows = groupQuoteFieldRows(resolveQuoteFields());
+    expect(rows.map((row) => row.map((field) => field.name))).toEqual([
+      ['salutation', 'firstName', 'lastName'],
+      ['department', 'email'],
+      ['company', 'vatId'],
+      ['street', 'houseNumber'],
+      ['country', 'zip', 'city'],
+    ]);
+  });
+
+  it('merges built-in overrides over their defaults', () => {
+    const [street, city] = resolveQuoteFields([{ name: 'street', required: false }, 'city']);
+    expect(street).toEqual({ name: 'street', row: 'street', flex: 3, required: false });
+    expect(city).toEqual({ name: 'city', row: 'place', flex: 1.5, required: true });
+  });
+
+  it('drops hidden and unlisted fields', () => {
+    const fields = resolveQuoteFields(
+      DEFAULT_QUOTE_FIELDS.map((field) => (field.name === 'department' ? { ...field, hidden: true } : field)).slice(0, 5)
+    );
+    expect(fields.map((field) => field.name)).toEqual(['salutation', 'firstName', 'lastName', 'email']);
+  });
+
+  it('starts a new row for fields without a shared row key', () => {
+    const rows = groupQuoteFieldRows(resolveQuoteFields([
+      'email',
+      { name: 'project', label: 'Projektname', type: 'text' },
+      { name: 'deadline', label: 'Liefertermin', type: 'date', row: 'project' },
+      { name: 'budget', label: 'Budget', type: 'text', row: 'project' },
+    ]));
+    expect(rows.map((row) => row.map((field) => field.name))).toEqual([['email'], ['project'], ['deadline', 'budget']]);
+  });
+
+  it('initializes custom values by type', () => {
+    expect(initialCustomValues(resolveQuoteFields([
+      'email',
+      { name: 'project', label: 'Projektname', type: 'text' },
+      { name: 'newsletter', label: 'Newsletter', type: 'checkbox' },
+      { name: 'industry', label: 'Branche', type: 'select', options: ['Auto'], defaultValue: 'Auto' },
+    ]))).toEqual({ project: '', newsletter: false, industry: 'Auto' });
+  });
+});
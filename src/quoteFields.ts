@@ -0,0 +1,117 @@
+/**
+ * QuoteModal field configuration
+ * Order, visibility, labels and required flags of the contact form fields,
+ * plus host-defined custom fields (text, select, checkbox, date).
+ */
+
+// ─── Public Types ────────────────────────────────────────────
+
+/** Built-in contact fields of the form (phone and note have their own controls) */
+export type QuoteFieldName =
+  | 'salutation' | 'firstName' | 'lastName' | 'department' | 'email' | 'company'
+  | 'vatId' | 'street' | 'houseNumber' | 'country' | 'zip' | 'city';
+
+export type QuoteCustomFieldType = 'text' | 'select' | 'checkbox' | 'date';
+
+/** Value of a custom field: checkbox → boolean, all others → string ('YYYY-MM-DD' for dates) */
+export type QuoteFieldValue = string | boolean;
+
+interface QuoteFieldBase {
+  /** Replaces the label (built-in default: from the locale) */
+  label?: string;
+  /** Shows the red star and rejects empty values (checkbox: unchecked) */
+  required?: boolean;
+  /** Not rendered, not validated */
+  hidden?: boolean;
+  /** Consecutive fields with the same row key are shown side by side */
+  row?: string;
+  /** Flex grow inside the row (default: 1) */
+  flex?: number;
+}
+
+export interface QuoteBuiltInFieldConfig extends QuoteFieldBase {
+  name: QuoteFieldName;
+}
+
+export interface QuoteCustomFieldConfig extends QuoteFieldBase {
+  /** Key in `customFields` of the submit context - must not be a built-in name */
+  name: string;
+  label: string;
+  type: QuoteCustomFieldType;
+  /** Options of a select field */
+  options?: (string | { value: string; label: string })[];
+  placeholder?: string;
+  /** Initial value (default: '' / false) */
+  defaultValue?: QuoteFieldValue;
+  /** Extra check for non-empty values - returns the error message, or undefined if valid */
+  validate?: (value: QuoteFieldValue) => string | undefined;
+}
+
+/** A built-in field name (keeps its defaults), a built-in override, or a custom field */
+export type QuoteFieldConfig = QuoteFieldName | QuoteBuiltInFieldConfig | QuoteCustomFieldConfig;
+
+export type ResolvedQuoteField = QuoteBuiltInFieldConfig | QuoteCustomFieldConfig;
+
+// ─── Defaults ────────────────────────────────────────────────
+
+/** The standard layout - copy and adjust it to reorder or extend the form */
+export const DEFAULT_QUOTE_FIELDS: QuoteBuiltInFieldConfig[] = [
+  { name: 'salutation', row: 'name', flex: 0.6, required: true },
+  { name: 'firstName', row: 'name', required: true },
+  { name: 'lastName', row: 'name', required: true },
+  { name: 'department', row: 'contact', flex: 0.8 },
+  { name: 'email', row: 'contact', flex: 1.4, required: true },
+  { name: 'company', row: 'company', flex: 1.6, required: true },
+  // required follows the `vatIdRequired` prop unless set here
+  { name: 'vatId', row: 'company' },
+  { name: 'street', row: 'street', flex: 3, required: true },
+  { name: 'houseNumber', row: 'street', required: true },
+  { name: 'country', row: 'place', flex: 0.5, required: true },
+  { name: 'zip', row: 'place', flex: 0.7, required: true },
+  { name: 'city', row: 'place', flex: 1.5, required: true },
+];
+
+const BUILT_IN_DEFAULTS = new Map(DEFAULT_QUOTE_FIELDS.map((field) => [field.name, field]));
+
+// ─── Public API ──────────────────────────────────────────────
+
+export const isBuiltInQuoteField = (field: ResolvedQuoteField): field is QuoteBuiltInFieldConfig =>
+  BUILT_IN_DEFAULTS.has(field.name as QuoteFieldName);
+
+/**
+ * Visible fields in display order. Built-in entries are merged over their
+ * defaults (so `{ name: 'street', required: false }` keeps label, row and flex);
+ * built-in fields missing from the list are not shown.
+ */
+export const resolveQuoteFields = (fields: QuoteFieldConfig[] = DEFAULT_QUOTE_FIELDS): ResolvedQuoteField[] =>
+  fields
+    .map((field): ResolvedQuoteField => {
+      const config = typeof field === 'string' ? { name: field } : field;
+      const defaults = BUILT_IN_DEFAULTS.get(config.name as QuoteFieldName);
+      return defaults ? { ...defaults, ...config } as QuoteBuiltInFieldConfig : config as QuoteCustomFieldConfig;
+    })
+    .filter((field) => !field.hidden);
+
+/** Split resolved fields into rows (consecutive fields sharing a `row` key) */
+export const groupQuoteFieldRows = (fields: ResolvedQuoteField[]): ResolvedQuoteField[][] => {
+  const rows: ResolvedQuoteField[][] = [];
+  fields.forEach((field, i) => {
+    const previous = fields[i - 1];
+    if (previous && field.row && field.row === previous.row) {
+      rows[rows.length - 1].push(field);
+    } else {
+      rows.push([field]);
+    }
+  });
+  return rows;
+};
+
+/** Initial values of the custom fields */
+export const initialCustomValues = (fields: ResolvedQuoteField[]): Record<string, QuoteFieldValue> => {
+  const values: Record<string, QuoteFieldValue> = {};
+  for (const field of fields) {
+    if (isBuiltInQuoteField(field)) continue;
+    values[field.name] = field.defaultValue ?? (field.type === 'checkbox' ? false : '');
+  }
+  return values;
+};
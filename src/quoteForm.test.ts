@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useQuoteForm, sanitizeQuoteField } from './quoteForm';
+import type { QuoteContactData, QuoteFormOptions } from './quoteForm';
+import { validateQuoteRequest } from './quoteRequest';
+import { createQuoteOutbox } from './outbox';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+const fill = (update: (field: keyof QuoteContactData, value: string) => void) => {
+  update('firstName', 'Max');
+  update('lastName', 'Mustermann');
+  update('email', 'max@test.de');
+  update('company', 'Test GmbH');
+  update('street', 'Musterstr');
+  update('houseNumber', '42');
+  update('zip', '12345');
+  update('city', 'Berlin');
+};
+
+describe('useQuoteForm', () => {
+  it('sanitizes input per field', () => {
+    expect(sanitizeQuoteField('firstName', 'Max1!')).toBe('Max');
+    expect(sanitizeQuoteField('zip', '12 345#')).toBe('12 345');
+    expect(sanitizeQuoteField('email', 'a+b@test.de')).toBe('a+b@test.de');
+  });
+
+  it('reports errors without any UI', () => {
+    const onSubmit = vi.fn();
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, postalCodeLookup: false }));
+
+    act(() => { result.current.validate(); });
+    expect(result.current.errors.firstName).toBe('Bitte füllen Sie dieses Feld aus.');
+    expect(result.current.errors.department).toBeUndefined();
+    expect(result.current.errorAnnouncement).toBe('Bitte prüfen Sie die markierten Felder (8).');
+
+    act(() => result.current.updateField('firstName', 'Max'));
+    expect(result.current.errors.firstName).toBe('');
+  });
+
+  it('submits normalized data and stores the result', async () => {
+    const onSubmit = vi.fn().mockResolvedValue({ success: true });
+    const { result } = renderHook(() =>
+      useQuoteForm({ onSubmit, postalCodeLookup: false, inquiryNumber: '20260101-120000-ABCD' })
+    );
+
+    act(() => fill(result.current.updateField));
+    await act(() => result.current.submit());
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ firstName: 'Max', zip: '12345', phoneE164: '' }),
+      {
+        inquiryNumber: '20260101-120000-ABCD',
+        addressLines: ['Musterstr 42', '12345 Berlin', 'DE'],
+        customFields: {},
+        items: [],
+        prices: expect.objectContaining({ items: [], net: 0 }),
+        attachments: [],
+        request: expect.objectContaining({ version: 1, inquiryNumber: '20260101-120000-ABCD', callbackRequested: false }),
+        signal: expect.any(AbortSignal),
+      }
+    );
+    expect(result.current.result).toEqual({ type: 'success', message: 'Angebot wurde erfolgreich angefordert.' });
+  });
+
+  it('edits quantities and removes items', async () => {
+    const onSubmit = vi.fn().mockResolvedValue({ success: true });
+    const onItemsChange = vi.fn();
+    const items = [
+      { description: 'Rollenförderer', quantity: 2, unitPrice: 450, maxQuantity: 5 },
+      { description: 'Profil', quantity: 1, unit: 'm', unitPrice: 10, quantityStep: 0.5 },
+      { description: 'Montage', quantity: 1 },
+    ];
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, onItemsChange, items, postalCodeLookup: false }));
+
+    act(() => result.current.setItemQuantity(0, 3));
+    expect(result.current.items[0].quantity).toBe(3);
+    expect(result.current.prices.net).toBe(1360);
+    expect(onItemsChange).toHaveBeenLastCalledWith([{ ...items[0], quantity: 3 }, items[1], items[2]]);
+
+    act(() => result.current.setItemQuantity(0, 9));
+    act(() => result.current.setItemQuantity(1, 1.7));
+    expect(result.current.items.map((i) => i.quantity)).toEqual([5, 1.5, 1]);
+
+    act(() => result.current.removeItem(2));
+    expect(result.current.items.map((i) => i.description)).toEqual(['Rollenförderer', 'Profil']);
+    expect(onItemsChange).toHaveBeenCalledTimes(4);
+
+    act(() => fill(result.current.updateField));
+    await act(() => result.current.submit());
+    expect(onSubmit.mock.calls[0][1].items).toEqual(result.current.items);
+    expect(onSubmit.mock.calls[0][1].prices.net).toBe(2265);
+  });
+
+  it('rejects attachments that break a limit', () => {
+    const { result } = renderHook(() =>
+      useQuoteForm({ onSubmit: vi.fn(), attachments: { maxFiles: 1 }, postalCodeLookup: false })
+    );
+    const sketch = new File(['a'], 'skizze.pdf');
+
+    act(() => result.current.addAttachments([sketch, new File(['b'], 'foto.jpg')]));
+    expect(result.current.attachments).toEqual([sketch]);
+    expect(result.current.attachmentErrors).toEqual(['foto.jpg: Höchstens 1 Dateien möglich.']);
+
+    act(() => result.current.removeAttachment(0));
+    expect(result.current.attachments).toEqual([]);
+    expect(result.current.attachmentErrors).toEqual([]);
+  });
+
+  it('passes a valid QuoteRequest with source and metadata', async () => {
+    const onSubmit = vi.fn().mockResolvedValue({ success: true });
+    const { result } = renderHook(() =>
+      useQuoteForm({
+        onSubmit,
+        items: [{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }],
+        description: 'Länge 3 m',
+        source: 'rollenbahn-konfigurator',
+        metadata: { configurationId: 'cfg-17' },
+        locale: 'en',
+        postalCodeLookup: false,
+      })
+    );
+
+    act(() => fill(result.current.updateField));
+    act(() => result.current.updateField('phone', '0711 123456'));
+    await act(() => result.current.submit());
+
+    const { request } = onSubmit.mock.calls[0][1];
+    expect(validateQuoteRequest(request).valid).toBe(true);
+    expect(request).toMatchObject({
+      locale: 'en',
+      source: 'rollenbahn-konfigurator',
+      description: 'Länge 3 m',
+      callbackRequested: true,
+      contact: { phone: '+49 711 123456', note: '' },
+      totals: { net: 900 },
+      metadata: { configurationId: 'cfg-17' },
+    });
+  });
+
+  it('queues the request in the outbox while offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const onSubmit = vi.fn();
+    const outbox = createQuoteOutbox({ send: vi.fn() });
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, outbox, postalCodeLookup: false }));
+
+    act(() => fill(result.current.updateField));
+    await act(() => result.current.submit());
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.result?.type).toBe('queued');
+    expect(outbox.getEntries()[0].request.contact.email).toBe('max@test.de');
+    outbox.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('does not queue requests with attachments', async () => {
+    const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'));
+    const outbox = createQuoteOutbox({ send: vi.fn() });
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, outbox, attachments: true, postalCodeLookup: false }));
+    const sketch = new File(['a'], 'skizze.pdf');
+
+    act(() => fill(result.current.updateField));
+    act(() => result.current.addAttachments([sketch]));
+    await act(() => result.current.submit());
+
+    expect(outbox.getEntries()).toEqual([]);
+    expect(result.current.result?.type).toBe('error');
+    expect(result.current.result?.message).toContain('Anfragen mit Anhängen können nicht zwischengespeichert werden');
+    expect(result.current.attachments).toEqual([sketch]);
+    outbox.dispose();
+  });
+
+  it('gives up after submitTimeout and aborts the signal', async () => {
+    const onSubmit = vi.fn<QuoteFormOptions['onSubmit']>(() => new Promise(() => {}));
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, submitTimeout: 20, postalCodeLookup: false }));
+
+    act(() => fill(result.current.updateField));
+    await act(() => result.current.submit());
+
+    const { signal } = onSubmit.mock.calls[0][1];
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason.name).toBe('TimeoutError');
+    expect(result.current.submitting).toBe(false);
+    expect(result.current.result).toEqual({
+      type: 'error',
+      message: 'Der Server antwortet nicht. Bitte versuchen Sie es später erneut.',
+    });
+  });
+
+  it('does not queue a timed-out request in the outbox', async () => {
+    const onSubmit = vi.fn<QuoteFormOptions['onSubmit']>(() => new Promise(() => {}));
+    const outbox = createQuoteOutbox({ send: vi.fn() });
+    const { result } = renderHook(() => useQuoteForm({ onSubmit, outbox, submitTimeout: 20, postalCodeLookup: false }));
+
+    act(() => fill(result.current.updateField));
+    await act(() => result.current.submit());
+
+    expect(outbox.getEntries()).toEqual([]);
+    expect(result.current.result?.message).toBe('Der Server antwortet nicht. Bitte versuchen Sie es später erneut.');
+    outbox.dispose();
+  });
+
+  it('aborts on cancelSubmit and unmount without updating the state', async () => {
+    let resolve = (_: { success: boolean }) => {};
+    const onSubmit = vi.fn<QuoteFormOptions['onSubmit']>(() => new Promise((r) => { resolve = r; }));
+    const { result, unmount } = renderHook(() => useQuoteForm({ onSubmit, postalCodeLookup: false }));
+    act(() => fill(result.current.updateField));
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => { pending = result.current.submit(); });
+    expect(result.current.submitting).toBe(true);
+    act(() => result.current.cancelSubmit());
+    await act(() => pending);
+    expect(onSubmit.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(result.current.submitting).toBe(false);
+    expect(result.current.result).toBeNull();
+
+    act(() => { pending = result.current.submit(); });
+    unmount();
+    resolve({ success: true });
+    await pending;
+    expect(onSubmit.mock.calls[1][1].signal.aborted).toBe(true);
+  });
+
+  it('follows item changes of the host', () => {
+    const first = [{ description: 'Rollenförderer', quantity: 2, unitPrice: 450 }];
+    const { result, rerender } = renderHook(
+      ({ items }) => useQuoteForm({ onSubmit: vi.fn(), items, postalCodeLookup: false }),
+      { initialProps: { items: first } }
+    );
+
+    act(() => result.current.setItemQuantity(0, 3));
+    // Same content as a new array - the edit stays
+    rerender({ items: [{ ...first[0] }] });
+    expect(result.current.items[0].quantity).toBe(3);
+
+    rerender({ items: [...first, { description: 'Montage', quantity: 1, unitPrice: 100 }] });
+    expect(result.current.items.map((i) => i.quantity)).toEqual([2, 1]);
+    expect(result.current.prices.net).toBe(1000);
+  });
+
+  it('fills the city from the postal code lookup', async () => {
+    const lookup = vi.fn().mockResolvedValue(['Stuttgart']);
+    const { result } = renderHook(() => useQuoteForm({ onSubmit: vi.fn(), postalCodeLookup: lookup }));
+
+    act(() => result.current.updateField('zip', '70173'));
+    await waitFor(() => expect(result.current.form.city).toBe('Stuttgart'));
+  });
+
+  it('exposes rows and labels of the field configuration', () => {
+    const { result } = renderHook(() =>
+      useQuoteForm({ onSubmit: vi.fn(), fields: ['email', { name: 'city', label: 'Ort' }] })
+    );
+    expect(result.current.rows.map((row) => row.map((field) => result.current.fieldLabel(field)))).toEqual([
+      ['E-Mail'],
+      ['Ort'],
+    ]);
+  });
+});
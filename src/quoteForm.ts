@@ -0,0 +1,570 @@
+/**
+ * Headless quote form
+ * State, sanitizing, validation, ZIP auto-fill and submit of the QuoteModal
+ * contact form - for hosts that need their own UI (e.g. an inline side panel).
+ */
+
+import { useState, useEffect, useMemo, useId, useRef } from 'react';
+import { useI18n, formatMessage } from './i18n';
+import type { I18nOptions } from './i18n';
+import { calculatePrices, clampQuantity } from './items';
+import type { PriceSummary, PricingOptions, QuoteDisplayItem } from './items';
+import { formatFileSize, resolveAttachmentOptions, validateAttachments } from './attachments';
+import type { AttachmentOptions, RejectedAttachment } from './attachments';
+import { buildQuoteRequest } from './quoteRequest';
+import type { QuoteRequest } from './quoteRequest';
+import { isBrowserOffline } from './outbox';
+import type { QuoteOutbox } from './outbox';
+import { loadFromStorage, saveToStorage } from './storage';
+import { useInquiryNumber } from './inquiryNumber';
+import type { InquiryNumberOptions } from './inquiryNumber';
+import { offlinePostalCodeLookup, usePostalCodeLookup } from './postalCode';
+import type { PostalCodeLookup } from './postalCode';
+import { toE164, toInternationalPhone } from './phone';
+import { ADDRESS_RULES, normalizePostalCode, validateAddress } from './address';
+import { VAT_ID_RULES, normalizeVatId, validateVatId } from './vatId';
+import { groupQuoteFieldRows, initialCustomValues, isBuiltInQuoteField, resolveQuoteFields } from './quoteFields';
+import type {
+  QuoteBuiltInFieldConfig, QuoteCustomFieldConfig, QuoteFieldConfig, QuoteFieldName, QuoteFieldValue, ResolvedQuoteField,
+} from './quoteFields';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface QuoteContactData {
+  salutation: string;
+  firstName: string;
+  lastName: string;
+  company: string;
+  /** VAT ID (USt-IdNr.), normalized, e.g. "DE123456788" ('' if none) */
+  vatId: string;
+  street: string;
+  houseNumber: string;
+  zip: string;
+  city: string;
+  country: string;
+  department: string;
+  /** Readable international form, e.g. "+49 711 123456" */
+  phone: string;
+  /** Same number in E.164, e.g. "+49711123456" ('' if none) */
+  phoneE164: string;
+  email: string;
+  note: string;
+}
+
+/** Additional data passed to onSubmit alongside the contact data */
+export interface QuoteSubmitContext {
+  /** Inquiry number shown in the modal - same scheme as the EmailModal subject */
+  inquiryNumber: string;
+  /** Postal address lines in the order of the customer's country */
+  addressLines: string[];
+  /** Values of the visible custom fields from the `fields` prop, by name */
+  customFields: Record<string, QuoteFieldValue>;
+  /** Requested items - after the customer's quantity changes and removals */
+  items: QuoteDisplayItem[];
+  /** Line totals and net / VAT / gross totals of the items, as shown in the modal */
+  prices: PriceSummary;
+  /** Files attached by the customer (empty without the `attachments` option) */
+  attachments: File[];
+  /** Everything above as versioned, serializable payload for the backend */
+  request: QuoteRequest;
+  /** Aborted on timeout, cancelSubmit and unmount - pass it on to fetch */
+  signal: AbortSignal;
+}
+
+export interface QuoteFormOptions extends I18nOptions, PricingOptions {
+  onSubmit: (contact: QuoteContactData, context: QuoteSubmitContext) => Promise<{ success: boolean; message?: string }>;
+  /** Fixed inquiry number (e.g. assigned by the host) - generated on mount if omitted */
+  inquiryNumber?: string;
+  /** Format of the generated inquiry number (prefix, time zone, suffix, custom generator) */
+  inquiryNumberOptions?: InquiryNumberOptions;
+  /** Optional description text shown above the contact form (e.g. configuration summary) */
+  description?: string;
+  /** Identifier of the sending app in the QuoteRequest, e.g. "rollenbahn-konfigurator" */
+  source?: string;
+  /** Free data of the host app for the QuoteRequest, e.g. configuration id - must be JSON-serializable */
+  metadata?: Record<string, unknown>;
+  /** Requested items - edited via setItemQuantity / removeItem; a changed list from the host replaces the edits */
+  items?: QuoteDisplayItem[];
+  /** Called with the new list after each quantity change or removal */
+  onItemsChange?: (items: QuoteDisplayItem[]) => void;
+  /** City auto-fill from the postal code (default: bundled offline dataset, `false` = off) */
+  postalCodeLookup?: PostalCodeLookup | false;
+  /**
+   * Store the request and send it later when offline or when onSubmit throws
+   * (see createQuoteOutbox) - default: show an error
+   */
+  outbox?: QuoteOutbox;
+  /** Give up waiting for onSubmit after this many ms and abort its signal (default: 30000, 0 = never) */
+  submitTimeout?: number;
+  /** Let the customer attach files, with these limits (`true` = default limits) - default: off */
+  attachments?: AttachmentOptions | boolean;
+  /** Make the VAT ID a required field (B2B-only shops) - default: optional */
+  vatIdRequired?: boolean;
+  /**
+   * Order, visibility, labels and required flags of the contact fields, plus
+   * custom fields (default: DEFAULT_QUOTE_FIELDS)
+   */
+  fields?: QuoteFieldConfig[];
+}
+
+export interface QuoteFormResult {
+  /** queued = stored in the outbox, will be sent later */
+  type: 'success' | 'queued' | 'error';
+  message: string;
+}
+
+export interface QuoteForm {
+  /** Contact data as typed (restored from localStorage) */
+  form: QuoteContactData;
+  /** Values of the custom fields, by name */
+  customValues: Record<string, QuoteFieldValue>;
+  /** Message per invalid field name (empty / missing = valid) */
+  errors: Record<string, string>;
+  /** "Bitte prüfen Sie die markierten Felder (2)." after a failed submit - for a live region */
+  errorAnnouncement: string;
+  submitting: boolean;
+  /** Outcome of the last submit (null before / during submit) */
+  result: QuoteFormResult | null;
+  inquiryNumber: string;
+  /** Current item list (`options.items` with the customer's edits) */
+  items: QuoteDisplayItem[];
+  /** Prices of the current item list */
+  prices: PriceSummary;
+  /** Change the quantity of an item - snapped to its step and limits */
+  setItemQuantity: (index: number, quantity: number) => void;
+  removeItem: (index: number) => void;
+  /** Attached files, in order */
+  attachments: File[];
+  /** Why files of the last add were rejected, e.g. "plan.dwg: Dieser Dateityp ist nicht erlaubt." */
+  attachmentErrors: string[];
+  /** Attach files (drop / file picker) - files that break a limit are rejected */
+  addAttachments: (files: File[] | FileList) => void;
+  removeAttachment: (index: number) => void;
+  /** Visible fields in display order */
+  fields: ResolvedQuoteField[];
+  /** The same fields grouped into rows */
+  rows: ResolvedQuoteField[][];
+  /** Places for the postal code - more than one: offer a picker */
+  places: string[];
+  /** Several places match and the city field is shown */
+  showCityPicker: boolean;
+  /** Format hints for the selected country (zip, vatId) */
+  placeholders: Partial<Record<QuoteFieldName, string>>;
+  /** Element id of a field - invalid fields are focused by this id */
+  fieldId: (name: string) => string;
+  /** Label of a field: configured label or the locale default */
+  fieldLabel: (field: ResolvedQuoteField) => string;
+  isRequired: (field: ResolvedQuoteField) => boolean;
+  /** Current value of a custom field (default value until changed) */
+  customValue: (field: QuoteCustomFieldConfig) => QuoteFieldValue;
+  updateField: (field: keyof QuoteContactData, value: string) => void;
+  updateCustomField: (name: string, value: QuoteFieldValue) => void;
+  /** Canonical postal code spelling, e.g. on blur ("1234ab" → "1234 AB") */
+  normalizeZip: () => void;
+  /** Check all visible fields, show the errors and focus the first invalid one */
+  validate: () => boolean;
+  /** Abort a running submit - the form stays as typed, no message */
+  cancelSubmit: () => void;
+  /** Validate, then call onSubmit with the normalized contact data */
+  submit: () => Promise<void>;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+const isValidEmail = (email: string): boolean =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/** Rejects with the abort reason - stops waiting for an onSubmit that ignores its signal */
+const untilAborted = (signal: AbortSignal): Promise<never> =>
+  new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+
+/** Countries of the "Land" dropdown */
+export const QUOTE_COUNTRIES = ['DE', 'AT', 'CH', 'NL', 'BE', 'FR', 'PL', 'CZ', 'DK', 'LU'];
+
+const SANITIZE_PATTERNS: Partial<Record<keyof QuoteContactData, RegExp>> = {
+  firstName:   /[^\p{L}\s\-]/gu,
+  lastName:    /[^\p{L}\s\-]/gu,
+  company:     /[^\p{L}0-9\s&.,\-()]/gu,
+  vatId:       /[^a-zA-Z0-9\s.\-]/g,
+  street:      /[^\p{L}0-9\s.\-]/gu,
+  houseNumber: /[^a-zA-Z0-9/\-\s]/g,
+  zip:         /[^a-zA-Z0-9\-\s]/g,
+  city:        /[^\p{L}\s\-.]/gu,
+  department:  /[^\p{L}0-9\s\-/.]/gu,
+  phone:       /[^0-9+\-()/\s]/g,
+  note:        /[^\p{L}0-9\s.,\-!?()/]/gu,
+};
+
+/** Drop characters that don't belong in a contact field */
+export const sanitizeQuoteField = (field: keyof QuoteContactData, value: string): string => {
+  const pattern = SANITIZE_PATTERNS[field];
+  return pattern ? value.replace(pattern, '') : value;
+};
+
+// ─── LocalStorage Persistence ────────────────────────────────
+
+const STORAGE_KEY = 'syskomp-quote-contact';
+
+// ─── Hook ────────────────────────────────────────────────────
+
+/**
+ * Everything the QuoteModal form does, without the UI.
+ * Render controls with `id={fieldId(name)}` so the first invalid field can be focused.
+ *
+ * @example
+ * const quote = useQuoteForm({ onSubmit: sendQuote });
+ * <input id={quote.fieldId('email')} value={quote.form.email} onChange={(e) => quote.updateField('email', e.target.value)} />
+ * <button onClick={quote.submit} disabled={quote.submitting}>Senden</button>
+ */
+export const useQuoteForm = (options: QuoteFormOptions): QuoteForm => {
+  const { onSubmit, outbox, submitTimeout = 30000, vatIdRequired = false, fields } = options;
+  const { t, tb, locale } = useI18n(options);
+  const inquiryNumber = useInquiryNumber(options.inquiryNumberOptions, options.inquiryNumber);
+
+  // Form state — initialize from localStorage if available
+  const [form, setForm] = useState<QuoteContactData>(() => {
+    const defaults: QuoteContactData = {
+      salutation: 'Herr',
+      firstName: '',
+      lastName: '',
+      company: '',
+      vatId: '',
+      street: '',
+      houseNumber: '',
+      zip: '',
+      city: '',
+      country: 'DE',
+      department: '',
+      phone: '',
+      phoneE164: '',
+      email: '',
+      note: '',
+    };
+    return { ...defaults, ...loadFromStorage<QuoteContactData>(STORAGE_KEY) };
+  });
+
+  // Persist contact data on change
+  useEffect(() => {
+    saveToStorage(STORAGE_KEY, form);
+  }, [form]);
+
+  // Visible fields in display order - custom values are per request and not persisted
+  const resolvedFields = useMemo(() => resolveQuoteFields(fields), [fields]);
+  const [customValues, setCustomValues] = useState(() => initialCustomValues(resolvedFields));
+
+  // Item list - editable in the modal, reported back via onItemsChange
+  const [items, setItems] = useState<QuoteDisplayItem[]>(() => options.items ?? []);
+  // A new list from the host (e.g. cart changed elsewhere) replaces the edited one.
+  // Compared by content, so an inline array literal does not undo the customer's edits
+  const itemsKey = JSON.stringify(options.items ?? []);
+  const [syncedItemsKey, setSyncedItemsKey] = useState(itemsKey);
+  if (itemsKey !== syncedItemsKey) {
+    setSyncedItemsKey(itemsKey);
+    setItems(options.items ?? []);
+  }
+  const prices = calculatePrices(items, options);
+
+  const changeItems = (next: QuoteDisplayItem[]) => {
+    setItems(next);
+    options.onItemsChange?.(next);
+  };
+
+  const setItemQuantity = (index: number, quantity: number) => {
+    const item = items[index];
+    if (!item || Number.isNaN(quantity)) return;
+    const next = clampQuantity(item, quantity);
+    if (next === item.quantity) return;
+    changeItems(items.map((i, idx) => (idx === index ? { ...i, quantity: next } : i)));
+  };
+
+  const removeItem = (index: number) => {
+    if (!items[index]) return;
+    changeItems(items.filter((_, idx) => idx !== index));
+  };
+
+  // Attachments - File objects go to onSubmit as they are
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+
+  const attachmentError = ({ file, error }: RejectedAttachment): string => {
+    const limits = resolveAttachmentOptions(options.attachments);
+    const size = (bytes: number) => formatFileSize(bytes, locale);
+    switch (error) {
+      case 'type': return formatMessage(t.errorAttachmentType, { name: file.name });
+      case 'size': return formatMessage(t.errorAttachmentSize, { name: file.name, size: size(limits.maxFileSize) });
+      case 'total': return formatMessage(t.errorAttachmentTotal, { name: file.name, size: size(limits.maxTotalSize) });
+      case 'count': return formatMessage(t.errorAttachmentCount, { name: file.name, count: limits.maxFiles });
+    }
+  };
+
+  const addAttachments = (files: File[] | FileList) => {
+    const result = validateAttachments(attachments, Array.from(files), options.attachments);
+    setAttachments(result.files);
+    setAttachmentErrors(result.rejected.map(attachmentError));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((prev) => prev.filter((_, idx) => idx !== index));
+    setAttachmentErrors([]);
+  };
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [errorAnnouncement, setErrorAnnouncement] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<QuoteFormResult | null>(null);
+
+  // Controller of the running submit - replaced by null on cancel and unmount,
+  // so a late onSubmit result no longer touches the state
+  const submitController = useRef<AbortController | null>(null);
+  useEffect(() => () => {
+    submitController.current?.abort();
+    submitController.current = null;
+  }, []);
+
+  // Stable ids for htmlFor / focus on the first invalid field
+  const id = useId();
+  const fieldId = (name: string) => `${id}-${name}`;
+
+  // Auto-fill city from ZIP - offline dataset unless the host passes another provider
+  const postalCodeLookup = options.postalCodeLookup ?? offlinePostalCodeLookup;
+  const places = usePostalCodeLookup(postalCodeLookup, form.country, form.zip);
+  const autoFilledCity = useRef('');
+
+  useEffect(() => {
+    // A single match fills the city, unless the user typed their own;
+    // several matches are offered in a picker below the address row
+    if (places.length !== 1) return;
+    const city = form.city.trim();
+    if (city && city !== autoFilledCity.current) return;
+    autoFilledCity.current = places[0];
+    setForm((prev) => ({ ...prev, city: places[0] }));
+    setErrors((prev) => ({ ...prev, city: '' }));
+  }, [places]);
+
+  const updateField = (field: keyof QuoteContactData, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: sanitizeQuoteField(field, value) }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const updateCustomField = (name: string, value: QuoteFieldValue) => {
+    setCustomValues((prev) => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const normalizeZip = () => {
+    const zip = normalizePostalCode(form.country, form.zip);
+    if (zip !== form.zip) updateField('zip', zip);
+  };
+
+  const customValue = (field: QuoteCustomFieldConfig): QuoteFieldValue =>
+    customValues[field.name] ?? field.defaultValue ?? (field.type === 'checkbox' ? false : '');
+
+  const isRequired = (field: ResolvedQuoteField) =>
+    field.required ?? (field.name === 'vatId' && vatIdRequired);
+
+  const fieldLabel = (field: ResolvedQuoteField) =>
+    field.label ?? (isBuiltInQuoteField(field) ? t[field.name] : field.name);
+
+  const vatIdError = (): string => {
+    const { error } = validateVatId(form.vatId, form.country);
+    if (error === 'country') return formatMessage(t.errorVatIdCountry, { country: form.country });
+    if (error === 'checksum') return t.errorVatIdChecksum;
+    return formatMessage(t.errorInvalidVatId, { example: VAT_ID_RULES[form.country]?.example || 'DE123456788' });
+  };
+
+  const builtInFieldError = (field: QuoteBuiltInFieldConfig): string | undefined => {
+    const value = form[field.name].trim();
+    if (!value) return isRequired(field) ? t.errorRequired : undefined;
+
+    const addressErrors = validateAddress(form);
+    switch (field.name) {
+      case 'email':
+        return isValidEmail(value) ? undefined : t.errorInvalidEmail;
+      case 'vatId':
+        return validateVatId(value, form.country).valid ? undefined : vatIdError();
+      case 'zip':
+        return addressErrors.postalCode
+          ? formatMessage(t.errorInvalidZip, { example: addressErrors.postalCode })
+          : undefined;
+      case 'houseNumber':
+        return addressErrors.houseNumber
+          ? formatMessage(t.errorInvalidHouseNumber, { example: addressErrors.houseNumber })
+          : undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  const customFieldError = (field: QuoteCustomFieldConfig): string | undefined => {
+    const value = customValue(field);
+    const empty = field.type === 'checkbox' ? value !== true : !String(value).trim();
+    if (empty) {
+      if (!isRequired(field)) return undefined;
+      return field.type === 'checkbox' ? t.errorRequiredCheckbox : t.errorRequired;
+    }
+    return field.validate?.(value);
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    // In display order - the first invalid field gets focus
+    for (const field of resolvedFields) {
+      const error = isBuiltInQuoteField(field) ? builtInFieldError(field) : customFieldError(field);
+      if (error) newErrors[field.name] = error;
+    }
+
+    const invalid = Object.keys(newErrors);
+    setErrors(newErrors);
+    setErrorAnnouncement(invalid.length ? formatMessage(t.errorSummary, { count: invalid.length }) : '');
+    if (invalid.length) {
+      document.getElementById(fieldId(invalid[0]))?.focus();
+    }
+    return invalid.length === 0;
+  };
+
+  // The outbox stores the request only - with attachments the files would be
+  // lost, so the customer sends again later with the files still attached
+  const queueOrReport = (request: QuoteRequest) => {
+    if (attachments.length > 0) {
+      setResult({ type: 'error', message: t.submitNotQueued });
+      return;
+    }
+    outbox!.enqueue(request);
+    setResult({ type: 'queued', message: t.submitQueued });
+  };
+
+  const submit = async () => {
+    if (!validate()) return;
+
+    const controller = new AbortController();
+    submitController.current = controller;
+    const timeout = submitTimeout > 0
+      ? setTimeout(() => controller.abort(new DOMException(t.submitTimeout, 'TimeoutError')), submitTimeout)
+      : undefined;
+    const isCurrent = () => submitController.current === controller;
+    setSubmitting(true);
+    setResult(null);
+
+    let request: QuoteRequest | undefined;
+    try {
+      const contact = {
+        ...form,
+        zip: normalizePostalCode(form.country, form.zip),
+        phone: toInternationalPhone(form.phone, form.country),
+        phoneE164: toE164(form.phone, form.country),
+        vatId: normalizeVatId(form.vatId),
+      };
+      const submitData = contact.phone.trim()
+        ? { ...contact, note: (contact.note ? contact.note + '\n' : '') + tb.bodyCallbackRequested }
+        : contact;
+      const customFields: Record<string, QuoteFieldValue> = {};
+      for (const field of resolvedFields) {
+        if (!isBuiltInQuoteField(field)) customFields[field.name] = customValue(field);
+      }
+      request = buildQuoteRequest({
+        inquiryNumber,
+        contact,
+        prices,
+        locale,
+        source: options.source,
+        description: options.description,
+        customFields,
+        attachments,
+        metadata: options.metadata,
+      });
+      if (outbox && isBrowserOffline()) {
+        queueOrReport(request);
+        return;
+      }
+      const res = await Promise.race([
+        onSubmit(submitData, {
+          inquiryNumber,
+          addressLines: request.addressLines,
+          customFields,
+          items,
+          prices,
+          attachments,
+          request,
+          signal: controller.signal,
+        }),
+        untilAborted(controller.signal),
+      ]);
+      if (!isCurrent()) return;
+      if (res.success) {
+        setResult({ type: 'success', message: res.message || t.submitSuccess });
+      } else {
+        setResult({ type: 'error', message: res.message || t.submitFailed });
+      }
+    } catch {
+      // Cancelled or unmounted - nothing to report
+      if (!isCurrent()) return;
+      // Only the timeout aborts the current controller. The server may have got
+      // the request already, so it is not queued - a retry could duplicate it
+      if (controller.signal.aborted) {
+        setResult({ type: 'error', message: t.submitTimeout });
+      } else if (outbox && request) {
+        // Network error, server down - the outbox retries with the stored request
+        queueOrReport(request);
+      } else {
+        setResult({ type: 'error', message: t.submitUnexpectedError });
+      }
+    } finally {
+      clearTimeout(timeout);
+      if (isCurrent()) {
+        submitController.current = null;
+        setSubmitting(false);
+      }
+    }
+  };
+
+  const cancelSubmit = () => {
+    const controller = submitController.current;
+    if (!controller) return;
+    submitController.current = null;
+    controller.abort();
+    setSubmitting(false);
+  };
+
+  return {
+    form,
+    customValues,
+    errors,
+    errorAnnouncement,
+    submitting,
+    result,
+    inquiryNumber,
+    items,
+    prices,
+    setItemQuantity,
+    removeItem,
+    attachments,
+    attachmentErrors,
+    addAttachments,
+    removeAttachment,
+    fields: resolvedFields,
+    rows: groupQuoteFieldRows(resolvedFields),
+    places,
+    showCityPicker: places.length > 1 && resolvedFields.some((field) => field.name === 'city'),
+    placeholders: {
+      zip: ADDRESS_RULES[form.country]?.postalCodeExample,
+      vatId: VAT_ID_RULES[form.country]?.example,
+    },
+    fieldId,
+    fieldLabel,
+    isRequired,
+    customValue,
+    updateField,
+    updateCustomField,
+    normalizeZip,
+    validate,
+    submit,
+    cancelSubmit,
+  };
+};
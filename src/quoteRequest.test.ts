@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildQuoteRequest, validateQuoteRequest, isQuoteRequest, QUOTE_REQUEST_SCHEMA } from './quoteRequest';
+import { calculatePrices } from './items';
+import type { QuoteContactData } from './quoteForm';
+
+const contact: QuoteContactData = {
+  salutation: 'Herr', firstName: 'Max', lastName: 'Mustermann', company: 'Test GmbH', vatId: '',
+  street: 'Musterstr', houseNumber: '42', zip: '12345', city: 'Berlin', country: 'DE', department: '',
+  phone: '+49 711 123456', phoneE164: '+49711123456', email: 'max@test.de', note: '',
+};
+
+const prices = calculatePrices(
+  [
+    {
+      description: 'Förderstrecke', quantity: 2, children: [
+        { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 1, unitPrice: 450 },
+        { description: 'Stütze', quantity: 4, unitPrice: 25, discountPercent: 10 },
+      ],
+    },
+    { description: 'Montage', quantity: 1 },
+  ],
+  { vatRate: 19 }
+);
+
+const build = () =>
+  buildQuoteRequest({
+    inquiryNumber: 'SK-20260314-0930',
+    contact,
+    prices,
+    locale: 'de',
+    source: 'rollenbahn-konfigurator',
+    customFields: { deliveryDate: '2026-04-01', assembly: true },
+    attachments: [new File(['skizze'], 'skizze.pdf', { type: 'application/pdf' })],
+    metadata: { configurationId: 'cfg-17' },
+    createdAt: new Date('2026-03-14T09:30:00Z'),
+  });
+
+describe('buildQuoteRequest', () => {
+  it('bundles contact, items, totals and context', () => {
+    const request = build();
+
+    expect(request).toMatchObject({
+      version: 1,
+      inquiryNumber: 'SK-20260314-0930',
+      createdAt: '2026-03-14T09:30:00.000Z',
+      locale: 'de',
+      source: 'rollenbahn-konfigurator',
+      addressLines: ['Musterstr 42', '12345 Berlin', 'DE'],
+      callbackRequested: true,
+      totals: { currency: 'EUR', subtotal: 1080, net: 1080, vatRate: 19, vat: 205.2, gross: 1285.2, incomplete: true },
+      attachments: [{ name: 'skizze.pdf', size: 6, type: 'application/pdf' }],
+      metadata: { configurationId: 'cfg-17' },
+    });
+    expect(request.items[0]).toEqual({
+      description: 'Förderstrecke',
+      quantity: 2,
+      totalQuantity: 2,
+      lineTotal: 1080,
+      children: [
+        { articleNumber: 'SKR-50', description: 'Rollenförderer', quantity: 1, totalQuantity: 2, unitPrice: 450, lineTotal: 900 },
+        { description: 'Stütze', quantity: 4, totalQuantity: 8, unitPrice: 25, discountPercent: 10, lineTotal: 180 },
+      ],
+    });
+    expect(request.items[1]).toEqual({ description: 'Montage', quantity: 1, totalQuantity: 1 });
+    expect('description' in request).toBe(false);
+  });
+
+  it('survives a JSON round trip', () => {
+    const request = build();
+    expect(JSON.parse(JSON.stringify(request))).toEqual(request);
+  });
+});
+
+describe('validateQuoteRequest', () => {
+  it('accepts built requests', () => {
+    expect(validateQuoteRequest(build())).toEqual({ valid: true, issues: [] });
+    expect(isQuoteRequest(JSON.parse(JSON.stringify(build())))).toBe(true);
+  });
+
+  it('reports the path of every invalid value', () => {
+    const request = JSON.parse(JSON.stringify(build()));
+    request.version = 2;
+    request.createdAt = '14.03.2026';
+    delete request.contact.email;
+    request.items[0].children[1].quantity = '4';
+    request.totals.currency = 'euro';
+    request.attachments[0].size = -1;
+    request.customFields.deliveryDate = 20260401;
+    request.extra = true;
+
+    expect(validateQuoteRequest(request).issues).toEqual([
+      { path: 'version', message: 'must be 1' },
+      { path: 'createdAt', message: 'must be an ISO 8601 date-time' },
+      { path: 'contact.email', message: 'is required' },
+      { path: 'items[0].children[1].quantity', message: 'must be of type number' },
+      { path: 'totals.currency', message: 'must match ^[A-Z]{3}$' },
+      { path: 'customFields.deliveryDate', message: 'must be of type string or boolean' },
+      { path: 'attachments[0].size', message: 'must be >= 0' },
+      { path: 'extra', message: 'is not allowed' },
+    ]);
+    expect(validateQuoteRequest(null).issues).toEqual([{ path: '', message: 'must be of type object' }]);
+  });
+
+  it('publishes the schema as plain JSON', () => {
+    const schema = JSON.parse(JSON.stringify(QUOTE_REQUEST_SCHEMA));
+    expect(schema).toEqual(QUOTE_REQUEST_SCHEMA);
+    expect(schema.$id).toBe('urn:syskomp:quote-request:1');
+    expect(schema.properties.contact.required).toContain('phoneE164');
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Quote request payload
+ * Versioned, serializable form of a submitted inquiry - the contract between
+ * the configurators and the Syskomp backend. Comes with a JSON Schema for the
+ * backend and a runtime validator with the same rules.
+ */
+
+import type { QuoteContactData } from './quoteForm';
+import type { QuoteFieldValue } from './quoteFields';
+import type { PriceSummary, PricedItem } from './items';
+import { formatAddress } from './address';
+
+// ─── Public Types ────────────────────────────────────────────
+
+/** Current version of the payload - raised on incompatible changes */
+export const QUOTE_REQUEST_VERSION = 1;
+
+export interface QuoteRequestItem {
+  description: string;
+  articleNumber?: string;
+  /** Quantity as entered - for parts: per assembly */
+  quantity: number;
+  /** Quantity × quantities of the enclosing assemblies */
+  totalQuantity: number;
+  unit?: string;
+  /** Net price per unit before the line discount (omitted: "auf Anfrage") */
+  unitPrice?: number;
+  discountPercent?: number;
+  /** Net line total after the line discount - for assemblies the sum of the parts */
+  lineTotal?: number;
+  /** Parts of an assembly */
+  children?: QuoteRequestItem[];
+}
+
+export interface QuoteRequestTotals {
+  /** ISO 4217 currency code */
+  currency: string;
+  subtotal: number;
+  discountPercent: number;
+  discount: number;
+  net: number;
+  /** VAT rate in percent (omitted: net prices only) */
+  vatRate?: number;
+  vat: number;
+  gross: number;
+  /** Some items have no price - the totals cover the priced items only */
+  incomplete: boolean;
+}
+
+/** Attached file - the content is uploaded by the host separately */
+export interface QuoteRequestAttachment {
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** MIME type ('' if unknown) */
+  type: string;
+}
+
+export interface QuoteRequest {
+  version: typeof QUOTE_REQUEST_VERSION;
+  inquiryNumber: string;
+  /** Time of the submit, ISO 8601 in UTC, e.g. "2026-03-14T09:30:00.000Z" */
+  createdAt: string;
+  /** Language of the modal, e.g. "de" - for the reply to the customer */
+  locale: string;
+  /** Identifier of the sending app, e.g. "rollenbahn-konfigurator" */
+  source?: string;
+  /** Normalized contact data (zip, phone, VAT ID), note as typed */
+  contact: QuoteContactData;
+  /** Postal address lines in the order of the customer's country */
+  addressLines: string[];
+  /** The customer asked for a call back (phone number given) */
+  callbackRequested: boolean;
+  /** Configuration summary shown in the modal */
+  description?: string;
+  items: QuoteRequestItem[];
+  totals: QuoteRequestTotals;
+  /** Values of the custom fields, by name */
+  customFields: Record<string, QuoteFieldValue>;
+  attachments: QuoteRequestAttachment[];
+  /** Free data of the host app, e.g. configuration id or CAD link */
+  metadata: Record<string, unknown>;
+}
+
+export interface QuoteRequestInput {
+  inquiryNumber: string;
+  contact: QuoteContactData;
+  prices: PriceSummary;
+  locale: string;
+  source?: string;
+  description?: string;
+  customFields?: Record<string, QuoteFieldValue>;
+  attachments?: Pick<File, 'name' | 'size' | 'type'>[];
+  metadata?: Record<string, unknown>;
+  /** Time of the submit (default: now) */
+  createdAt?: Date;
+}
+
+export interface QuoteRequestIssue {
+  /** Position of the invalid value, e.g. "items[0].quantity" ('' = the request itself) */
+  path: string;
+  message: string;
+}
+
+export interface QuoteRequestValidation {
+  valid: boolean;
+  issues: QuoteRequestIssue[];
+}
+
+// ─── Builder ─────────────────────────────────────────────────
+
+/** Copy the defined values only - the payload must survive JSON.stringify unchanged */
+const definedOnly = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+const toRequestItem = (item: PricedItem): QuoteRequestItem =>
+  definedOnly({
+    description: item.description,
+    articleNumber: item.articleNumber,
+    quantity: item.quantity,
+    totalQuantity: item.totalQuantity,
+    unit: item.unit,
+    unitPrice: item.children ? undefined : item.unitPrice,
+    discountPercent: item.discountPercent,
+    lineTotal: item.lineTotal,
+    children: item.children?.map(toRequestItem),
+  });
+
+/**
+ * Assemble the payload of a submitted inquiry. `useQuoteForm` passes it to
+ * onSubmit as `context.request`.
+ *
+ * @example
+ * const request = buildQuoteRequest({ inquiryNumber, contact, prices: calculatePrices(items), locale: 'de' });
+ * await fetch('/api/quotes', { method: 'POST', body: JSON.stringify(request) });
+ */
+export const buildQuoteRequest = (input: QuoteRequestInput): QuoteRequest => {
+  const { contact, prices } = input;
+  return definedOnly({
+    version: QUOTE_REQUEST_VERSION,
+    inquiryNumber: input.inquiryNumber,
+    createdAt: (input.createdAt ?? new Date()).toISOString(),
+    locale: input.locale,
+    source: input.source || undefined,
+    contact,
+    addressLines: formatAddress(contact),
+    callbackRequested: contact.phone.trim() !== '',
+    description: input.description || undefined,
+    items: prices.items.map(toRequestItem),
+    totals: definedOnly({
+      currency: prices.currency,
+      subtotal: prices.subtotal,
+      discountPercent: prices.discountPercent,
+      discount: prices.discount,
+      net: prices.net,
+      vatRate: prices.vatRate,
+      vat: prices.vat,
+      gross: prices.gross,
+      incomplete: prices.incomplete,
+    }),
+    customFields: input.customFields ?? {},
+    attachments: (input.attachments ?? []).map(({ name, size, type }) => ({ name, size, type })),
+    metadata: input.metadata ?? {},
+  });
+};
+
+// ─── JSON Schema ─────────────────────────────────────────────
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+/** The subset of JSON Schema (draft 2020-12) used by QUOTE_REQUEST_SCHEMA */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  const?: string | number | boolean;
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  format?: 'date-time';
+}
+
+const CONTACT_FIELDS: (keyof QuoteContactData)[] = [
+  'salutation', 'firstName', 'lastName', 'company', 'vatId', 'street', 'houseNumber',
+  'zip', 'city', 'country', 'department', 'phone', 'phoneE164', 'email', 'note',
+];
+
+const amount: JsonSchema = { type: 'number' };
+const percent: JsonSchema = { type: 'number', minimum: 0 };
+
+/**
+ * JSON Schema of QuoteRequest for the backend - `validateQuoteRequest` checks
+ * the same rules at runtime.
+ *
+ * @example
+ * fs.writeFileSync('quote-request.schema.json', JSON.stringify(QUOTE_REQUEST_SCHEMA, null, 2));
+ */
+export const QUOTE_REQUEST_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:syskomp:quote-request:${QUOTE_REQUEST_VERSION}`,
+  title: 'Syskomp QuoteRequest',
+  type: 'object',
+  required: [
+    'version', 'inquiryNumber', 'createdAt', 'locale', 'contact', 'addressLines', 'callbackRequested',
+    'items', 'totals', 'customFields', 'attachments', 'metadata',
+  ],
+  additionalProperties: false,
+  properties: {
+    version: { const: QUOTE_REQUEST_VERSION },
+    inquiryNumber: { type: 'string', minLength: 1 },
+    createdAt: { type: 'string', format: 'date-time' },
+    locale: { type: 'string', minLength: 2 },
+    source: { type: 'string' },
+    contact: {
+      type: 'object',
+      required: CONTACT_FIELDS,
+      additionalProperties: false,
+      properties: Object.fromEntries(CONTACT_FIELDS.map((name) => [name, { type: 'string' }])),
+    },
+    addressLines: { type: 'array', items: { type: 'string' } },
+    callbackRequested: { type: 'boolean' },
+    description: { type: 'string' },
+    items: { type: 'array', items: { $ref: '#/$defs/item' } },
+    totals: {
+      type: 'object',
+      required: ['currency', 'subtotal', 'discountPercent', 'discount', 'net', 'vat', 'gross', 'incomplete'],
+      additionalProperties: false,
+      properties: {
+        currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+        subtotal: amount,
+        discountPercent: percent,
+        discount: amount,
+        net: amount,
+        vatRate: percent,
+        vat: amount,
+        gross: amount,
+        incomplete: { type: 'boolean' },
+      },
+    },
+    customFields: {
+      type: 'object',
+      additionalProperties: { type: ['string', 'boolean'] },
+    },
+    attachments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'size', 'type'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          size: { type: 'integer', minimum: 0 },
+          type: { type: 'string' },
+        },
+      },
+    },
+    metadata: { type: 'object' },
+  },
+  $defs: {
+    item: {
+      type: 'object',
+      required: ['description', 'quantity', 'totalQuantity'],
+      additionalProperties: false,
+      properties: {
+        description: { type: 'string' },
+        articleNumber: { type: 'string' },
+        quantity: { type: 'number', minimum: 0 },
+        totalQuantity: { type: 'number', minimum: 0 },
+        unit: { type: 'string' },
+        unitPrice: amount,
+        discountPercent: percent,
+        lineTotal: amount,
+        children: { type: 'array', items: { $ref: '#/$defs/item' } },
+      },
+    },
+  },
+};
+
+// ─── Validation ──────────────────────────────────────────────
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+};
+
+// RFC 3339 date-time as written by Date#toISOString (offsets allowed)
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const checkSchema = (value: unknown, schema: JsonSchema, path: string, issues: QuoteRequestIssue[]): void => {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '');
+    checkSchema(value, QUOTE_REQUEST_SCHEMA.$defs![name], path, issues);
+    return;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `must be of type ${types.join(' or ')}` });
+      return;
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+    if (schema.format === 'date-time' && (!DATE_TIME.test(value) || Number.isNaN(Date.parse(value)))) {
+      issues.push({ path, message: 'must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((entry, index) => checkSchema(entry, schema.items!, childPath(path, index), issues));
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      // undefined is dropped by JSON.stringify - same as a missing property
+      if (value[key] === undefined) issues.push({ path: childPath(path, key), message: 'is required' });
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined) continue;
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (propertySchema === false) {
+        issues.push({ path: childPath(path, key), message: 'is not allowed' });
+      } else if (typeof propertySchema === 'object') {
+        checkSchema(entry, propertySchema, childPath(path, key), issues);
+      }
+    }
+  }
+};
+
+/**
+ * Check a payload against QUOTE_REQUEST_SCHEMA, e.g. in a backend or before
+ * an outbox retries a stored request.
+ *
+ * @example
+ * validateQuoteRequest(JSON.parse(body)) // { valid: false, issues: [{ path: 'items[0].quantity', message: 'must be of type number' }] }
+ */
+export const validateQuoteRequest = (value: unknown): QuoteRequestValidation => {
+  const issues: QuoteRequestIssue[] = [];
+  checkSchema(value, QUOTE_REQUEST_SCHEMA, '', issues);
+  return { valid: issues.length === 0, issues };
+};
+
+/** Type guard around validateQuoteRequest */
+export const isQuoteRequest = (value: unknown): value is QuoteRequest => validateQuoteRequest(value).valid;
@@ -0,0 +1,21 @@
+/**
+ * LocalStorage persistence helpers
+ * Used to restore contact data between visits. All access is wrapped in
+ * try/catch - storage may be disabled (private mode, sandboxed iframe).
+ */
+
+/** Read a JSON value; returns an empty object if missing or unreadable */
+export const loadFromStorage = <T extends object>(key: string): Partial<T> => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return JSON.parse(stored);
+  } catch { /* ignore */ }
+  return {};
+};
+
+/** Write a JSON value; failures are ignored */
+export const saveToStorage = <T>(key: string, data: T) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+  } catch { /* ignore */ }
+};
@@ -0,0 +1,26 @@
+import { crc32 } from '../zip';
+
+/** Read back the stored entries via the central directory */
+export const readZip = (zip: Uint8Array): Record<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  if (view.getUint32(end, true) !== 0x06054b50) throw new Error('No end of central directory record');
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error('Bad central directory entry');
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const name = decoder.decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+    const local = view.getUint32(pos + 42, true);
+    if (view.getUint32(local, true) !== 0x04034b50) throw new Error('Bad local file header');
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    if (crc32(data) !== view.getUint32(pos + 16, true)) throw new Error(`CRC mismatch in ${name}`);
+    files[name] = decoder.decode(data);
+    pos += 46 + nameLength;
+  }
+  return files;
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { createTheme, defaultTheme, withAlpha, darken, SyskompThemeProvider, useTheme } from './theme';
+
+const Probe: React.FC = () => {
+  const theme = useTheme({ typography: { fontSize: '16px' } });
+  return <p>{theme.colors.skTurkis} {theme.typography.fontSize}</p>;
+};
+
+describe('theme', () => {
+  it('returns the Syskomp design without overrides', () => {
+    expect(createTheme()).toEqual(defaultTheme);
+  });
+
+  it('derives light/border/hover tokens from changed accent colors', () => {
+    const theme = createTheme({ colors: { skTurkis: '#ff0000', skButton: '#0000ff' } });
+    expect(theme.colors.skTurkisLight).toBe('rgba(255, 0, 0, 0.1)');
+    expect(theme.colors.skTurkisBorder).toBe('#ff0000');
+    expect(theme.colors.skButtonHover).toBe(darken('#0000ff', 0.16));
+  });
+
+  it('keeps explicitly overridden derived tokens', () => {
+    const theme = createTheme({ colors: { skTurkis: '#ff0000', skTurkisLight: '#eee' } });
+    expect(theme.colors.skTurkisLight).toBe('#eee');
+  });
+
+  it('leaves non-hex colors untouched in helpers', () => {
+    expect(withAlpha('red', 0.5)).toBe('red');
+    expect(darken('#fff', 0.5)).toBe('#808080');
+  });
+
+  it('merges provider and component overrides', () => {
+    render(
+      <SyskompThemeProvider theme={{ colors: { skTurkis: '#123456' } }}>
+        <Probe />
+      </SyskompThemeProvider>
+    );
+    expect(screen.getByText('#123456 16px')).toBeInTheDocument();
+  });
+});
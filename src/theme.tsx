@@ -0,0 +1,200 @@
+/**
+ * Shared theme for Syskomp modals
+ * Design tokens (colors, radii, typography, z-index), provider and lookup hook.
+ *
+ * The default theme is the Syskomp design system (see PROMPTS/Design-Update.md),
+ * so modals render unchanged unless a host passes overrides.
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface SyskompTheme {
+  colors: {
+    /** --sk-turkis: accent, secondary buttons, highlights */
+    skTurkis: string;
+    /** --sk-button: primary action */
+    skButton: string;
+    /** --sk-button-hover */
+    skButtonHover: string;
+    /** --sk-price */
+    skPrice: string;
+    /** --sk-cad */
+    skCad: string;
+    /** --sk-blau: section titles */
+    skBlau: string;
+    /** --sk-grau */
+    skGrau: string;
+    /** sk-turkis with 10% opacity - note boxes, active callback button */
+    skTurkisLight: string;
+    skTurkisBorder: string;
+    text: string;
+    title: string;
+    muted: string;
+    /** Secondary ("Schließen", "Abbrechen") button background */
+    neutralButton: string;
+    inputBorder: string;
+    surface: string;
+    surfaceBorder: string;
+    background: string;
+    overlay: string;
+    errorRed: string;
+    errorBg: string;
+    successGreen: string;
+    successBg: string;
+    /** Confirmation state of action buttons ("✓ Text kopiert!") */
+    successButton: string;
+  };
+  radii: {
+    /** Inputs, buttons, section boxes */
+    sm: string;
+    /** Popovers */
+    md: string;
+    /** Modal frame */
+    lg: string;
+  };
+  typography: {
+    fontFamily: string;
+    /** Base size of QuoteModal */
+    fontSize: string;
+    /** Base size of EmailModal */
+    fontSizeLarge: string;
+    /** Labels, table rows, popover buttons */
+    fontSizeSmall: string;
+    fontSizeTitle: string;
+  };
+  zIndex: {
+    overlay: number;
+    popover: number;
+  };
+}
+
+/** Partial theme - every token is optional, missing ones come from the default theme */
+export type SyskompThemeOverrides = {
+  [K in keyof SyskompTheme]?: Partial<SyskompTheme[K]>;
+};
+
+// ─── Default Theme ───────────────────────────────────────────
+
+export const defaultTheme: SyskompTheme = {
+  colors: {
+    skTurkis: '#17a6b0',
+    skButton: '#00b51a',
+    skButtonHover: '#009914',
+    skPrice: '#17a6b0',
+    skCad: '#17a6b0',
+    skBlau: '#215674',
+    skGrau: '#575d5e',
+    skTurkisLight: 'rgba(23, 166, 176, 0.1)',
+    skTurkisBorder: '#17a6b0',
+    text: '#374151',
+    title: '#000000',
+    muted: '#6b7280',
+    neutralButton: '#6b7280',
+    inputBorder: '#d1d5db',
+    surface: '#f9fafb',
+    surfaceBorder: '#e5e7eb',
+    background: 'white',
+    overlay: 'rgba(0, 0, 0, 0.7)',
+    errorRed: '#dc2626',
+    errorBg: '#fef2f2',
+    successGreen: '#16a34a',
+    successBg: '#f0fdf4',
+    successButton: '#10b981',
+  },
+  radii: {
+    sm: '4px',
+    md: '6px',
+    lg: '8px',
+  },
+  typography: {
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    fontSize: '14px',
+    fontSizeLarge: '15px',
+    fontSizeSmall: '12px',
+    fontSizeTitle: '18px',
+  },
+  zIndex: {
+    overlay: 50,
+    popover: 60,
+  },
+};
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+const parseHex = (hex: string): [number, number, number] | null => {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!m) return null;
+  const h = m[1].length === 3 ? m[1].replace(/./g, (c) => c + c) : m[1];
+  return [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: number[]): string =>
+  '#' + rgb.map((c) => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('');
+
+/** Hex color with alpha, e.g. withAlpha('#17a6b0', 0.1) → 'rgba(23, 166, 176, 0.1)' */
+export const withAlpha = (hex: string, alpha: number): string => {
+  const rgb = parseHex(hex);
+  return rgb ? `rgba(${rgb[0]}, ${rgb[1]}, ${rgb[2]}, ${alpha})` : hex;
+};
+
+/** Darken a hex color by a factor (0..1); non-hex colors are returned unchanged */
+export const darken = (hex: string, amount: number): string => {
+  const rgb = parseHex(hex);
+  return rgb ? toHex(rgb.map((c) => c * (1 - amount))) : hex;
+};
+
+/**
+ * Merge overrides into the default theme.
+ * Changing only an accent color also updates the tokens derived from it
+ * (sk-turkis → light/border, sk-button → hover), unless those are overridden too.
+ */
+export const createTheme = (overrides: SyskompThemeOverrides = {}): SyskompTheme => {
+  const colors = { ...defaultTheme.colors, ...overrides.colors };
+  const given = overrides.colors || {};
+  if (given.skTurkis) {
+    if (!given.skTurkisLight) colors.skTurkisLight = withAlpha(given.skTurkis, 0.1);
+    if (!given.skTurkisBorder) colors.skTurkisBorder = given.skTurkis;
+  }
+  if (given.skButton && !given.skButtonHover) {
+    colors.skButtonHover = darken(given.skButton, 0.16);
+  }
+
+  return {
+    colors,
+    radii: { ...defaultTheme.radii, ...overrides.radii },
+    typography: { ...defaultTheme.typography, ...overrides.typography },
+    zIndex: { ...defaultTheme.zIndex, ...overrides.zIndex },
+  };
+};
+
+const mergeOverrides = (a: SyskompThemeOverrides = {}, b: SyskompThemeOverrides = {}): SyskompThemeOverrides => ({
+  colors: { ...a.colors, ...b.colors },
+  radii: { ...a.radii, ...b.radii },
+  typography: { ...a.typography, ...b.typography },
+  zIndex: { ...a.zIndex, ...b.zIndex },
+});
+
+// ─── Provider ────────────────────────────────────────────────
+
+const ThemeContext = createContext<SyskompThemeOverrides>({});
+
+/**
+ * Sets theme overrides for all Syskomp modals below it.
+ * A `theme` prop passed directly to a modal takes precedence.
+ */
+export const SyskompThemeProvider: React.FC<{ theme: SyskompThemeOverrides; children?: React.ReactNode }> = ({
+  theme,
+  children,
+}) => {
+  const parent = useContext(ThemeContext);
+  const value = useMemo(() => mergeOverrides(parent, theme), [parent, theme]);
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+/** Resolved theme from the nearest provider plus component-level overrides */
+export const useTheme = (overrides?: SyskompThemeOverrides): SyskompTheme => {
+  const ctx = useContext(ThemeContext);
+  return useMemo(() => createTheme(mergeOverrides(ctx, overrides)), [ctx, overrides]);
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { validateVatId, normalizeVatId, VAT_ID_RULES } from './vatId';
+
+describe('vatId', () => {
+  it('accepts the example of every country', () => {
+    for (const [country, rule] of Object.entries(VAT_ID_RULES)) {
+      expect(validateVatId(rule.example, country)).toMatchObject({ valid: true, country });
+    }
+  });
+
+  it('normalizes spaces, dots, dashes and case', () => {
+    expect(normalizeVatId('de 123.456-788')).toBe('DE123456788');
+    expect(validateVatId('CHE-123.456.788 MWST', 'CH')).toEqual({
+      valid: true,
+      normalized: 'CHE123456788MWST',
+      country: 'CH',
+    });
+  });
+
+  it('reports format errors', () => {
+    expect(validateVatId('DE12345', 'DE').error).toBe('format');
+    expect(validateVatId('AT12345675', 'AT').error).toBe('format');
+    expect(validateVatId('NL123456782', 'NL').error).toBe('format');
+    expect(validateVatId('123456788').error).toBe('format');
+    expect(validateVatId('US123456788').error).toBe('format');
+  });
+
+  it('checks the check digits', () => {
+    expect(validateVatId('DE123456789').error).toBe('checksum');
+    expect(validateVatId('ATU12345678').error).toBe('checksum');
+    expect(validateVatId('BE0123456748').error).toBe('checksum');
+    expect(validateVatId('FR41303265045').error).toBe('checksum');
+    expect(validateVatId('PL1234567884').error).toBe('checksum');
+    expect(validateVatId('DK13585629').error).toBe('checksum');
+    expect(validateVatId('LU12345614').error).toBe('checksum');
+  });
+
+  it('accepts Dutch numbers passing either the 11-test or mod 97', () => {
+    // 11-test
+    expect(validateVatId('NL123456782B01').valid).toBe(true);
+    // mod 97 only (sole-trader numbers issued since 2020)
+    expect(validateVatId('NL000099998B57').valid).toBe(true);
+  });
+
+  it('checks only the format where no check digit is published', () => {
+    expect(validateVatId('FRXX303265045').valid).toBe(true);
+    expect(validateVatId('CZ7103192745').valid).toBe(true);
+  });
+
+  it('requires the prefix to match the address country', () => {
+    expect(validateVatId('ATU12345675', 'DE')).toMatchObject({ valid: false, error: 'country', country: 'AT' });
+    expect(validateVatId('ATU12345675', 'at').valid).toBe(true);
+  });
+});
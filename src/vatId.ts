@@ -0,0 +1,170 @@
+/**
+ * VAT ID validation (USt-IdNr.)
+ * Offline format and check-digit rules for the countries of the QuoteModal
+ * "Land" dropdown. No VIES request - a passing number is well-formed, not
+ * necessarily registered.
+ */
+
+// ─── Public Types ────────────────────────────────────────────
+
+export interface VatIdRule {
+  /** Number part after the country prefix (normalized: no spaces/dots/dashes, uppercase) */
+  pattern: RegExp;
+  /** Shown in the format error, e.g. "ATU12345678" */
+  example: string;
+  /** Check-digit test on the number part - omitted = format only */
+  checksum?: (number: string) => boolean;
+}
+
+export type VatIdError = 'format' | 'checksum' | 'country';
+
+export interface VatIdResult {
+  valid: boolean;
+  error?: VatIdError;
+  /** "DE123456789" */
+  normalized: string;
+  /** ISO country of the prefix (undefined if unknown) */
+  country?: string;
+}
+
+// ─── Check Digits ────────────────────────────────────────────
+
+const digitsOf = (value: string) => Array.from(value, Number);
+
+const weightedSum = (digits: number[], weights: number[]) =>
+  weights.reduce((sum, weight, i) => sum + weight * digits[i], 0);
+
+/** ISO 7064 MOD 11,10 (DE) */
+const mod11_10 = (number: string): boolean => {
+  const digits = digitsOf(number);
+  let product = 10;
+  for (let i = 0; i < digits.length - 1; i++) {
+    let sum = (digits[i] + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === digits[digits.length - 1];
+};
+
+/** Bigint-free mod 97 over a long digit string */
+const mod97 = (digits: string): number =>
+  Array.from(digits).reduce((rest, digit) => (rest * 10 + Number(digit)) % 97, 0);
+
+// ─── Rules ───────────────────────────────────────────────────
+
+export const VAT_ID_RULES: Record<string, VatIdRule> = {
+  DE: {
+    pattern: /^\d{9}$/,
+    example: 'DE123456788',
+    checksum: mod11_10,
+  },
+  AT: {
+    pattern: /^U\d{8}$/,
+    example: 'ATU12345675',
+    checksum: (number) => {
+      const d = digitsOf(number.slice(1));
+      const cross = (n: number) => Math.floor(n / 10) + (n % 10);
+      const sum = d[0] + cross(2 * d[1]) + d[2] + cross(2 * d[3]) + d[4] + cross(2 * d[5]) + d[6];
+      return (10 - ((sum + 4) % 10)) % 10 === d[7];
+    },
+  },
+  CH: {
+    // UID with optional MWST / TVA / IVA suffix
+    pattern: /^E\d{9}(MWST|TVA|IVA)?$/,
+    example: 'CHE-123.456.788 MWST',
+    checksum: (number) => {
+      const d = digitsOf(number.slice(1, 10));
+      const check = 11 - (weightedSum(d, [5, 4, 3, 2, 7, 6, 5, 4]) % 11);
+      return check !== 10 && (check === 11 ? 0 : check) === d[8];
+    },
+  },
+  NL: {
+    pattern: /^\d{9}B\d{2}$/,
+    example: 'NL123456782B01',
+    checksum: (number) => {
+      // Legacy numbers: 11-test on the RSIN; since 2020 also mod 97 over "NL" + number
+      const d = digitsOf(number.slice(0, 9));
+      const elevenTest = (weightedSum(d, [9, 8, 7, 6, 5, 4, 3, 2]) % 11) === d[8];
+      const letters = `NL${number}`.replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+      return elevenTest || mod97(letters) === 1;
+    },
+  },
+  BE: {
+    pattern: /^[01]\d{9}$/,
+    example: 'BE0123456749',
+    checksum: (number) => 97 - (Number(number.slice(0, 8)) % 97) === Number(number.slice(8)),
+  },
+  FR: {
+    // 2-character key + 9-digit SIREN
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+    example: 'FR40303265045',
+    checksum: (number) => {
+      const key = number.slice(0, 2);
+      // Alphanumeric keys use an unpublished algorithm - format only
+      if (!/^\d{2}$/.test(key)) return true;
+      return (12 + 3 * (Number(number.slice(2)) % 97)) % 97 === Number(key);
+    },
+  },
+  PL: {
+    pattern: /^\d{10}$/,
+    example: 'PL1234567883',
+    checksum: (number) => {
+      const d = digitsOf(number);
+      const check = weightedSum(d, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+      return check !== 10 && check === d[9];
+    },
+  },
+  CZ: {
+    pattern: /^\d{8,10}$/,
+    example: 'CZ12345679',
+    checksum: (number) => {
+      // Only legal entities (8 digits) have a published check digit
+      if (number.length !== 8) return true;
+      const d = digitsOf(number);
+      const rest = 11 - (weightedSum(d, [8, 7, 6, 5, 4, 3, 2]) % 11);
+      return (rest === 10 ? 0 : rest === 11 ? 1 : rest) === d[7];
+    },
+  },
+  DK: {
+    pattern: /^\d{8}$/,
+    example: 'DK13585628',
+    checksum: (number) => weightedSum(digitsOf(number), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  },
+  LU: {
+    pattern: /^\d{8}$/,
+    example: 'LU12345613',
+    checksum: (number) => Number(number.slice(0, 6)) % 89 === Number(number.slice(6)),
+  },
+};
+
+// ─── Public API ──────────────────────────────────────────────
+
+/** "de 123.456.788" → "DE123456788" */
+export const normalizeVatId = (value: string): string => value.replace(/[\s.\-]/g, '').toUpperCase();
+
+/**
+ * Validate a VAT ID offline. If `country` is given, the prefix must match it
+ * (a German address with an Austrian VAT ID is reported as `country` error).
+ *
+ * @example
+ * validateVatId('DE 123 456 788', 'DE') // { valid: true, normalized: 'DE123456788', country: 'DE' }
+ * validateVatId('ATU12345675', 'DE')    // { valid: false, error: 'country', ... }
+ */
+export const validateVatId = (value: string, country?: string): VatIdResult => {
+  const normalized = normalizeVatId(value);
+  // "CHE…" = "CH" + UID; no other country in the list deviates from ISO (like EL = Greece)
+  const prefixCountry = normalized.slice(0, 2);
+  const rule = VAT_ID_RULES[prefixCountry];
+
+  if (!rule) {
+    return { valid: false, error: 'format', normalized };
+  }
+  const number = normalized.slice(2);
+  if (!rule.pattern.test(number)) return { valid: false, error: 'format', normalized, country: prefixCountry };
+  if (rule.checksum && !rule.checksum(number)) return { valid: false, error: 'checksum', normalized, country: prefixCountry };
+  if (country && country.toUpperCase() !== prefixCountry) {
+    return { valid: false, error: 'country', normalized, country: prefixCountry };
+  }
+  return { valid: true, normalized, country: prefixCountry };
+};
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from './zip';
+import { readZip } from './test/readZip';
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('stores files that can be read back', () => {
+    const zip = createZip([
+      { name: 'a.txt', content: 'Hallo' },
+      { name: 'ordner/ü.xml', content: '<x>Größe</x>' },
+    ]);
+    expect(readZip(zip)).toEqual({ 'a.txt': 'Hallo', 'ordner/ü.xml': '<x>Größe</x>' });
+  });
+});